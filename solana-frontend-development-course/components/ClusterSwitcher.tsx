@@ -0,0 +1,71 @@
+import * as React from 'react';
+import { toast } from 'react-toastify';
+
+import { useCluster } from '../hooks/useCluster';
+import { ClusterError, CLUSTERS, customCluster } from '../models/cluster/Cluster';
+
+// picks the cluster every page connects to, or a custom RPC URL
+const ClusterSwitcher = () => {
+    const { cluster, setCluster } = useCluster();
+    // a custom URL is only applied once it's submitted
+    const [editingCustom, setEditingCustom] = React.useState(false);
+    const [customUrl, setCustomUrl] = React.useState('');
+
+    React.useEffect(() => {
+        if (cluster.name === 'custom') { setCustomUrl(cluster.endpoint); }
+    }, [cluster]);
+
+    const select = (name: string) => {
+        const preset = CLUSTERS.find(candidate => candidate.name === name);
+        setEditingCustom(!preset);
+        if (preset) { setCluster(preset); }
+    };
+
+    const applyCustomUrl = (event: { preventDefault: () => void }) => {
+        event.preventDefault();
+        try {
+            setCluster(customCluster(customUrl));
+            setEditingCustom(false);
+        } catch (error) {
+            if (!(error instanceof ClusterError)) { throw error; }
+            toast.error(error.message);
+        }
+    };
+
+    return (
+        <div className='flex items-center gap-2 text-sm text-white'>
+            <select
+                aria-label='Cluster'
+                value={editingCustom ? 'custom' : cluster.name}
+                onChange={event => select(event.target.value)}
+                className='bg-[#222524] border-2 border-gray-500 rounded-lg px-2 py-1 outline-none transition-all duration-200 hover:border-helius-orange'
+            >
+                {CLUSTERS.map(({ name, label }) => (
+                    <option key={name} value={name}>{label}</option>
+                ))}
+                <option value='custom'>Custom RPC</option>
+            </select>
+            {
+                (editingCustom || cluster.name === 'custom') &&
+                <form onSubmit={applyCustomUrl} className='flex items-center gap-2'>
+                    <input
+                        type='url'
+                        value={customUrl}
+                        placeholder='https://my-rpc.example.com'
+                        onChange={event => setCustomUrl(event.target.value)}
+                        className='w-48 bg-transparent outline-none border-2 border-transparent border-b-white'
+                    />
+                    <button
+                        type='submit'
+                        disabled={!customUrl || customUrl === cluster.endpoint}
+                        className='bg-[#222524] border-2 border-gray-500 rounded-lg px-2 py-1 transition-all duration-200 hover:border-helius-orange disabled:opacity-50 disabled:cursor-not-allowed'
+                    >
+                        Connect
+                    </button>
+                </form>
+            }
+        </div>
+    );
+};
+
+export default ClusterSwitcher;
@@ -0,0 +1,72 @@
+import * as React from 'react';
+import { toast } from 'react-toastify';
+
+import { useExplorer } from '../hooks/useExplorer';
+import { ExplorerError, EXPLORERS, selfHostedExplorer } from '../models/cluster/Explorer';
+
+// picks the explorer every link opens, or a self-hosted one described by a URL template
+const ExplorerSwitcher = () => {
+    const { explorer, setExplorer } = useExplorer();
+    // a template is only applied once it's submitted
+    const [editingTemplate, setEditingTemplate] = React.useState(false);
+    const [template, setTemplate] = React.useState('');
+
+    React.useEffect(() => {
+        if (explorer.id === 'self-hosted') { setTemplate(explorer.template); }
+    }, [explorer]);
+
+    const select = (id: string) => {
+        const builtIn = EXPLORERS.find(candidate => candidate.id === id);
+        setEditingTemplate(!builtIn);
+        if (builtIn) { setExplorer(builtIn); }
+    };
+
+    const applyTemplate = (event: { preventDefault: () => void }) => {
+        event.preventDefault();
+        try {
+            setExplorer(selfHostedExplorer(template));
+            setEditingTemplate(false);
+        } catch (error) {
+            if (!(error instanceof ExplorerError)) { throw error; }
+            toast.error(error.message);
+        }
+    };
+
+    return (
+        <div className='flex items-center gap-2 text-sm text-white'>
+            <select
+                aria-label='Explorer'
+                value={editingTemplate ? 'self-hosted' : explorer.id}
+                onChange={event => select(event.target.value)}
+                className='bg-[#222524] border-2 border-gray-500 rounded-lg px-2 py-1 outline-none transition-all duration-200 hover:border-helius-orange'
+            >
+                {EXPLORERS.map(({ id, name }) => (
+                    <option key={id} value={id}>{name}</option>
+                ))}
+                <option value='self-hosted'>Self-hosted</option>
+            </select>
+            {
+                (editingTemplate || explorer.id === 'self-hosted') &&
+                <form onSubmit={applyTemplate} className='flex items-center gap-2'>
+                    <input
+                        type='text'
+                        value={template}
+                        placeholder='https://explorer.example.com/{kind}/{value}?rpc={rpc}'
+                        title='{kind} is tx, address, block or token; {value} the signature, address, slot or mint; {cluster} the cluster name; {rpc} its RPC URL'
+                        onChange={event => setTemplate(event.target.value)}
+                        className='w-48 bg-transparent outline-none border-2 border-transparent border-b-white'
+                    />
+                    <button
+                        type='submit'
+                        disabled={!template || template === explorer.template}
+                        className='bg-[#222524] border-2 border-gray-500 rounded-lg px-2 py-1 transition-all duration-200 hover:border-helius-orange disabled:opacity-50 disabled:cursor-not-allowed'
+                    >
+                        Use
+                    </button>
+                </form>
+            }
+        </div>
+    );
+};
+
+export default ExplorerSwitcher;
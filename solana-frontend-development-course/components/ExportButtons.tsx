@@ -0,0 +1,63 @@
+import React from 'react';
+import { useConnection } from '@solana/wallet-adapter-react';
+import { toast } from 'react-toastify';
+
+import { ExportFormat, ExportSource, exportRecords, formatRecords } from '../scripts/export/AccountExport';
+
+interface ExportButtonsProps {
+    // builds the source when an export starts, so it picks up the page's current search
+    source: () => ExportSource;
+};
+
+const FORMATS: { format: ExportFormat, label: string, type: string }[] = [
+    { format: 'csv', label: 'CSV', type: 'text/csv' },
+    { format: 'json', label: 'JSON', type: 'application/json' },
+];
+
+// downloads every account matching the page's search as CSV or JSON
+const ExportButtons = ({ source }: ExportButtonsProps) => {
+    const { connection } = useConnection();
+    const [exporting, setExporting] = React.useState<ExportFormat | null>(null);
+
+    const download = async (format: ExportFormat, type: string) => {
+        setExporting(format);
+        try {
+            const exportSource = source();
+            const chunks: string[] = [];
+            for await (const chunk of formatRecords(exportRecords(connection, exportSource), exportSource.columns, format)) {
+                chunks.push(chunk);
+            }
+
+            // hand the file to the browser through a temporary link
+            const url = URL.createObjectURL(new Blob(chunks, { type }));
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `${exportSource.name}.${format}`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            toast.error('Export failed!');
+            console.log('Error:', error);
+        } finally {
+            setExporting(null);
+        }
+    };
+
+    return (
+        <div className='flex gap-2'>
+            {FORMATS.map(({ format, label, type }) => (
+                <button
+                    key={format}
+                    type='button'
+                    disabled={exporting !== null}
+                    onClick={() => download(format, type)}
+                    className='disabled:opacity-50 disabled:cursor-not-allowed bg-[#222524] border-2 border-gray-500 rounded-lg px-2 py-1 text-sm transition-all duration-200 hover:border-helius-orange'
+                >
+                    {exporting === format ? 'Exporting...' : `Export ${label}`}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+export default ExportButtons;
@@ -1,4 +1,6 @@
 import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';
+import ClusterSwitcher from './ClusterSwitcher';
+import ExplorerSwitcher from './ExplorerSwitcher';
 
 const Navbar = () => {
     return (
@@ -10,7 +12,11 @@ const Navbar = () => {
                 </div>
             </a>
 
-            <WalletMultiButton className='!bg-helius-orange hover:!bg-black transition-all duration-200 !rounded-lg' />
+            <div className='flex items-center gap-4'>
+                <ClusterSwitcher />
+                <ExplorerSwitcher />
+                <WalletMultiButton className='!bg-helius-orange hover:!bg-black transition-all duration-200 !rounded-lg' />
+            </div>
         </nav>
     );
 };
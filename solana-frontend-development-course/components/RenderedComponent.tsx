@@ -1,35 +1,56 @@
+import * as React from 'react';
 import { ExternalLinkIcon } from '@heroicons/react/outline';
+import { useExplorer } from '../hooks/useExplorer';
 import { RenderedComponentProps } from '../interfaces/tokens';
+import { StepContext } from './StepWizard';
+import TransactionProgress from './TransactionProgress';
 
 const RenderedComponent = (props: RenderedComponentProps) => {
+    // set when the card is a step of a `StepWizard`
+    const step = React.useContext(StepContext);
+    const explorer = useExplorer();
+
     return (
-        <form onSubmit={event => props.method(event)} className='rounded-lg min-h-content bg-[#2a302f] p-4 sm:col-span-6 lg:col-start-2 lg:col-end-6'>
+        <form id={props.id} onSubmit={event => props.method(event)} className='rounded-lg min-h-content bg-[#2a302f] p-4 sm:col-span-6 lg:col-start-2 lg:col-end-6'>
             <div className='flex justify-between items-center'>
-                <h2 className='text-lg sm:text-2xl font-semibold'>
-                    {props.title}
-                </h2>
+                <div>
+                    {
+                        step &&
+                        <p className='text-sm italic'>
+                            Step {step.number}{step.optional && ' (optional)'}
+                            {step.status === 'done' && ' · done'}
+                            {step.status === 'locked' && ` · waiting for ${step.waitingFor.join(', ')}`}
+                        </p>
+                    }
+                    <h2 className='text-lg sm:text-2xl font-semibold'>
+                        {props.title}
+                    </h2>
+                </div>
                 <button
                     type='submit'
-                    disabled={props.validation === undefined}
+                    disabled={props.validation === undefined || step?.status === 'locked'}
                     className='bg-helius-orange rounded-lg py-1 sm:py-2 px-4 font-semibold transition-all duration-200 border-2 border-transparent hover:border-helius-orange disabled:opacity-50 disabled:hover:bg-helius-orange hover:bg-transparent disabled:cursor-not-allowed'
                 >
                     {props.buttonText}
                 </button>
             </div>
+            {props.children}
+            {props.status && <TransactionProgress status={props.status} />}
             <div className='text-sm font-semibold mt-8 bg-[#222524] border-2 border-gray-500 rounded-lg p-2'>
                 <ul className='p-2'>
-                    {props.outputs.map(({ title, dependency, href }, index) => (
+                    {props.outputs.map(({ title, dependency, link }, index) => (
                         <li key={title} className={`flex justify-between items-center ${index !== 0 && 'mt-4'}`}>
                             <p className='tracking-wider'>{title}</p>
                             {
                                 dependency &&
                                 <a
-                                    href={href}
+                                    href={typeof link === 'string' ? link : explorer.href(link)}
                                     target='_blank'
                                     rel='noopener noreferrer'
                                     className='flex text-[#80ebff] italic hover:text-white transition-all duration-200'
                                 >
-                                    {dependency.toString().slice(0, 25)}...
+                                    {/* addresses and signatures are shortened, short values like balances are shown whole */}
+                                    {dependency.toString().length > 25 ? `${dependency.toString().slice(0, 25)}...` : dependency.toString()}
                                     <ExternalLinkIcon className='w-5 ml-1' />
                                 </a>
                             }
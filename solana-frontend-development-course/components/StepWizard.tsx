@@ -0,0 +1,66 @@
+import * as React from 'react';
+
+import { StepWizardProps } from '../interfaces/wizard';
+import { StepState } from '../models/wizard/StepWizard';
+
+/*
+    Renders the steps of a step wizard in order, after a card showing how far along
+    they are. Each step's card learns its own state from `StepContext`, which is how
+    `RenderedComponent` numbers itself and stays disabled until the step is ready.
+*/
+
+export const StepContext = React.createContext<StepState | null>(null);
+
+const statusText = (state: StepState) => {
+    if (state.status === 'done') { return 'done'; }
+    if (state.status === 'ready') { return state.optional ? 'optional' : 'ready'; }
+    return `waiting for ${state.waitingFor.join(', ')}`;
+};
+
+const StepWizard = <Names extends string>(props: StepWizardProps<Names>) => {
+    const done = props.states.filter(state => state.status === 'done').length;
+
+    return (
+        <>
+            <div className='rounded-lg bg-[#2a302f] p-4 sm:col-span-6 lg:col-start-2 lg:col-end-6'>
+                <div className='flex justify-between items-center'>
+                    <h2 className='text-lg sm:text-2xl font-semibold'>
+                        {props.title}
+                    </h2>
+                    <button
+                        type='button'
+                        onClick={props.reset}
+                        className='bg-[#222524] border-2 border-gray-500 rounded-lg px-2 py-1 text-sm transition-all duration-200 hover:border-helius-orange'
+                    >
+                        Start Over
+                    </button>
+                </div>
+                <p className='mt-2 text-sm italic'>
+                    {done} of {props.steps.length} steps done
+                </p>
+                <ol className='mt-4 text-sm'>
+                    {props.steps.map((step, index) => {
+                        const state = props.states[index];
+                        return (
+                            <li key={step.id} className={`flex justify-between ${index !== 0 && 'mt-2'} ${state.status === 'locked' && 'opacity-50'}`}>
+                                <a href={`#${step.id}`} className='hover:text-helius-orange transition-all duration-200'>
+                                    {state.number}. {step.title}
+                                </a>
+                                <span className={state.status === 'done' ? 'text-[#80ebff]' : 'italic'}>
+                                    {statusText(state)}
+                                </span>
+                            </li>
+                        );
+                    })}
+                </ol>
+            </div>
+            {props.steps.map((step, index) => (
+                <StepContext.Provider key={step.id} value={props.states[index]}>
+                    {props.cards[step.id]}
+                </StepContext.Provider>
+            ))}
+        </>
+    );
+};
+
+export default StepWizard;
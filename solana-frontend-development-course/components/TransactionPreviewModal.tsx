@@ -0,0 +1,144 @@
+import * as React from 'react';
+import * as web3 from '@solana/web3.js';
+import { Dialog, Transition } from '@headlessui/react';
+import { ShieldCheckIcon } from '@heroicons/react/outline';
+
+import { TransactionPreviewModalProps } from '../interfaces/transactions';
+import { formatTokenAmount } from '../models/tokens/TokenAmount';
+
+// lamports are SOL with 9 decimals
+const SOL_DECIMALS = 9;
+
+// "+0.5" or "-1.25", with the sign even for gains
+const formatChange = (before: bigint, after: bigint, decimals: number) =>
+    after < before ? `-${formatTokenAmount(before - after, decimals)}` : `+${formatTokenAmount(after - before, decimals)}`;
+
+const shorten = (address: web3.PublicKey) => {
+    const base58 = address.toBase58();
+    return `${base58.slice(0, 4)}...${base58.slice(-4)}`;
+};
+
+// what a transaction would do, shown before the wallet is asked to sign it
+const TransactionPreviewModal = ({ preview, publicKey, onApprove, onCancel }: TransactionPreviewModalProps) => {
+    // the last preview stays rendered while the dialog fades out
+    const [shown, setShown] = React.useState(preview);
+    React.useEffect(() => { if (preview) { setShown(preview); } }, [preview]);
+
+    const label = (address: web3.PublicKey) => publicKey?.equals(address) ? `${shorten(address)} (you)` : shorten(address);
+
+    return (
+        <Transition.Root show={!!preview} as={React.Fragment}>
+            <Dialog as="div" className="relative z-10" onClose={onCancel}>
+                <Transition.Child
+                    as={React.Fragment}
+                    enter="ease-out duration-300"
+                    enterFrom="opacity-0"
+                    enterTo="opacity-100"
+                    leave="ease-in duration-200"
+                    leaveFrom="opacity-100"
+                    leaveTo="opacity-0"
+                >
+                    <div className="fixed inset-0 bg-black bg-opacity-30 backdrop-blur-sm transition-opacity" />
+                </Transition.Child>
+
+                <div className="fixed z-10 inset-0 overflow-y-auto">
+                    <div className="flex items-end sm:items-center justify-center min-h-full p-4 text-center sm:p-0">
+                        <Transition.Child
+                            as={React.Fragment}
+                            enter="ease-out duration-300"
+                            enterFrom="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+                            enterTo="opacity-100 translate-y-0 sm:scale-100"
+                            leave="ease-in duration-200"
+                            leaveFrom="opacity-100 translate-y-0 sm:scale-100"
+                            leaveTo="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+                        >
+                            <Dialog.Panel className="relative bg-zinc-200 rounded-lg px-4 pb-4 text-left overflow-hidden shadow-xl transform transition-all sm:max-w-lg sm:w-full sm:p-6">
+                                <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-[#eebcb2] border-2 border-[#e44a2a]">
+                                    <ShieldCheckIcon className="h-6 w-6 text-helius-orange" aria-hidden="true" />
+                                </div>
+                                <Dialog.Title as="h3" className="mt-3 text-center text-lg leading-6 font-medium text-gray-900">
+                                    Review the transaction
+                                </Dialog.Title>
+                                {
+                                    shown &&
+                                    <div className="mt-4 max-h-96 overflow-y-auto text-sm text-gray-900">
+                                        <h4 className="font-bold">Instructions</h4>
+                                        <ol className="mt-1">
+                                            {shown.instructions.map((instruction, index) => (
+                                                <li key={index} className="border-2 border-[#e49f91] bg-[#eebcb2] rounded-md my-2 p-2">
+                                                    <p className="font-bold">{index + 1}. {instruction.name}</p>
+                                                    <p className="text-xs italic">{instruction.program}</p>
+                                                    {instruction.details.map(([name, value]) => (
+                                                        <p key={name} className="flex justify-between gap-2 text-xs">
+                                                            <span>{name}</span>
+                                                            <span className="truncate">{value}</span>
+                                                        </p>
+                                                    ))}
+                                                </li>
+                                            ))}
+                                        </ol>
+
+                                        <h4 className="mt-4 font-bold">Balance changes</h4>
+                                        {
+                                            shown.solChanges.length === 0 && shown.tokenChanges.length === 0 &&
+                                            <p className="italic">No balances change</p>
+                                        }
+                                        <ul className="mt-1">
+                                            {shown.solChanges.map(({ address, before, after }) => (
+                                                <li key={address.toBase58()} className="flex justify-between">
+                                                    <span>{label(address)}</span>
+                                                    <span className={after < before ? 'text-red-700' : 'text-green-700'}>
+                                                        {formatChange(BigInt(before), BigInt(after), SOL_DECIMALS)} SOL
+                                                    </span>
+                                                </li>
+                                            ))}
+                                            {shown.tokenChanges.map(({ account, mint, owner, decimals, before, after }) => (
+                                                <li key={account.toBase58()} className="flex justify-between">
+                                                    <span>{label(owner)}</span>
+                                                    <span className={after < before ? 'text-red-700' : 'text-green-700'}>
+                                                        {formatChange(before, after, decimals)} of {shorten(mint)}
+                                                    </span>
+                                                </li>
+                                            ))}
+                                        </ul>
+
+                                        <p className="mt-4">
+                                            <span className="font-bold">Compute units: </span>
+                                            {shown.unitsConsumed ?? 'not reported'}
+                                        </p>
+
+                                        {
+                                            shown.logs.length > 0 &&
+                                            <details className="mt-4">
+                                                <summary className="cursor-pointer font-bold">Program logs</summary>
+                                                <pre className="mt-2 overflow-x-auto text-xs">{shown.logs.join('\n')}</pre>
+                                            </details>
+                                        }
+                                    </div>
+                                }
+                                <div className="mt-5 sm:mt-6 flex gap-2">
+                                    <button
+                                        type="button"
+                                        className="inline-flex justify-center w-full rounded-md border-2 border-black shadow-sm px-4 py-2 bg-transparent hover:bg-zinc-300 text-base font-medium text-black sm:text-sm transition-all duration-200"
+                                        onClick={onCancel}
+                                    >
+                                        Cancel
+                                    </button>
+                                    <button
+                                        type="button"
+                                        className="inline-flex justify-center w-full rounded-md border-2 border-black shadow-sm px-4 py-2 bg-black hover:bg-zinc-800 text-base font-medium text-white sm:text-sm transition-all duration-200"
+                                        onClick={onApprove}
+                                    >
+                                        Approve
+                                    </button>
+                                </div>
+                            </Dialog.Panel>
+                        </Transition.Child>
+                    </div>
+                </div>
+            </Dialog>
+        </Transition.Root>
+    );
+};
+
+export default TransactionPreviewModal;
@@ -0,0 +1,24 @@
+import { TransactionProgressProps } from '../interfaces/transactions';
+import { describeStatus } from '../models/transactions/TransactionSender';
+
+// where a transaction sent by `useTransactionSender` is, with the program's logs if it failed
+const TransactionProgress = ({ status }: TransactionProgressProps) => {
+    if (status.stage === 'idle') { return null; }
+
+    return (
+        <div className='mt-4 text-sm'>
+            <p className={status.stage === 'failed' ? 'text-red-400' : 'italic'}>
+                {describeStatus(status)}
+            </p>
+            {
+                status.stage === 'failed' && status.logs.length > 0 &&
+                <details className='mt-2'>
+                    <summary className='cursor-pointer'>Program logs</summary>
+                    <pre className='mt-2 overflow-x-auto text-xs'>{status.logs.join('\n')}</pre>
+                </details>
+            }
+        </div>
+    );
+};
+
+export default TransactionProgress;
@@ -0,0 +1,369 @@
+import * as React from 'react';
+import * as web3 from '@solana/web3.js';
+import * as token from '@solana/spl-token';
+import { WalletSendTransactionError, WalletSignTransactionError } from '@solana/wallet-adapter-base';
+import { toast } from 'react-toastify';
+
+import { useExplorer } from '../../hooks/useExplorer';
+import { useTransactionSender } from '../../hooks/useTransactionSender';
+import { AirdropProps, OutputItem } from '../../interfaces/tokens';
+import {
+    AirdropItem,
+    AirdropRow,
+    clearAirdropProgress,
+    loadAirdropProgress,
+    packInstructions,
+    parseAirdropCsv,
+    rowKey,
+    saveAirdropProgress,
+} from '../../models/tokens/Airdrop';
+import { formatTokenAmount } from '../../models/tokens/TokenAmount';
+import { fetchLookupTables, parseAddressList } from '../../models/transactions/LookupTables';
+import { TransactionSendError } from '../../models/transactions/TransactionSender';
+import { getTokenAccount, getTokenMint, MAX_ACCOUNTS_PER_REQUEST, TokenMint } from '../../models/tokens/TokenProgram';
+import RenderedComponent from '../RenderedComponent';
+
+/*
+    Sends tokens from the wallet's associated token account to every row of a
+    CSV list. Each transaction the wallet signs pays as many rows as fit. Rows
+    that fail can be retried, and rows that were sent are skipped when the list
+    is run again. Lookup tables holding the recipients let each transaction pay
+    many more rows, when the wallet can sign v0 transactions.
+*/
+
+const inputClassName = 'py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white';
+
+const STATUS_LABELS: { [status in AirdropRow['status']]: string } = {
+    invalid: 'Invalid',
+    pending: 'Pending',
+    sending: 'Sending...',
+    done: 'Sent',
+    failed: 'Failed',
+};
+
+// `getMultipleAccountsInfo` in as many requests as needed
+const getAccountInfos = async (connection: web3.Connection, addresses: web3.PublicKey[]) => {
+    const infos: (web3.AccountInfo<Buffer> | null)[] = [];
+    for (let start = 0; start < addresses.length; start += MAX_ACCOUNTS_PER_REQUEST) {
+        infos.push(...await connection.getMultipleAccountsInfo(addresses.slice(start, start + MAX_ACCOUNTS_PER_REQUEST), 'confirmed'));
+    }
+    return infos;
+};
+
+const Airdrop = (props: AirdropProps) => {
+    const explorer = useExplorer();
+    const sender = useTransactionSender();
+    const [mintInput, setMintInput] = React.useState('');
+    const [csv, setCsv] = React.useState('');
+    const [mint, setMint] = React.useState<TokenMint | undefined>(undefined);
+    // the wallet's associated token account, which the tokens come from
+    const [source, setSource] = React.useState<web3.PublicKey | undefined>(undefined);
+    const [rows, setRows] = React.useState<AirdropRow[]>([]);
+    const [tableInput, setTableInput] = React.useState('');
+    const [lookupTables, setLookupTables] = React.useState<web3.AddressLookupTableAccount[]>([]);
+    const [tableError, setTableError] = React.useState<string | null>(null);
+    const [running, setRunning] = React.useState(false);
+
+    React.useEffect(() => {
+        if (props.mintAddr) { setMintInput(props.mintAddr.toBase58()); }
+    }, [props.mintAddr]);
+
+    React.useEffect(() => {
+        setMint(undefined);
+        let address: web3.PublicKey;
+        try {
+            address = new web3.PublicKey(mintInput.trim());
+        } catch (err) {
+            return;
+        }
+
+        let cancelled = false;
+        getTokenMint(props.connection, address, 'confirmed')
+            .then(found => { if (!cancelled) { setMint(found); } })
+            .catch(err => console.log('error', err));
+        return () => { cancelled = true; };
+    }, [props.connection, mintInput]);
+
+    React.useEffect(() => {
+        setSource(undefined);
+        if (!mint || !props.publicKey) { return; }
+
+        let cancelled = false;
+        token.getAssociatedTokenAddress(mint.address, props.publicKey, false, mint.programId)
+            .then(address => { if (!cancelled) { setSource(address); } })
+            .catch(err => console.log('error', err));
+        return () => { cancelled = true; };
+    }, [mint, props.publicKey]);
+
+    // the lookup tables are loaded again whenever their addresses or the cluster change
+    React.useEffect(() => {
+        setLookupTables([]);
+        setTableError(null);
+        let addresses: web3.PublicKey[];
+        try {
+            addresses = parseAddressList(tableInput);
+        } catch (err) {
+            setTableError(err instanceof Error ? err.message : String(err));
+            return;
+        }
+        if (addresses.length === 0) { return; }
+
+        let cancelled = false;
+        fetchLookupTables(props.connection, addresses)
+            .then(found => { if (!cancelled) { setLookupTables(found); } })
+            .catch(err => { if (!cancelled) { setTableError(err instanceof Error ? err.message : String(err)); } });
+        return () => { cancelled = true; };
+    }, [props.connection, tableInput]);
+
+    // the list is read again whenever it, the mint or the cluster changes, marking the rows sent before
+    React.useEffect(() => {
+        if (!mint) {
+            setRows([]);
+            return;
+        }
+        const progress = source ? loadAirdropProgress(window.localStorage, props.connection.rpcEndpoint, mint.address, source) : {};
+        setRows(parseAirdropCsv(csv, mint.decimals).map(row => {
+            const signature = row.status === 'pending' ? progress[rowKey(row)] : undefined;
+            return signature ? { ...row, status: 'done', signature } : row;
+        }));
+    }, [csv, mint, source, props.connection]);
+
+    const toSend = rows.filter(({ status }) => status === 'pending' || status === 'failed');
+    const count = (status: AirdropRow['status']) => rows.filter(row => row.status === status).length;
+
+    const updateRows = (lines: number[], changes: Partial<AirdropRow>) =>
+        setRows(current => current.map(row => lines.includes(row.line) ? { ...row, ...changes } : row));
+
+    // the instructions paying each row, creating the recipients' accounts that don't exist yet
+    const buildItems = async (pending: AirdropRow[]): Promise<AirdropItem[]> => {
+        const wallet = props.publicKey!;
+        const recipients = pending.map(row => row.recipient!);
+        const associated = await Promise.all(
+            // off-curve recipients, e.g. PDAs of programs, have associated token accounts too
+            recipients.map(recipient => token.getAssociatedTokenAddress(mint!.address, recipient, true, mint!.programId))
+        );
+        const infos = await getAccountInfos(props.connection, [...recipients, ...associated]);
+        const recipientInfos = infos.slice(0, recipients.length);
+        const associatedInfos = infos.slice(recipients.length);
+
+        // a list may name the same wallet twice, and its account is only created once
+        const created = new Set<string>();
+        return pending.map((row, index) => {
+            const instructions: web3.TransactionInstruction[] = [];
+            const info = recipientInfos[index];
+            // a recipient can also be a token account of the mint
+            const isTokenAccount = !!info && info.owner.equals(mint!.programId) && info.data.length >= token.ACCOUNT_SIZE
+                && token.AccountLayout.decode(info.data.slice(0, token.ACCOUNT_SIZE)).mint.equals(mint!.address);
+            const destination = isTokenAccount ? recipients[index] : associated[index];
+
+            if (!isTokenAccount && !associatedInfos[index] && !created.has(destination.toBase58())) {
+                created.add(destination.toBase58());
+                instructions.push(
+                    token.createAssociatedTokenAccountInstruction(wallet, destination, recipients[index], mint!.address, mint!.programId)
+                );
+            }
+            instructions.push(
+                token.createTransferCheckedInstruction(source!, mint!.address, destination, wallet, row.raw!, mint!.decimals, [], mint!.programId)
+            );
+            return { line: row.line, instructions };
+        });
+    };
+
+    const runAirdrop = async (event: { preventDefault: () => void }) => {
+        event.preventDefault();
+
+        if (props.connectionErr()) { return; }
+
+        if (mint!.extensions.some(extension => extension.type === 'NonTransferable')) {
+            toast.error('This token is non-transferable');
+            return;
+        }
+
+        setRunning(true);
+        try {
+            const sourceAccount = await getTokenAccount(props.connection, source!, 'confirmed');
+            const total = toSend.reduce((accum, row) => accum + row.raw!, BigInt(0));
+            if (sourceAccount.amount < total) {
+                toast.error(`The list sends ${formatTokenAmount(total, mint!.decimals)} tokens, but the wallet holds ${formatTokenAmount(sourceAccount.amount, mint!.decimals)}`);
+                return;
+            }
+
+            // legacy transactions can't use lookup tables
+            const tables = sender.version === 'legacy' ? [] : lookupTables;
+            const batches = packInstructions(await buildItems(toSend), props.publicKey!, tables);
+            for (const { lines, transaction } of batches) {
+                updateRows(lines, { status: 'sending', error: null });
+                try {
+                    const signature = await sender.send(transaction, { lookupTables: tables });
+
+                    updateRows(lines, { status: 'done', signature });
+                    saveAirdropProgress(
+                        window.localStorage, props.connection.rpcEndpoint, mint!.address, source!,
+                        toSend.filter(row => lines.includes(row.line)).map(row => ({ ...row, signature }))
+                    );
+                } catch (err) {
+                    updateRows(lines, { status: 'failed', error: err instanceof Error ? err.message : String(err) });
+                    console.log('error', err);
+                    // the user declined to sign or the sending was cancelled, so the remaining batches stay pending instead of asking again
+                    if (
+                        err instanceof WalletSignTransactionError
+                        || err instanceof WalletSendTransactionError
+                        || (err instanceof TransactionSendError && err.reason === 'cancelled')
+                    ) { break; }
+                }
+            }
+        } catch (err) {
+            toast.error('Error sending the airdrop');
+            console.log('error', err);
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    const readFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) { return; }
+        file.text()
+            .then(setCsv)
+            .catch(err => console.log('error', err));
+    };
+
+    const forgetProgress = () => {
+        clearAirdropProgress(window.localStorage, props.connection.rpcEndpoint, mint!.address, source!);
+        setRows(current => current.map(row => row.status === 'done' ? { ...row, status: 'pending', signature: null } : row));
+    };
+
+    const buttonText = running ? 'Sending...' : count('failed') > 0 ? 'Retry Failed' : count('done') > 0 ? 'Resume' : 'Start Airdrop';
+
+    const outputs: OutputItem[] = [
+        {
+            title: 'Token Mint...',
+            dependency: mint ? mint.address : '',
+            link: { kind: 'token', target: mint?.address },
+        },
+        {
+            title: 'Source Account...',
+            dependency: source ?? '',
+            link: { kind: 'address', target: source },
+        },
+        {
+            title: 'Rows Sent...',
+            dependency: rows.length > 0 ? `${count('done')} of ${rows.length - count('invalid')}` : '',
+            link: { kind: 'address', target: source },
+        }
+    ];
+
+    return (
+        <RenderedComponent
+            id="airdrop"
+            title="Token Airdrop 🪂"
+            buttonText={buttonText}
+
+            method={runAirdrop}
+            validation={running || !source || toSend.length === 0 || (tableError && sender.version !== 'legacy') ? undefined : mint?.address}
+            outputs={outputs}
+            status={sender.status}
+        >
+            <div className='mt-6'>
+                <h3 className='italic text-sm'>
+                    Which token should be sent?
+                </h3>
+                <input
+                    type='text'
+                    placeholder='Token mint address'
+                    className={inputClassName}
+                    onChange={event => setMintInput(event.target.value)}
+                    value={mintInput}
+                />
+            </div>
+            <div className='mt-6'>
+                <h3 className='italic text-sm'>
+                    Lookup tables holding the recipients, if any
+                </h3>
+                <input
+                    type='text'
+                    placeholder={sender.version === 'legacy' ? 'This wallet only signs legacy transactions, which can\'t use lookup tables' : 'Lookup table addresses'}
+                    className={inputClassName}
+                    onChange={event => setTableInput(event.target.value)}
+                    value={tableInput}
+                    disabled={running || sender.version === 'legacy'}
+                />
+                {tableError && sender.version !== 'legacy' && <p className='mt-2 text-sm text-red-400'>{tableError}</p>}
+            </div>
+            <div className='mt-6'>
+                <div className='flex justify-between items-center'>
+                    <h3 className='italic text-sm'>
+                        Recipients, one <code>address,amount</code> row per line
+                    </h3>
+                    <input type='file' accept='.csv,text/csv' onChange={readFile} className='text-sm w-56' />
+                </div>
+                <textarea
+                    rows={5}
+                    placeholder={'address,amount\nGsbwXfJraMomNxBcjYLcG3mxkBUiyWXAB32fGbSMQRdW,10'}
+                    className={inputClassName}
+                    onChange={event => setCsv(event.target.value)}
+                    value={csv}
+                    disabled={running}
+                />
+            </div>
+            {
+                rows.length > 0 &&
+                <div className='mt-4 flex justify-between items-center text-sm'>
+                    <p className='italic'>
+                        {count('pending')} pending, {count('done')} sent, {count('failed')} failed, {count('invalid')} invalid
+                    </p>
+                    <button
+                        type='button'
+                        onClick={forgetProgress}
+                        disabled={running || count('done') === 0}
+                        className='bg-[#222524] border-2 border-gray-500 rounded-lg px-2 py-1 transition-all duration-200 hover:border-helius-orange disabled:opacity-50 disabled:cursor-not-allowed'
+                    >
+                        Forget Sent Rows
+                    </button>
+                </div>
+            }
+            {
+                rows.length > 0 &&
+                <div className='mt-4 max-h-80 overflow-y-auto'>
+                    <table className='w-full text-sm text-left'>
+                        <thead>
+                            <tr className='italic'>
+                                <th className='py-1'>Line</th>
+                                <th className='py-1'>Recipient</th>
+                                <th className='py-1 text-right'>Amount</th>
+                                <th className='py-1 text-right'>Status</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map(row => (
+                                <tr key={row.line} className='border-t border-gray-600'>
+                                    <td className='py-1'>{row.line}</td>
+                                    <td className='py-1'>{row.address.length > 12 ? `${row.address.slice(0, 4)}...${row.address.slice(-4)}` : row.address}</td>
+                                    <td className='py-1 text-right'>{row.amount}</td>
+                                    <td className='py-1 text-right'>
+                                        {
+                                            row.signature
+                                                ? <a
+                                                    href={explorer.tx(row.signature)}
+                                                    target='_blank'
+                                                    rel='noopener noreferrer'
+                                                    className='text-[#80ebff] italic hover:text-white transition-all duration-200'
+                                                >
+                                                    {STATUS_LABELS[row.status]}
+                                                </a>
+                                                : <span className={row.error ? 'text-red-400' : ''} title={row.error ?? undefined}>
+                                                    {STATUS_LABELS[row.status]}{row.error && row.status === 'invalid' ? `: ${row.error}` : ''}
+                                                </span>
+                                        }
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            }
+        </RenderedComponent>
+    );
+};
+
+export default Airdrop;
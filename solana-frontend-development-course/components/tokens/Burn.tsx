@@ -0,0 +1,101 @@
+import * as React from 'react';
+import * as token from '@solana/spl-token';
+import * as web3 from '@solana/web3.js';
+import { toast } from 'react-toastify';
+
+import { useTransactionSender } from '../../hooks/useTransactionSender';
+import { BurnProps, OutputItem } from '../../interfaces/tokens';
+import { TokenAmountError, parseTokenAmount } from '../../models/tokens/TokenAmount';
+import { getTokenAccount, getTokenMint } from '../../models/tokens/TokenProgram';
+import RenderedComponent from '../RenderedComponent';
+
+const Burn = (props: BurnProps) => {
+    const sender = useTransactionSender();
+    const [amount, setAmount] = React.useState('');
+
+    const burn = async (event: { preventDefault: () => void }) => {
+        event.preventDefault();
+
+        if (props.connectionErr()) { return; }
+
+        try {
+            const mint = await getTokenMint(props.connection, props.mintAddr!);
+            const raw = parseTokenAmount(amount, mint.decimals);
+
+            // the token account may belong to someone else, e.g. an associated token account created for a recipient
+            const source = await getTokenAccount(props.connection, props.accAddr!);
+            if (!source.owner.equals(props.publicKey!)) {
+                toast.error('Only the owner of the token account can burn its tokens');
+                return;
+            }
+
+            const transaction = new web3.Transaction().add(
+                // destroys tokens held by the token account, lowering the mint's supply by the same amount
+                token.createBurnCheckedInstruction(
+                    props.accAddr!, // token account to burn from
+                    props.mintAddr!, // token mint address
+                    props.publicKey!, // owner of the token account
+                    raw, // amount in the smallest unit
+                    mint.decimals,
+                    [],
+                    mint.programId // the program that owns the mint
+                )
+            );
+
+            const signature = await sender.send(transaction);
+            props.setBurnTx(signature);
+            setAmount('');
+            props.refreshBalances();
+        } catch (err) {
+            toast.error(err instanceof TokenAmountError ? err.message : 'Error burning tokens');
+            console.log('error', err);
+        }
+    };
+
+    const outputs: OutputItem[] = [
+        {
+            title: 'Token Supply...',
+            dependency: props.supply?.uiAmountString ?? '',
+            link: { kind: 'token', target: props.mintAddr },
+        },
+        {
+            title: 'Account Balance...',
+            dependency: props.balance?.uiAmountString ?? '',
+            link: { kind: 'address', target: props.accAddr },
+        },
+        {
+            title: 'Transaction Signature...',
+            dependency: props.burnTx,
+            link: { kind: 'tx', target: props.burnTx },
+        }
+    ];
+
+    return (
+        <RenderedComponent
+            id="burn"
+            title="Burn Tokens 🔥"
+            buttonText="Burn"
+
+            method={burn}
+            validation={props.accAddr}
+            outputs={outputs}
+            status={sender.status}
+        >
+            <div className='mt-6'>
+                <h3 className='italic text-sm'>
+                    How many tokens should be burned from your token account?
+                </h3>
+                <input
+                    type='text'
+                    inputMode='decimal'
+                    placeholder='Amount'
+                    className='py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white'
+                    onChange={event => setAmount(event.target.value)}
+                    value={amount}
+                />
+            </div>
+        </RenderedComponent>
+    );
+};
+
+export default Burn;
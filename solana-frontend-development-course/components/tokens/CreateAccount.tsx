@@ -3,75 +3,222 @@ import * as web3 from '@solana/web3.js';
 import * as token from '@solana/spl-token';
 import { toast } from 'react-toastify';
 
-import { CreateAccountProps } from '../../interfaces/tokens';
+import { useTransactionSender } from '../../hooks/useTransactionSender';
+import { CreateAccountProps, OutputItem } from '../../interfaces/tokens';
+import { extensionTypeOf, getAccountSize } from '../../models/tokens/TokenExtensions';
+import { getTokenMint, TokenMint } from '../../models/tokens/TokenProgram';
 import RenderedComponent from '../RenderedComponent';
 
+/*
+    Associated Token Accounts: every wallet has one canonical token account per
+    mint, at an address derived from the wallet and the mint. Wallets and explorers
+    look for tokens there, so it's the default. If it already exists, it's reused
+    instead of created. The owner can be any wallet, e.g. a recipient.
+
+    Auxiliary Accounts: additional token accounts at the address of a fresh keypair.
+    Nothing can derive their address, so they're only found again through the
+    address shown below. They're always owned by the connected wallet.
+
+    Either way the account belongs to the program that owns the mint. Token-2022
+    accounts also need room for the extensions their mint requires, e.g. for the
+    fees withheld from them. The associated token account program works that out
+    itself; auxiliary accounts are sized from the mint's extensions.
+*/
+
+type AccountMode = 'associated' | 'auxiliary';
+
 const CreateAccount = (props: CreateAccountProps) => {
-    
+    const sender = useTransactionSender();
+    const [mode, setMode] = React.useState<AccountMode>('associated');
+    // who the associated token account is for; empty means the connected wallet
+    const [owner, setOwner] = React.useState('');
+    // the associated token account of the chosen owner, if it already exists
+    const [existingAccount, setExistingAccount] = React.useState<web3.PublicKey | null>(null);
+    const [accOwner, setAccOwner] = React.useState<web3.PublicKey | undefined>(undefined);
+
+    // the owner as a key, or `null` while the typed address is invalid
+    const ownerKey = React.useMemo(() => {
+        if (owner.trim() === '') {
+            return props.publicKey;
+        }
+        try {
+            return new web3.PublicKey(owner.trim());
+        } catch (err) {
+            return null;
+        }
+    }, [owner, props.publicKey]);
+
+    // look up the owner's associated token account, so an existing one is used instead of failing to create it
+    React.useEffect(() => {
+        setExistingAccount(null);
+        if (mode !== 'associated' || !ownerKey || !props.mintAddr) { return; }
+
+        let cancelled = false;
+        getTokenMint(props.connection, props.mintAddr)
+            .then(mint => token.getAssociatedTokenAddress(mint.address, ownerKey, true, mint.programId))
+            .then(async address => {
+                const account = await props.connection.getAccountInfo(address);
+                if (!cancelled && account) {
+                    setExistingAccount(address);
+                }
+            })
+            .catch(err => console.log('error', err));
+        return () => { cancelled = true; };
+    }, [props.connection, props.mintAddr, ownerKey, mode, props.accTx]);
+
+    const createAssociatedAccount = async (mint: TokenMint) => {
+        if (!ownerKey) {
+            toast.error('Owner is not a valid address');
+            return;
+        }
+
+        // owners off the ed25519 curve (PDAs) are allowed, so programs can hold tokens too
+        const address = await token.getAssociatedTokenAddress(props.mintAddr!, ownerKey, true, mint.programId);
+
+        if (await props.connection.getAccountInfo(address)) {
+            toast.info('The associated token account already exists');
+            props.setAccTx('');
+            props.setAccAddr(address);
+            setAccOwner(ownerKey);
+            return;
+        }
+
+        const transaction = new web3.Transaction().add(
+            // creates and initializes the account at the address derived from the owner and the mint
+            token.createAssociatedTokenAccountInstruction(
+                props.publicKey!, // payer
+                address, // associated token account
+                ownerKey, // owner of the new account
+                props.mintAddr!, // token mint address
+                mint.programId // the program that owns the mint
+            )
+        );
+
+        const signature = await sender.send(transaction);
+        props.setAccTx(signature);
+        props.setAccAddr(address);
+        setAccOwner(ownerKey);
+    };
+
+    const createAuxiliaryAccount = async (mint: TokenMint) => {
+        // Token Accounts are accounts which hold tokens of a given mint.
+        const tokenAccount = web3.Keypair.generate();
+        // room for the account extensions the mint's extensions require
+        const space = getAccountSize(mint.extensions.map(extensionTypeOf));
+        // amount of SOL required for the account to not be deallocated
+        const lamports = await props.connection.getMinimumBalanceForRentExemption(space);
+        const programId = mint.programId;
+
+        const transaction = new web3.Transaction().add(
+            // creates a new account
+            web3.SystemProgram.createAccount({
+                fromPubkey: props.publicKey!,
+                newAccountPubkey: tokenAccount.publicKey,
+                space,
+                lamports,
+                programId
+            }),
+            // initializes the new account as a Token Account account
+            token.createInitializeAccountInstruction(
+                tokenAccount.publicKey, // account to initialize
+                props.mintAddr!, // token mint address
+                props.publicKey!, // owner of new account
+                programId // the program that owns the mint
+            )
+        );
+
+        const signature = await sender.send(transaction, { signers: [tokenAccount] });
+        props.setAccTx(signature);
+        props.setAccAddr(tokenAccount.publicKey);
+        setAccOwner(props.publicKey!);
+    };
+
     const createAccount = async (event: { preventDefault: () => void }) => {
         event.preventDefault();
 
         if (props.connectionErr()) { return; }
 
         try {
-            // Token Accounts are accounts which hold tokens of a given mint.
-            const tokenAccount = web3.Keypair.generate();
-            const space = token.ACCOUNT_SIZE;
-            // amount of SOL required for the account to not be deallocated
-            const lamports = await props.connection.getMinimumBalanceForRentExemption(space);
-            const programId = token.TOKEN_PROGRAM_ID;
-
-            const transaction = new web3.Transaction().add(
-                // creates a new account
-                web3.SystemProgram.createAccount({
-                    fromPubkey: props.publicKey!,
-                    newAccountPubkey: tokenAccount.publicKey,
-                    space,
-                    lamports,
-                    programId
-                }),
-                // initializes the new account as a Token Account account
-                token.createInitializeAccountInstruction(
-                    tokenAccount.publicKey, // account to initialize
-                    props.mintAddr!, // token mint address
-                    props.publicKey!, // owner of new account
-                    token.TOKEN_PROGRAM_ID // spl token program account
-                )   
-            );
-
-            // prompts the user to sign the transaction and submit it to the network
-            const signature = await props.sendTransaction(transaction, props.connection, { signers: [tokenAccount] });
-            props.setAccTx(signature);
-            props.setAccAddr(tokenAccount.publicKey);
+            const mint = await getTokenMint(props.connection, props.mintAddr!);
+            if (mode === 'associated') {
+                await createAssociatedAccount(mint);
+            } else {
+                await createAuxiliaryAccount(mint);
+            }
         } catch (err) {
             toast.error("Error creating Token Account");
             console.log('error', err);
         }
     };
 
-    const outputs = [
+    const outputs: OutputItem[] = [
         {
             title: "Token Account Address...",
             dependency: props.accAddr!,
-            href: `https://explorer.solana.com/address/${props.accAddr}?cluster=devnet`,
+            link: { kind: 'address', target: props.accAddr },
+        },
+        {
+            title: "Token Account Owner...",
+            dependency: props.accAddr ? accOwner! : '',
+            link: { kind: 'address', target: accOwner },
         },
         {
             title: "Transaction Signature...",
             dependency: props.accTx,
-            href: `https://explorer.solana.com/tx/${props.accTx}?cluster=devnet`,
+            link: { kind: 'tx', target: props.accTx },
         }
     ];
 
     return (
         <RenderedComponent
+            id="account"
             title="Create Token Account 💫"
-            buttonText="Create Account"
-            
+            buttonText={mode === 'associated' && existingAccount ? "Use Account" : "Create Account"}
+
             method={createAccount}
             validation={props.mintAddr}
             outputs={outputs}
-        />
+            status={sender.status}
+        >
+            <div className='mt-6 flex gap-4 text-sm'>
+                <label className='flex items-center'>
+                    <input
+                        type='radio'
+                        className='mr-2 accent-helius-orange'
+                        onChange={() => setMode('associated')}
+                        checked={mode === 'associated'}
+                    />
+                    Associated token account
+                </label>
+                <label className='flex items-center'>
+                    <input
+                        type='radio'
+                        className='mr-2 accent-helius-orange'
+                        onChange={() => setMode('auxiliary')}
+                        checked={mode === 'auxiliary'}
+                    />
+                    Auxiliary account (new keypair)
+                </label>
+            </div>
+            {
+                mode === 'associated' &&
+                <div className='mt-6'>
+                    <h3 className='italic text-sm'>
+                        Owner (leave empty for your wallet)
+                    </h3>
+                    <input
+                        type='text'
+                        placeholder='Your wallet'
+                        className='py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white'
+                        onChange={event => setOwner(event.target.value)}
+                        value={owner}
+                    />
+                    {ownerKey === null && owner.trim() !== '' && <p className='mt-2 text-sm text-red-400'>Owner is not a valid address</p>}
+                    {existingAccount && <p className='mt-2 text-sm italic'>This owner already has an associated token account for the mint.</p>}
+                </div>
+            }
+        </RenderedComponent>
     );
 };
 
-export default CreateAccount;
\ No newline at end of file
+export default CreateAccount;
@@ -0,0 +1,268 @@
+import * as React from 'react';
+import * as web3 from '@solana/web3.js';
+import { toast } from 'react-toastify';
+
+import { useTransactionSender } from '../../hooks/useTransactionSender';
+import { CreateMetadataProps, OutputItem } from '../../interfaces/tokens';
+import {
+    createInitializeMetadataInstruction,
+    createMetadataAccountInstruction,
+    createRemoveMetadataKeyInstruction,
+    createUpdateMetadataFieldInstruction,
+    EMPTY_METADATA_FIELDS,
+    getMetadataExtensionSize,
+    getTokenMetadata,
+    IMAGE_KEY,
+    MetadataField,
+    metadataStandardOf,
+    toMetadataJson,
+    TokenMetadata,
+    TokenMetadataFields,
+    updateMetadataAccountInstruction,
+    validateTokenMetadata,
+} from '../../models/tokens/TokenMetadata';
+import { getTokenMint, TokenMint } from '../../models/tokens/TokenProgram';
+import RenderedComponent from '../RenderedComponent';
+
+/*
+    An optional step after creating the mint: gives the token a name, symbol and
+    image, so wallets and explorers stop calling it "Unknown Token". The first
+    submit creates the metadata, later ones update it. The metadata is read back
+    after every change and whenever the mint changes.
+*/
+
+const FIELDS: { key: keyof TokenMetadataFields, label: string, placeholder: string }[] = [
+    { key: 'name', label: 'Name', placeholder: 'My Token' },
+    { key: 'symbol', label: 'Symbol', placeholder: 'MYT' },
+    { key: 'uri', label: 'URI of the metadata JSON', placeholder: 'https://example.com/token.json' },
+    { key: 'image', label: 'Image URL', placeholder: 'https://example.com/token.png' },
+];
+
+const CreateMetadata = (props: CreateMetadataProps) => {
+    const sender = useTransactionSender();
+    const [fields, setFields] = React.useState<TokenMetadataFields>(EMPTY_METADATA_FIELDS);
+    // the metadata as stored on-chain; `null` when the mint has none yet
+    const [metadata, setMetadata] = React.useState<TokenMetadata | null>(null);
+    // metadata accounts don't hold the image, so it's looked up in the JSON at the URI
+    const [image, setImage] = React.useState('');
+
+    const errors = validateTokenMetadata(fields);
+
+    React.useEffect(() => {
+        setMetadata(null);
+        setImage('');
+        if (!props.mintAddr) {
+            setFields(EMPTY_METADATA_FIELDS);
+            return;
+        }
+
+        let cancelled = false;
+        getTokenMint(props.connection, props.mintAddr, 'confirmed')
+            .then(mint => getTokenMetadata(props.connection, mint))
+            .then(async found => {
+                if (cancelled) { return; }
+                setMetadata(found);
+                setFields(found ? { name: found.name, symbol: found.symbol, uri: found.uri, image: found.image } : EMPTY_METADATA_FIELDS);
+                if (!found || found.image || !found.uri) {
+                    setImage(found?.image ?? '');
+                    return;
+                }
+
+                // hosts that don't allow cross-origin requests leave the image unknown
+                const response = await fetch(found.uri);
+                const json = await response.json();
+                if (!cancelled && typeof json.image === 'string') {
+                    setImage(json.image);
+                    setFields({ name: found.name, symbol: found.symbol, uri: found.uri, image: json.image });
+                }
+            })
+            .catch(err => console.log('error', err));
+        return () => { cancelled = true; };
+    }, [props.connection, props.mintAddr, props.metadataTx]);
+
+    // Token-2022 keeps the metadata in the mint, which has to be paid for the room it grows by
+    const metadataExtensionInstructions = async (mint: TokenMint, existing: TokenMetadata | null) => {
+        const instructions: web3.TransactionInstruction[] = [];
+        const wallet = props.publicKey!;
+
+        const info = await props.connection.getAccountInfo(mint.address, 'confirmed');
+        const space = info!.data.length - (existing ? getMetadataExtensionSize(existing) : 0) + getMetadataExtensionSize(fields);
+        const lamports = await props.connection.getMinimumBalanceForRentExemption(space);
+        if (lamports > info!.lamports) {
+            instructions.push(
+                web3.SystemProgram.transfer({
+                    fromPubkey: wallet,
+                    toPubkey: mint.address,
+                    lamports: lamports - info!.lamports,
+                })
+            );
+        }
+
+        if (!existing) {
+            instructions.push(createInitializeMetadataInstruction(mint.address, wallet, wallet, fields, mint.programId));
+        } else {
+            // only the fields that changed are written
+            const changes: [MetadataField, string, string][] = [
+                [MetadataField.Name, existing.name, fields.name.trim()],
+                [MetadataField.Symbol, existing.symbol, fields.symbol.trim()],
+                [MetadataField.Uri, existing.uri, fields.uri.trim()],
+            ];
+            changes
+                .filter(([, before, after]) => before !== after)
+                .forEach(([field, , after]) => instructions.push(
+                    createUpdateMetadataFieldInstruction(mint.address, wallet, field, after, mint.programId)
+                ));
+        }
+
+        const newImage = fields.image.trim();
+        if (newImage && newImage !== existing?.image) {
+            instructions.push(createUpdateMetadataFieldInstruction(mint.address, wallet, MetadataField.Key, newImage, mint.programId, IMAGE_KEY));
+        } else if (!newImage && existing?.image) {
+            instructions.push(createRemoveMetadataKeyInstruction(mint.address, wallet, IMAGE_KEY, mint.programId));
+        }
+
+        return instructions;
+    };
+
+    const writeMetadata = async (event: { preventDefault: () => void }) => {
+        event.preventDefault();
+
+        if (props.connectionErr()) { return; }
+
+        if (errors.length > 0) {
+            toast.error(errors[0]);
+            return;
+        }
+
+        try {
+            const mint = await getTokenMint(props.connection, props.mintAddr!, 'confirmed');
+            const existing = await getTokenMetadata(props.connection, mint);
+            const wallet = props.publicKey!;
+
+            // creating metadata proves control of the mint, changing it proves control of the metadata
+            if (!existing && !mint.mintAuthority?.equals(wallet)) {
+                toast.error('Only the mint authority can create the metadata');
+                return;
+            }
+            if (existing && !existing.updateAuthority?.equals(wallet)) {
+                toast.error('Only the update authority can change the metadata');
+                return;
+            }
+
+            const transaction = new web3.Transaction();
+            if (metadataStandardOf(mint) === 'metadata-extension') {
+                transaction.add(...await metadataExtensionInstructions(mint, existing));
+            } else if (existing) {
+                transaction.add(updateMetadataAccountInstruction(mint.address, wallet, fields));
+            } else {
+                transaction.add(createMetadataAccountInstruction(mint.address, wallet, wallet, fields));
+            }
+
+            if (transaction.instructions.length === 0) {
+                toast.info('The metadata is already up to date');
+                return;
+            }
+
+            const signature = await sender.send(transaction);
+            props.setMetadataTx(signature);
+        } catch (err) {
+            toast.error('Error writing metadata');
+            console.log('error', err);
+        }
+    };
+
+    // the JSON to host at the URI, for wallets that read the image from there
+    const downloadJson = () => {
+        const url = URL.createObjectURL(new Blob([toMetadataJson(fields)], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${fields.symbol.trim() || 'token'}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const outputs: OutputItem[] = [
+        {
+            title: 'Metadata Address...',
+            dependency: metadata ? metadata.address : '',
+            link: { kind: 'address', target: metadata?.address },
+        },
+        {
+            title: 'Name...',
+            dependency: metadata ? `${metadata.name} (${metadata.symbol})` : '',
+            link: { kind: 'token', target: props.mintAddr },
+        },
+        {
+            title: 'URI...',
+            dependency: metadata ? metadata.uri : '',
+            link: metadata?.uri ?? '',
+        },
+        {
+            title: 'Image...',
+            dependency: image,
+            link: image,
+        },
+        {
+            title: 'Update Authority...',
+            dependency: metadata ? metadata.updateAuthority ?? 'None' : '',
+            link: { kind: 'address', target: metadata?.updateAuthority },
+        },
+        {
+            title: 'Transaction Signature...',
+            dependency: props.metadataTx,
+            link: { kind: 'tx', target: props.metadataTx },
+        }
+    ];
+
+    return (
+        <RenderedComponent
+            id="metadata"
+            title="Token Metadata 🏷️"
+            buttonText={metadata ? "Update Metadata" : "Create Metadata"}
+
+            method={writeMetadata}
+            validation={errors.length > 0 ? undefined : props.mintAddr}
+            outputs={outputs}
+            status={sender.status}
+        >
+            {FIELDS.map(({ key, label, placeholder }) => (
+                <div key={key} className='mt-6'>
+                    <h3 className='italic text-sm'>
+                        {label}
+                    </h3>
+                    <input
+                        type='text'
+                        placeholder={placeholder}
+                        className='py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white'
+                        onChange={event => setFields({ ...fields, [key]: event.target.value })}
+                        value={fields[key]}
+                    />
+                </div>
+            ))}
+            <div className='mt-4 flex justify-between items-center'>
+                <p className='text-sm italic'>
+                    Host this JSON at the URI, so wallets find the image.
+                </p>
+                <button
+                    type='button'
+                    onClick={downloadJson}
+                    className='bg-[#222524] border-2 border-gray-500 rounded-lg px-2 py-1 text-sm transition-all duration-200 hover:border-helius-orange'
+                >
+                    Download JSON
+                </button>
+            </div>
+            {
+                props.mintAddr && errors.length > 0 &&
+                <ul className='mt-4 text-sm text-red-400'>
+                    {errors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+            }
+            {
+                image &&
+                <img src={image} alt={metadata?.name ?? 'Token image'} className='mt-4 w-16 h-16 rounded-full object-cover' />
+            }
+        </RenderedComponent>
+    );
+};
+
+export default CreateMetadata;
@@ -2,10 +2,82 @@ import * as React from 'react';
 import * as web3 from '@solana/web3.js';
 import * as token from '@solana/spl-token';
 import { toast } from 'react-toastify';
-import { CreateMintProps } from '../../interfaces/tokens';
+import { useTransactionSender } from '../../hooks/useTransactionSender';
+import { CreateMintProps, OutputItem } from '../../interfaces/tokens';
+import { MAX_DECIMALS, MintExtensionSettings, resolveMintSettings, validateMintSettings } from '../../models/tokens/MintSettings';
+import { createInitializeExtensionInstructions, getExtensionTypes, getMintSize, MintExtension } from '../../models/tokens/TokenExtensions';
+import { formatTokenAmount } from '../../models/tokens/TokenAmount';
+import { getTokenMint, TokenMint } from '../../models/tokens/TokenProgram';
+import { ExplorerLink } from '../../models/cluster/Explorer';
 import RenderedComponent from '../RenderedComponent';
 
+// one output line per extension of the created mint
+const describeExtension = (extension: MintExtension, mint: TokenMint): OutputItem => {
+    // an extension without an authority links to the mint
+    const link = (address: web3.PublicKey | null): ExplorerLink => address ? { kind: 'address', target: address } : { kind: 'token', target: mint.address };
+
+    switch (extension.type) {
+        case 'TransferFeeConfig': {
+            const fee = extension.newerTransferFee;
+            return {
+                title: 'Transfer Fee...',
+                dependency: `${fee.basisPoints / 100}%, max ${formatTokenAmount(fee.maximumFee, mint.decimals)}`,
+                link: link(extension.transferFeeConfigAuthority),
+            };
+        }
+        case 'InterestBearingConfig':
+            return {
+                title: 'Interest Rate...',
+                dependency: `${extension.currentRate / 100}% a year`,
+                link: link(extension.rateAuthority),
+            };
+        case 'NonTransferable':
+            return {
+                title: 'Non-Transferable...',
+                dependency: 'Yes',
+                link: link(null),
+            };
+        case 'MetadataPointer':
+            return {
+                title: 'Metadata Pointer...',
+                dependency: extension.metadataAddress ?? 'None',
+                link: link(extension.metadataAddress),
+            };
+        case 'TokenMetadata':
+            return {
+                title: 'Token Metadata...',
+                dependency: `${extension.name} (${extension.symbol})`,
+                link: link(null),
+            };
+        default:
+            return {
+                title: `Extension ${extension.extensionType}...`,
+                dependency: `${extension.length} bytes`,
+                link: link(null),
+            };
+    }
+};
+
 const CreateMint = (props: CreateMintProps) => {
+    const sender = useTransactionSender();
+    // the created mint as stored on-chain, to confirm the settings took effect
+    const [mintInfo, setMintInfo] = React.useState<TokenMint | undefined>(undefined);
+
+    const errors = validateMintSettings(props.mintSettings, props.tokenProgram);
+    const extensions = props.mintSettings.extensions;
+    const setExtensions = (changes: Partial<MintExtensionSettings>) =>
+        props.setMintSettings({ ...props.mintSettings, extensions: { ...extensions, ...changes } });
+
+    React.useEffect(() => {
+        setMintInfo(undefined);
+        if (!props.mintAddr) { return; }
+
+        let cancelled = false;
+        getTokenMint(props.connection, props.mintAddr, 'confirmed')
+            .then(mint => { if (!cancelled) { setMintInfo(mint); } })
+            .catch(err => console.log('error', err));
+        return () => { cancelled = true; };
+    }, [props.connection, props.mintAddr]);
 
     const createMint = async (event: { preventDefault: () => void; }) => {
         // prevents page from refreshing
@@ -14,33 +86,45 @@ const CreateMint = (props: CreateMintProps) => {
         // checks if wallet is connected
         if (props.connectionErr()) { return; }
 
+        // the button is disabled while the settings are invalid, but submitting with enter still gets here
+        if (errors.length > 0) {
+            toast.error(errors[0]);
+            return;
+        }
+
         try {
+            const { decimals, mintAuthority, freezeAuthority, extensions } = resolveMintSettings(props.mintSettings, props.publicKey!, props.tokenProgram);
+            const programId = props.tokenProgram.programId;
             // Token Mints are accounts which hold data ABOUT a specific token.
             // Token Mints DO NOT hold tokens themselves.
             const tokenMint = web3.Keypair.generate();
+            // every extension takes room in the mint account, and more room costs more rent
+            const space = getMintSize(getExtensionTypes(extensions));
             // amount of SOL required for the account to not be deallocated
-            const lamports = await token.getMinimumBalanceForRentExemptMint(props.connection);
+            const lamports = await props.connection.getMinimumBalanceForRentExemption(space);
             // `token.createMint` function creates a transaction with the following two instruction: `createAccount` and `createInitializeMintInstruction`.
             const transaction = new web3.Transaction().add(
                 // creates a new account
                 web3.SystemProgram.createAccount({
                     fromPubkey: props.publicKey!,
                     newAccountPubkey: tokenMint.publicKey,
-                    space: token.MINT_SIZE,
+                    space,
                     lamports,
-                    programId: token.TOKEN_PROGRAM_ID
+                    programId
                 }),
+                // extensions are initialized first, the mint itself can't be changed once initialized
+                ...createInitializeExtensionInstructions(tokenMint.publicKey, extensions, mintAuthority, programId),
                 // initializes the new account as a Token Mint account
                 token.createInitializeMintInstruction(
                     tokenMint.publicKey,
-                    0,
-                    props.publicKey!,
-                    token.TOKEN_PROGRAM_ID
+                    decimals, // how many decimal places the token is divided into
+                    mintAuthority, // the only account allowed to mint new tokens
+                    freezeAuthority, // the account allowed to freeze token accounts, or none
+                    programId // the original token program or Token-2022
                 )
             );
 
-            // prompts the user to sign the transaction and submit it to the network
-            const signature = await props.sendTransaction(transaction, props.connection, { signers: [tokenMint] });
+            const signature = await sender.send(transaction, { signers: [tokenMint] });
             props.setMintTx(signature);
             props.setMintAddr(tokenMint.publicKey);
         } catch (err) {
@@ -49,29 +133,182 @@ const CreateMint = (props: CreateMintProps) => {
         }
     };
 
-    const outputs = [
+    const outputs: OutputItem[] = [
         {
             title: 'Token Mint Address...',
             dependency: props.mintAddr!,
-            href: `https://explorer.solana.com/address/${props.mintAddr}?cluster=devnet`,
+            link: { kind: 'token', target: props.mintAddr },
         },
+        {
+            title: 'Decimals...',
+            dependency: mintInfo ? mintInfo.decimals.toString() : '',
+            link: { kind: 'token', target: props.mintAddr },
+        },
+        {
+            title: 'Mint Authority...',
+            dependency: mintInfo ? mintInfo.mintAuthority ?? 'None' : '',
+            link: { kind: 'address', target: mintInfo?.mintAuthority ?? props.mintAddr },
+        },
+        {
+            title: 'Freeze Authority...',
+            dependency: mintInfo ? mintInfo.freezeAuthority ?? 'None' : '',
+            link: { kind: 'address', target: mintInfo?.freezeAuthority ?? props.mintAddr },
+        },
+        {
+            title: 'Token Program...',
+            dependency: mintInfo ? mintInfo.programId : '',
+            link: { kind: 'address', target: mintInfo?.programId },
+        },
+        ...(mintInfo ? mintInfo.extensions.map(extension => describeExtension(extension, mintInfo)) : []),
         {
             title: 'Transaction Signature...',
             dependency: props.mintTx,
-            href: `https://explorer.solana.com/tx/${props.mintTx}?cluster=devnet`,
+            link: { kind: 'tx', target: props.mintTx },
         }
     ];
 
     return (
         <RenderedComponent
+            id="mint"
             title="Create Token Mint 🦄"
             buttonText="Create Mint"
-            
+
             method={createMint}
-            validation={null}
+            validation={errors.length > 0 ? undefined : null}
             outputs={outputs}
-        />
+            status={sender.status}
+        >
+            <div className='mt-6'>
+                <h3 className='italic text-sm'>
+                    Decimals (0 for whole tokens, 6 like USDC, 9 like SOL)
+                </h3>
+                <input
+                    type='number'
+                    min={0}
+                    max={MAX_DECIMALS}
+                    placeholder='Decimals'
+                    className='py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white'
+                    onChange={event => props.setMintSettings({ ...props.mintSettings, decimals: parseInt(event.target.value) })}
+                    value={Number.isNaN(props.mintSettings.decimals) ? '' : props.mintSettings.decimals}
+                />
+            </div>
+            <div className='mt-6'>
+                <h3 className='italic text-sm'>
+                    Mint authority (leave empty to use your wallet)
+                </h3>
+                <input
+                    type='text'
+                    placeholder='Your wallet'
+                    className='py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white'
+                    onChange={event => props.setMintSettings({ ...props.mintSettings, mintAuthority: event.target.value })}
+                    value={props.mintSettings.mintAuthority}
+                />
+            </div>
+            <div className='mt-6'>
+                <h3 className='italic text-sm'>
+                    Freeze authority (leave empty for none)
+                </h3>
+                <input
+                    type='text'
+                    placeholder='None'
+                    className='py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white'
+                    onChange={event => props.setMintSettings({ ...props.mintSettings, freezeAuthority: event.target.value })}
+                    value={props.mintSettings.freezeAuthority}
+                />
+            </div>
+            {
+                props.tokenProgram.supportsExtensions &&
+                <div className='mt-6'>
+                    <h3 className='italic text-sm'>
+                        Extensions (the mint authority manages them)
+                    </h3>
+                    <label className='mt-2 flex items-center text-sm'>
+                        <input
+                            type='checkbox'
+                            className='mr-2 accent-helius-orange'
+                            onChange={event => setExtensions({ transferFee: event.target.checked })}
+                            checked={extensions.transferFee}
+                        />
+                        Transfer fee
+                    </label>
+                    {
+                        extensions.transferFee &&
+                        <div className='flex gap-4'>
+                            <input
+                                type='number'
+                                min={0}
+                                placeholder='Fee in basis points'
+                                className='py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white'
+                                onChange={event => setExtensions({ transferFeeBasisPoints: parseInt(event.target.value) })}
+                                value={Number.isNaN(extensions.transferFeeBasisPoints) ? '' : extensions.transferFeeBasisPoints}
+                            />
+                            <input
+                                type='text'
+                                inputMode='decimal'
+                                placeholder='Maximum fee in tokens'
+                                className='py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white'
+                                onChange={event => setExtensions({ maximumFee: event.target.value })}
+                                value={extensions.maximumFee}
+                            />
+                        </div>
+                    }
+                    <label className='mt-2 flex items-center text-sm'>
+                        <input
+                            type='checkbox'
+                            className='mr-2 accent-helius-orange'
+                            onChange={event => setExtensions({ interestBearing: event.target.checked })}
+                            checked={extensions.interestBearing}
+                        />
+                        Interest bearing
+                    </label>
+                    {
+                        extensions.interestBearing &&
+                        <input
+                            type='number'
+                            placeholder='Yearly rate in basis points'
+                            className='py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white'
+                            onChange={event => setExtensions({ interestRate: parseInt(event.target.value) })}
+                            value={Number.isNaN(extensions.interestRate) ? '' : extensions.interestRate}
+                        />
+                    }
+                    <label className='mt-2 flex items-center text-sm'>
+                        <input
+                            type='checkbox'
+                            className='mr-2 accent-helius-orange'
+                            onChange={event => setExtensions({ nonTransferable: event.target.checked })}
+                            checked={extensions.nonTransferable}
+                        />
+                        Non-transferable
+                    </label>
+                    <label className='mt-2 flex items-center text-sm'>
+                        <input
+                            type='checkbox'
+                            className='mr-2 accent-helius-orange'
+                            onChange={event => setExtensions({ metadataPointer: event.target.checked })}
+                            checked={extensions.metadataPointer}
+                        />
+                        Metadata pointer
+                    </label>
+                    {
+                        extensions.metadataPointer &&
+                        <input
+                            type='text'
+                            placeholder='Metadata address (leave empty for the mint itself)'
+                            className='py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white'
+                            onChange={event => setExtensions({ metadataAddress: event.target.value })}
+                            value={extensions.metadataAddress}
+                        />
+                    }
+                </div>
+            }
+            {
+                errors.length > 0 &&
+                <ul className='mt-4 text-sm text-red-400'>
+                    {errors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+            }
+        </RenderedComponent>
     );
 };
 
-export default CreateMint;
\ No newline at end of file
+export default CreateMint;
@@ -0,0 +1,180 @@
+import * as React from 'react';
+import * as web3 from '@solana/web3.js';
+import * as token from '@solana/spl-token';
+import { toast } from 'react-toastify';
+
+import { useTransactionSender } from '../../hooks/useTransactionSender';
+import { CreateMultisigProps, OutputItem } from '../../interfaces/tokens';
+import {
+    DEFAULT_MULTISIG_SETTINGS,
+    getTokenMultisig,
+    MAX_MULTISIG_SIGNERS,
+    MultisigSettings,
+    resolveMultisigSigners,
+    TokenMultisig,
+    validateMultisigSettings,
+} from '../../models/tokens/Multisig';
+import RenderedComponent from '../RenderedComponent';
+
+/*
+    An optional step before creating the mint: a multisig that needs M of its N
+    members to sign. It becomes the mint or freeze authority by filling its
+    address into the mint card.
+*/
+
+const CreateMultisig = (props: CreateMultisigProps) => {
+    const sender = useTransactionSender();
+    const [settings, setSettings] = React.useState<MultisigSettings>(DEFAULT_MULTISIG_SETTINGS);
+    // the created multisig as stored on-chain
+    const [multisig, setMultisig] = React.useState<TokenMultisig | undefined>(undefined);
+
+    const errors = validateMultisigSettings(settings);
+
+    React.useEffect(() => {
+        setMultisig(undefined);
+        if (!props.multisigAddr) { return; }
+
+        let cancelled = false;
+        getTokenMultisig(props.connection, props.multisigAddr, 'confirmed')
+            .then(found => { if (!cancelled) { setMultisig(found); } })
+            .catch(err => console.log('error', err));
+        return () => { cancelled = true; };
+    }, [props.connection, props.multisigAddr]);
+
+    const createMultisig = async (event: { preventDefault: () => void }) => {
+        event.preventDefault();
+
+        if (props.connectionErr()) { return; }
+
+        if (errors.length > 0) {
+            toast.error(errors[0]);
+            return;
+        }
+
+        try {
+            const programId = props.tokenProgram.programId;
+            const account = web3.Keypair.generate();
+            const lamports = await props.connection.getMinimumBalanceForRentExemption(token.MULTISIG_SIZE);
+
+            const transaction = new web3.Transaction().add(
+                web3.SystemProgram.createAccount({
+                    fromPubkey: props.publicKey!,
+                    newAccountPubkey: account.publicKey,
+                    space: token.MULTISIG_SIZE,
+                    lamports,
+                    programId
+                }),
+                // the members and threshold can't be changed later
+                token.createInitializeMultisigInstruction(
+                    account.publicKey,
+                    resolveMultisigSigners(settings), // the members
+                    settings.m, // how many members have to sign
+                    programId // the program whose mints and accounts it will control
+                )
+            );
+
+            const signature = await sender.send(transaction, { signers: [account] });
+            props.setMultisigTx(signature);
+            props.setMultisigAddr(account.publicKey);
+        } catch (err) {
+            toast.error('Error creating multisig');
+            console.log('error', err);
+        }
+    };
+
+    // the mint card creates the next mint with the multisig as this authority
+    const assignAuthority = (authority: 'mintAuthority' | 'freezeAuthority') => {
+        if (!multisig) { return; }
+        if (!multisig.programId.equals(props.tokenProgram.programId)) {
+            toast.error('The multisig belongs to another token program than the one chosen for the mint');
+            return;
+        }
+        props.setMintSettings({ ...props.mintSettings, [authority]: multisig.address.toBase58() });
+    };
+
+    const outputs: OutputItem[] = [
+        {
+            title: 'Multisig Address...',
+            dependency: props.multisigAddr!,
+            link: { kind: 'address', target: props.multisigAddr },
+        },
+        {
+            title: 'Required Signatures...',
+            dependency: multisig ? `${multisig.m} of ${multisig.signers.length}` : '',
+            link: { kind: 'address', target: props.multisigAddr },
+        },
+        ...(multisig ? multisig.signers.map((signer, index): OutputItem => ({
+            title: `Signer ${index + 1}...`,
+            dependency: signer,
+            link: { kind: 'address', target: signer },
+        })) : []),
+        {
+            title: 'Transaction Signature...',
+            dependency: props.multisigTx,
+            link: { kind: 'tx', target: props.multisigTx },
+        }
+    ];
+
+    return (
+        <RenderedComponent
+            id="multisig"
+            title="Create Multisig 👥"
+            buttonText="Create Multisig"
+
+            method={createMultisig}
+            validation={errors.length > 0 ? undefined : null}
+            outputs={outputs}
+            status={sender.status}
+        >
+            <div className='mt-6'>
+                <h3 className='italic text-sm'>
+                    Signers (one address per line, up to {MAX_MULTISIG_SIGNERS})
+                </h3>
+                <textarea
+                    rows={3}
+                    placeholder={props.publicKey?.toBase58() ?? 'Signer address'}
+                    className='py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white'
+                    onChange={event => setSettings({ ...settings, signers: event.target.value })}
+                    value={settings.signers}
+                />
+            </div>
+            <div className='mt-6'>
+                <h3 className='italic text-sm'>
+                    How many signers have to sign?
+                </h3>
+                <input
+                    type='number'
+                    min={1}
+                    max={MAX_MULTISIG_SIGNERS}
+                    placeholder='Required signatures'
+                    className='py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white'
+                    onChange={event => setSettings({ ...settings, m: parseInt(event.target.value) })}
+                    value={Number.isNaN(settings.m) ? '' : settings.m}
+                />
+            </div>
+            {
+                multisig &&
+                <div className='mt-4 flex justify-end gap-2'>
+                    {([['mintAuthority', 'Use as mint authority'], ['freezeAuthority', 'Use as freeze authority']] as const).map(([authority, label]) => (
+                        <button
+                            key={authority}
+                            type='button'
+                            onClick={() => assignAuthority(authority)}
+                            className='bg-[#222524] border-2 border-gray-500 rounded-lg px-2 py-1 text-sm transition-all duration-200 hover:border-helius-orange'
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            }
+            {
+                settings.signers.trim() && errors.length > 0 &&
+                <ul className='mt-4 text-sm text-red-400'>
+                    {errors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+            }
+        </RenderedComponent>
+    );
+};
+
+export default CreateMultisig;
@@ -0,0 +1,253 @@
+import * as React from 'react';
+import * as web3 from '@solana/web3.js';
+import { toast } from 'react-toastify';
+
+import { useExplorer } from '../../hooks/useExplorer';
+import { useTransactionSender } from '../../hooks/useTransactionSender';
+import { OutputItem } from '../../interfaces/tokens';
+import { LookupTableManagerProps } from '../../interfaces/transactions';
+import {
+    closeLookupTableInstruction,
+    createLookupTableInstruction,
+    deactivateLookupTableInstruction,
+    extendLookupTableInstructions,
+    findLookupTables,
+    LOOKUP_TABLE_ACTIONS,
+    LookupTableAction,
+    lookupTableActionBlocker,
+    lookupTableStatus,
+    LookupTableStatus,
+    parseAddressList,
+} from '../../models/transactions/LookupTables';
+import RenderedComponent from '../RenderedComponent';
+
+/*
+    Creates, extends, deactivates and closes the address lookup tables the wallet
+    is the authority of. The wallet's tables are listed with how many addresses
+    they hold and whether they can still be used, and listed again after every
+    transaction. Extending sends one transaction per batch of addresses.
+*/
+
+const inputClassName = 'py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white';
+
+const STATUS_LABELS: { [status in LookupTableStatus]: string } = {
+    active: 'Active',
+    deactivating: 'Cooling down',
+    deactivated: 'Can be closed',
+};
+
+const shorten = (address: web3.PublicKey) => `${address.toBase58().slice(0, 4)}...${address.toBase58().slice(-4)}`;
+
+const LookupTableManager = (props: LookupTableManagerProps) => {
+    const explorer = useExplorer();
+    const sender = useTransactionSender();
+    const [action, setAction] = React.useState<LookupTableAction>(LookupTableAction.Create);
+    const [tableInput, setTableInput] = React.useState('');
+    const [addressesInput, setAddressesInput] = React.useState('');
+    const [running, setRunning] = React.useState(false);
+    const [lastTx, setLastTx] = React.useState('');
+
+    const [tables, setTables] = React.useState<web3.AddressLookupTableAccount[] | undefined>(undefined);
+    // the slot the tables were read at, which tells whether a deactivated one has cooled down
+    const [slot, setSlot] = React.useState(0);
+
+    React.useEffect(() => {
+        setTables(undefined);
+        if (!props.publicKey) { return; }
+
+        let cancelled = false;
+        Promise.all([findLookupTables(props.connection, props.publicKey), props.connection.getSlot('confirmed')])
+            .then(([found, current]) => {
+                if (cancelled) { return; }
+                setTables(found);
+                setSlot(current);
+            })
+            .catch(err => console.log('error', err));
+        return () => { cancelled = true; };
+    }, [props.connection, props.publicKey, lastTx]);
+
+    const table = tables?.find(({ key }) => key.toBase58() === tableInput);
+    const status = table && lookupTableStatus(table, slot);
+
+    // the addresses to add, or why they can't be
+    const extension = (() => {
+        if (action !== LookupTableAction.Extend || !table) { return { addresses: [], error: null }; }
+        try {
+            return { addresses: parseAddressList(addressesInput, table.state.addresses), error: null };
+        } catch (err) {
+            return { addresses: [], error: err instanceof Error ? err.message : String(err) };
+        }
+    })();
+
+    const blocker = (() => {
+        if (!props.publicKey) { return 'Connect your wallet'; }
+        if (!tables) { return 'Loading the wallet\'s tables...'; }
+        const reason = lookupTableActionBlocker(action, table, status);
+        if (reason) { return reason; }
+        if (action === LookupTableAction.Extend) {
+            if (extension.error) { return extension.error; }
+            if (extension.addresses.length === 0) { return 'Enter the addresses to add'; }
+        }
+        return null;
+    })();
+
+    const takeAction = async (event: { preventDefault: () => void }) => {
+        event.preventDefault();
+
+        if (props.connectionErr()) { return; }
+
+        if (blocker) {
+            toast.error(blocker);
+            return;
+        }
+
+        const wallet = props.publicKey!;
+        setRunning(true);
+        try {
+            switch (action) {
+                case LookupTableAction.Create: {
+                    // the table's address is derived from the slot, which has to be one the cluster still remembers
+                    const recentSlot = await props.connection.getSlot('finalized');
+                    const { address, instruction } = createLookupTableInstruction(wallet, recentSlot);
+                    setLastTx(await sender.send(new web3.Transaction().add(instruction)));
+                    setTableInput(address.toBase58());
+                    break;
+                }
+                case LookupTableAction.Extend: {
+                    // addresses from earlier batches stay in the table when a later one fails
+                    for (const instruction of extendLookupTableInstructions(table!.key, wallet, extension.addresses)) {
+                        setLastTx(await sender.send(new web3.Transaction().add(instruction)));
+                    }
+                    setAddressesInput('');
+                    break;
+                }
+                case LookupTableAction.Deactivate:
+                    setLastTx(await sender.send(new web3.Transaction().add(deactivateLookupTableInstruction(table!.key, wallet))));
+                    break;
+                case LookupTableAction.Close:
+                    setLastTx(await sender.send(new web3.Transaction().add(closeLookupTableInstruction(table!.key, wallet))));
+                    setTableInput('');
+                    break;
+            }
+        } catch (err) {
+            toast.error(`Error: ${LOOKUP_TABLE_ACTIONS.find(info => info.action === action)!.label.toLowerCase()} failed`);
+            console.log('error', err);
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    const outputs: OutputItem[] = [
+        {
+            title: 'Lookup Table...',
+            dependency: table ? table.key : '',
+            link: { kind: 'address', target: table?.key },
+        },
+        {
+            title: 'Addresses Held...',
+            dependency: table ? `${table.state.addresses.length}` : '',
+            link: { kind: 'address', target: table?.key },
+        },
+        {
+            title: 'Transaction Signature...',
+            dependency: lastTx,
+            link: { kind: 'tx', target: lastTx },
+        }
+    ];
+
+    return (
+        <RenderedComponent
+            id="lookuptables"
+            title="Lookup Tables 📇"
+            buttonText={running ? 'Sending...' : LOOKUP_TABLE_ACTIONS.find(info => info.action === action)!.label}
+
+            method={takeAction}
+            validation={running || blocker ? undefined : props.publicKey ?? undefined}
+            outputs={outputs}
+            status={sender.status}
+        >
+            <div className='mt-6'>
+                <h3 className='italic text-sm'>
+                    What should change?
+                </h3>
+                <select
+                    className='py-1 w-full bg-[#2a302f] outline-none border-2 border-transparent border-b-white'
+                    onChange={event => setAction(event.target.value as LookupTableAction)}
+                    value={action}
+                >
+                    {LOOKUP_TABLE_ACTIONS.map(({ action, label }) => <option key={action} value={action}>{label}</option>)}
+                </select>
+            </div>
+            {
+                action !== LookupTableAction.Create &&
+                <div className='mt-6'>
+                    <h3 className='italic text-sm'>
+                        Which table?
+                    </h3>
+                    <select
+                        className='py-1 w-full bg-[#2a302f] outline-none border-2 border-transparent border-b-white'
+                        onChange={event => setTableInput(event.target.value)}
+                        value={tableInput}
+                    >
+                        <option value=''>Choose a table</option>
+                        {tables?.map(({ key }) => <option key={key.toBase58()} value={key.toBase58()}>{key.toBase58()}</option>)}
+                    </select>
+                </div>
+            }
+            {
+                action === LookupTableAction.Extend &&
+                <div className='mt-6'>
+                    <h3 className='italic text-sm'>
+                        Addresses to add, separated by commas, spaces or new lines
+                    </h3>
+                    <textarea
+                        rows={4}
+                        placeholder='GsbwXfJraMomNxBcjYLcG3mxkBUiyWXAB32fGbSMQRdW'
+                        className={inputClassName}
+                        onChange={event => setAddressesInput(event.target.value)}
+                        value={addressesInput}
+                        disabled={running}
+                    />
+                </div>
+            }
+            {
+                blocker &&
+                <p className='mt-4 text-sm text-red-400'>{blocker}</p>
+            }
+            {
+                tables && tables.length > 0 &&
+                <div className='mt-4 max-h-80 overflow-y-auto'>
+                    <table className='w-full text-sm text-left'>
+                        <thead>
+                            <tr className='italic'>
+                                <th className='py-1'>Table</th>
+                                <th className='py-1 text-right'>Addresses</th>
+                                <th className='py-1 text-right'>Status</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {tables.map(found => (
+                                <tr key={found.key.toBase58()} className='border-t border-gray-600'>
+                                    <td className='py-1'>
+                                        <a
+                                            href={explorer.address(found.key)}
+                                            target='_blank'
+                                            rel='noopener noreferrer'
+                                            className='text-[#80ebff] italic hover:text-white transition-all duration-200'
+                                        >
+                                            {shorten(found.key)}
+                                        </a>
+                                    </td>
+                                    <td className='py-1 text-right'>{found.state.addresses.length}</td>
+                                    <td className='py-1 text-right'>{STATUS_LABELS[lookupTableStatus(found, slot)]}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            }
+        </RenderedComponent>
+    );
+};
+
+export default LookupTableManager;
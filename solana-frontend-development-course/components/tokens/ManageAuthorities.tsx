@@ -0,0 +1,212 @@
+import * as React from 'react';
+import * as web3 from '@solana/web3.js';
+import { toast } from 'react-toastify';
+
+import { useTransactionSender } from '../../hooks/useTransactionSender';
+import { ManageAuthoritiesProps, OutputItem } from '../../interfaces/tokens';
+import {
+    AUTHORITY_ACTIONS,
+    AuthorityAction,
+    authorityActionBlocker,
+    authorityActionInfo,
+    closeAuthorityOf,
+    createAuthorityActionInstruction,
+} from '../../models/tokens/TokenAuthority';
+import { getTokenAccount, getTokenMint, TokenAccount, TokenMint } from '../../models/tokens/TokenProgram';
+import RenderedComponent from '../RenderedComponent';
+
+/*
+    Hands the authorities of the mint and its token accounts to other accounts or
+    removes them, freezes and thaws token accounts, and closes empty ones to get
+    their rent back. The mint and the chosen account are read before anything is
+    sent, so the card can say why the wallet can't take an action.
+*/
+
+// an address as typed, `undefined` while it's empty and `null` if it isn't an address
+const parseAddress = (value: string): web3.PublicKey | null | undefined => {
+    if (!value.trim()) { return undefined; }
+    try {
+        return new web3.PublicKey(value.trim());
+    } catch (err) {
+        return null;
+    }
+};
+
+const ManageAuthorities = (props: ManageAuthoritiesProps) => {
+    const sender = useTransactionSender();
+    const [action, setAction] = React.useState<AuthorityAction>(AuthorityAction.SetMintAuthority);
+    // empty for the page's own token account
+    const [accountInput, setAccountInput] = React.useState('');
+    const [newAuthorityInput, setNewAuthorityInput] = React.useState('');
+
+    const [mint, setMint] = React.useState<TokenMint | undefined>(undefined);
+    // `null` when the chosen address isn't a token account
+    const [account, setAccount] = React.useState<TokenAccount | null | undefined>(undefined);
+
+    const info = authorityActionInfo(action);
+    const typedAccount = parseAddress(accountInput);
+    const accountAddr = typedAccount === undefined ? props.accAddr : typedAccount;
+    const newAuthority = parseAddress(newAuthorityInput);
+
+    React.useEffect(() => {
+        setMint(undefined);
+        setAccount(undefined);
+        if (!props.mintAddr) { return; }
+
+        let cancelled = false;
+        getTokenMint(props.connection, props.mintAddr, 'confirmed')
+            .then(found => { if (!cancelled) { setMint(found); } })
+            .catch(err => console.log('error', err));
+        if (accountAddr) {
+            getTokenAccount(props.connection, accountAddr, 'confirmed')
+                .then(found => { if (!cancelled) { setAccount(found); } })
+                .catch(() => { if (!cancelled) { setAccount(null); } });
+        }
+        return () => { cancelled = true; };
+    // the address is compared by value, a new `PublicKey` is parsed on every render
+    }, [props.connection, props.mintAddr, accountAddr?.toBase58(), props.authorityTx]);
+
+    // why the chosen action can't be taken, checked in the order the user fills in the card
+    const blocker = (() => {
+        if (!props.mintAddr) { return 'Create a mint first'; }
+        if (!props.publicKey) { return 'Connect your wallet'; }
+        if (!mint) { return 'Loading the mint...'; }
+        if (info.needsAccount) {
+            if (accountAddr === null) { return 'The token account address isn\'t valid'; }
+            if (accountAddr && account === null) { return 'That address isn\'t a token account'; }
+            if (accountAddr && account === undefined) { return 'Loading the token account...'; }
+        }
+        const reason = authorityActionBlocker(action, props.publicKey, mint, account ?? undefined);
+        if (reason) { return reason; }
+        if (newAuthority === null) { return 'The new authority isn\'t a valid address'; }
+        if (info.newAuthority === 'required' && !newAuthority) { return 'Enter the new owner'; }
+        return null;
+    })();
+
+    const takeAction = async (event: { preventDefault: () => void }) => {
+        event.preventDefault();
+
+        if (props.connectionErr()) { return; }
+
+        if (blocker) {
+            toast.error(blocker);
+            return;
+        }
+
+        try {
+            const target = info.needsAccount ? account! : undefined;
+            const transaction = new web3.Transaction().add(
+                createAuthorityActionInstruction(action, props.publicKey!, mint!, target, info.newAuthority === 'none' ? null : newAuthority ?? null)
+            );
+
+            const signature = await sender.send(transaction);
+            props.setAuthorityTx(signature);
+            setNewAuthorityInput('');
+
+            // the page stops watching its token account once it's gone
+            if (action === AuthorityAction.Close && props.accAddr && target?.address.equals(props.accAddr)) {
+                props.forgetAccount();
+            } else {
+                props.refreshBalances();
+            }
+        } catch (err) {
+            toast.error(`Error: ${info.label.toLowerCase()} failed`);
+            console.log('error', err);
+        }
+    };
+
+    const outputs: OutputItem[] = [
+        {
+            title: 'Mint Authority...',
+            dependency: mint ? mint.mintAuthority ?? 'None' : '',
+            link: { kind: 'address', target: mint?.mintAuthority ?? props.mintAddr },
+        },
+        {
+            title: 'Freeze Authority...',
+            dependency: mint ? mint.freezeAuthority ?? 'None' : '',
+            link: { kind: 'address', target: mint?.freezeAuthority ?? props.mintAddr },
+        },
+        {
+            title: 'Account Owner...',
+            dependency: account ? account.owner : '',
+            link: { kind: 'address', target: account?.owner },
+        },
+        {
+            title: 'Close Authority...',
+            dependency: account ? closeAuthorityOf(account) : '',
+            link: { kind: 'address', target: account && closeAuthorityOf(account) },
+        },
+        {
+            title: 'Account State...',
+            dependency: account ? (account.isFrozen ? 'Frozen' : 'Active') : '',
+            link: { kind: 'address', target: account?.address },
+        },
+        {
+            title: 'Transaction Signature...',
+            dependency: props.authorityTx,
+            link: { kind: 'tx', target: props.authorityTx },
+        }
+    ];
+
+    return (
+        <RenderedComponent
+            id="authorities"
+            title="Manage Authorities 🔑"
+            buttonText={info.label}
+
+            method={takeAction}
+            validation={blocker ? undefined : props.mintAddr}
+            outputs={outputs}
+            status={sender.status}
+        >
+            <div className='mt-6'>
+                <h3 className='italic text-sm'>
+                    What should change?
+                </h3>
+                <select
+                    className='py-1 w-full bg-[#2a302f] outline-none border-2 border-transparent border-b-white'
+                    onChange={event => setAction(event.target.value as AuthorityAction)}
+                    value={action}
+                >
+                    {AUTHORITY_ACTIONS.map(({ action, label }) => <option key={action} value={action}>{label}</option>)}
+                </select>
+            </div>
+            {
+                info.needsAccount &&
+                <div className='mt-6'>
+                    <h3 className='italic text-sm'>
+                        Token account (leave empty for the account created above)
+                    </h3>
+                    <input
+                        type='text'
+                        placeholder={props.accAddr?.toBase58() ?? 'Token account address'}
+                        className='py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white'
+                        onChange={event => setAccountInput(event.target.value)}
+                        value={accountInput}
+                    />
+                </div>
+            }
+            {
+                info.newAuthority !== 'none' &&
+                <div className='mt-6'>
+                    <h3 className='italic text-sm'>
+                        {info.newAuthority === 'required' ? 'New owner' : 'New authority (leave empty to remove it for good)'}
+                    </h3>
+                    <input
+                        type='text'
+                        placeholder={info.newAuthority === 'required' ? 'New owner address' : 'None'}
+                        className='py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white'
+                        onChange={event => setNewAuthorityInput(event.target.value)}
+                        value={newAuthorityInput}
+                    />
+                </div>
+            }
+            {
+                blocker &&
+                <p className='mt-4 text-sm text-red-400'>{blocker}</p>
+            }
+        </RenderedComponent>
+    );
+};
+
+export default ManageAuthorities;
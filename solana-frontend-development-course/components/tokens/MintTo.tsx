@@ -0,0 +1,101 @@
+import * as React from 'react';
+import * as token from '@solana/spl-token';
+import * as web3 from '@solana/web3.js';
+import { toast } from 'react-toastify';
+
+import { useTransactionSender } from '../../hooks/useTransactionSender';
+import { MintToProps, OutputItem } from '../../interfaces/tokens';
+import { TokenAmountError, parseTokenAmount } from '../../models/tokens/TokenAmount';
+import { getTokenMint } from '../../models/tokens/TokenProgram';
+import RenderedComponent from '../RenderedComponent';
+
+const MintTo = (props: MintToProps) => {
+    const sender = useTransactionSender();
+    const [amount, setAmount] = React.useState('');
+
+    const mintTo = async (event: { preventDefault: () => void }) => {
+        event.preventDefault();
+
+        if (props.connectionErr()) { return; }
+
+        try {
+            // amounts are typed in whole tokens, but the program counts the mint's smallest unit
+            const mint = await getTokenMint(props.connection, props.mintAddr!);
+            const raw = parseTokenAmount(amount, mint.decimals);
+
+            // the mint may have been created with another mint authority, or none at all
+            if (!mint.mintAuthority?.equals(props.publicKey!)) {
+                toast.error(mint.mintAuthority ? 'Only the mint authority can mint tokens' : 'This mint has a fixed supply');
+                return;
+            }
+
+            const transaction = new web3.Transaction().add(
+                // creates new tokens in the token account; only the mint authority may sign this
+                token.createMintToCheckedInstruction(
+                    props.mintAddr!, // token mint address
+                    props.accAddr!, // token account receiving the tokens
+                    props.publicKey!, // mint authority
+                    raw, // amount in the smallest unit
+                    mint.decimals, // rejected by the program if the mint has other decimals
+                    [],
+                    mint.programId // the program that owns the mint
+                )
+            );
+
+            const signature = await sender.send(transaction);
+            props.setMintToTx(signature);
+            setAmount('');
+            props.refreshBalances();
+        } catch (err) {
+            toast.error(err instanceof TokenAmountError ? err.message : 'Error minting tokens');
+            console.log('error', err);
+        }
+    };
+
+    const outputs: OutputItem[] = [
+        {
+            title: 'Token Supply...',
+            dependency: props.supply?.uiAmountString ?? '',
+            link: { kind: 'token', target: props.mintAddr },
+        },
+        {
+            title: 'Account Balance...',
+            dependency: props.balance?.uiAmountString ?? '',
+            link: { kind: 'address', target: props.accAddr },
+        },
+        {
+            title: 'Transaction Signature...',
+            dependency: props.mintToTx,
+            link: { kind: 'tx', target: props.mintToTx },
+        }
+    ];
+
+    return (
+        <RenderedComponent
+            id="mint-to"
+            title="Mint Tokens 🪙"
+            buttonText="Mint"
+
+            method={mintTo}
+            validation={props.accAddr}
+            outputs={outputs}
+            status={sender.status}
+        >
+            <div className='mt-6'>
+                <h3 className='italic text-sm'>
+                    How many tokens should be minted to your token account?
+                </h3>
+                <input
+                    type='text'
+                    inputMode='decimal'
+                    placeholder='Amount'
+                    className='py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white'
+                    onChange={event => setAmount(event.target.value)}
+                    value={amount}
+                />
+            </div>
+        </RenderedComponent>
+    );
+};
+
+export default MintTo;
@@ -0,0 +1,416 @@
+import * as React from 'react';
+import * as web3 from '@solana/web3.js';
+import * as token from '@solana/spl-token';
+import { toast } from 'react-toastify';
+
+import { MultisigTransactionProps, OutputItem } from '../../interfaces/tokens';
+import {
+    describeTransaction,
+    exportPartialTransaction,
+    getSignatureStatus,
+    getTokenMultisig,
+    importPartialTransaction,
+    MultisigError,
+    parseKeypair,
+    TokenMultisig,
+    withMultisigSigners,
+} from '../../models/tokens/Multisig';
+import { TokenAmountError, parseTokenAmount } from '../../models/tokens/TokenAmount';
+import { getTokenAccount, getTokenMint } from '../../models/tokens/TokenProgram';
+import RenderedComponent from '../RenderedComponent';
+
+/*
+    Mints or transfers tokens on behalf of a multisig. One member assembles the
+    transaction, which fixes who pays the fee and which members sign. Members
+    add their signatures here with a keypair or their wallet, and pass the
+    exported transaction on to the next member. Once enough members signed, the
+    fee payer sends it.
+*/
+
+type MultisigAction = 'mintTo' | 'transfer';
+
+const inputClassName = 'py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white';
+const buttonClassName = 'bg-[#222524] border-2 border-gray-500 rounded-lg px-2 py-1 text-sm transition-all duration-200 hover:border-helius-orange disabled:opacity-50 disabled:cursor-not-allowed';
+
+const MultisigTransaction = (props: MultisigTransactionProps) => {
+    const [action, setAction] = React.useState<MultisigAction>('mintTo');
+    // empty for the multisig and token account created above
+    const [multisigInput, setMultisigInput] = React.useState('');
+    const [accountInput, setAccountInput] = React.useState('');
+    const [recipient, setRecipient] = React.useState('');
+    const [amount, setAmount] = React.useState('');
+    // the members who will sign, as base58 addresses
+    const [chosenSigners, setChosenSigners] = React.useState<string[]>([]);
+
+    const [multisig, setMultisig] = React.useState<TokenMultisig | undefined>(undefined);
+    const [transaction, setTransaction] = React.useState<web3.Transaction | undefined>(undefined);
+    // signing changes the transaction in place, so this counts the changes to re-render
+    const [, setSignatureCount] = React.useState(0);
+    const [secretKey, setSecretKey] = React.useState('');
+    const [imported, setImported] = React.useState('');
+
+    const multisigText = multisigInput.trim() || props.multisigAddr?.toBase58() || '';
+
+    React.useEffect(() => {
+        setMultisig(undefined);
+        if (!multisigText) { return; }
+
+        let cancelled = false;
+        let address: web3.PublicKey;
+        try {
+            address = new web3.PublicKey(multisigText);
+        } catch (err) {
+            return;
+        }
+        getTokenMultisig(props.connection, address, 'confirmed')
+            .then(found => {
+                if (cancelled) { return; }
+                setMultisig(found);
+                // as few members as needed, until others are picked
+                setChosenSigners(found.signers.slice(0, found.m).map(signer => signer.toBase58()));
+            })
+            .catch(err => console.log('error', err));
+        return () => { cancelled = true; };
+    }, [props.connection, multisigText]);
+
+    const status = transaction ? getSignatureStatus(transaction) : [];
+    const missing = status.filter(({ signed, publicKey }) => !signed && !publicKey.equals(props.publicKey ?? web3.PublicKey.default));
+    const feePayer = transaction?.feePayer;
+
+    // why the transaction can't be sent yet
+    const blocker = (() => {
+        if (!transaction) { return 'Assemble or import a transaction'; }
+        if (!props.publicKey || !feePayer?.equals(props.publicKey)) { return `Only the fee payer (${feePayer?.toBase58()}) can send it`; }
+        if (missing.length > 0) { return `Waiting for ${missing.length} more signature${missing.length > 1 ? 's' : ''}`; }
+        return null;
+    })();
+
+    const toggleSigner = (signer: string) => setChosenSigners(
+        chosenSigners.includes(signer) ? chosenSigners.filter(chosen => chosen !== signer) : [...chosenSigners, signer]
+    );
+
+    const assemble = async () => {
+        if (props.connectionErr()) { return; }
+
+        if (!multisig) {
+            toast.error('Choose a multisig');
+            return;
+        }
+        if (chosenSigners.length < multisig.m) {
+            toast.error(`At least ${multisig.m} members have to sign`);
+            return;
+        }
+
+        try {
+            const mint = await getTokenMint(props.connection, props.mintAddr!, 'confirmed');
+            const raw = parseTokenAmount(amount, mint.decimals);
+            const signers = chosenSigners.map(signer => new web3.PublicKey(signer));
+            const assembled = new web3.Transaction();
+
+            if (action === 'mintTo') {
+                if (!mint.mintAuthority?.equals(multisig.address)) {
+                    toast.error('The multisig is not the mint authority');
+                    return;
+                }
+                const destination = accountInput.trim() ? new web3.PublicKey(accountInput.trim()) : props.accAddr!;
+                assembled.add(withMultisigSigners(
+                    token.createMintToCheckedInstruction(props.mintAddr!, destination, multisig.address, raw, mint.decimals, [], mint.programId),
+                    signers
+                ));
+            } else {
+                const source = await getTokenAccount(props.connection, new web3.PublicKey(accountInput.trim()), 'confirmed');
+                if (!source.owner.equals(multisig.address)) {
+                    toast.error('The multisig does not own that token account');
+                    return;
+                }
+
+                // like the transfer card, the recipient is a token account or a wallet whose associated token account receives the tokens
+                const recipientKey = new web3.PublicKey(recipient.trim());
+                let destination = recipientKey;
+                const isTokenAccount = await getTokenAccount(props.connection, recipientKey)
+                    .then(() => true)
+                    .catch(() => false);
+                if (!isTokenAccount) {
+                    destination = await token.getAssociatedTokenAddress(props.mintAddr!, recipientKey, false, mint.programId);
+                    if (!await props.connection.getAccountInfo(destination)) {
+                        assembled.add(token.createAssociatedTokenAccountInstruction(props.publicKey!, destination, recipientKey, props.mintAddr!, mint.programId));
+                    }
+                }
+                assembled.add(withMultisigSigners(
+                    token.createTransferCheckedInstruction(source.address, props.mintAddr!, destination, multisig.address, raw, mint.decimals, [], mint.programId),
+                    signers
+                ));
+            }
+
+            // every signature covers the fee payer and blockhash, so they're fixed before anyone signs
+            assembled.feePayer = props.publicKey!;
+            assembled.recentBlockhash = (await props.connection.getLatestBlockhash('finalized')).blockhash;
+            setTransaction(assembled);
+        } catch (err) {
+            toast.error(err instanceof TokenAmountError ? err.message : 'Error assembling the transaction; check the addresses');
+            console.log('error', err);
+        }
+    };
+
+    const importTransaction = () => {
+        try {
+            setTransaction(importPartialTransaction(imported));
+            setImported('');
+        } catch (err) {
+            toast.error(err instanceof MultisigError ? err.message : 'Error importing the transaction');
+        }
+    };
+
+    const signWithKeypair = () => {
+        try {
+            const keypair = parseKeypair(secretKey);
+            if (!status.some(({ publicKey }) => publicKey.equals(keypair.publicKey))) {
+                toast.error('That key is not one of the signers of this transaction');
+                return;
+            }
+            transaction!.partialSign(keypair);
+            setSecretKey('');
+            setSignatureCount(count => count + 1);
+        } catch (err) {
+            toast.error(err instanceof MultisigError ? err.message : 'Error signing the transaction');
+        }
+    };
+
+    // for members who sign in their wallet but don't pay the fee
+    const signWithWallet = async () => {
+        try {
+            setTransaction(await props.signTransaction!(transaction!));
+            setSignatureCount(count => count + 1);
+        } catch (err) {
+            toast.error('Error signing the transaction');
+            console.log('error', err);
+        }
+    };
+
+    const copyExport = () => {
+        navigator.clipboard.writeText(exportPartialTransaction(transaction!))
+            .then(() => toast.info('Copied, pass it on to the next signer'))
+            .catch(err => console.log('error', err));
+    };
+
+    const send = async (event: { preventDefault: () => void }) => {
+        event.preventDefault();
+
+        if (props.connectionErr()) { return; }
+
+        if (blocker) {
+            toast.error(blocker);
+            return;
+        }
+
+        try {
+            // the wallet adds the fee payer's signature and keeps the members' signatures; the members
+            // signed this blockhash, so it's sent as is instead of through `useTransactionSender`
+            const signature = await props.sendTransaction(transaction!, props.connection);
+            props.setMultisigSendTx(signature);
+            setTransaction(undefined);
+            setAmount('');
+            await props.connection.confirmTransaction(signature, 'confirmed');
+            props.refreshBalances();
+        } catch (err) {
+            toast.error('Error sending the transaction; it may have expired, assemble it again');
+            console.log('error', err);
+        }
+    };
+
+    const walletMustSign = !!props.publicKey && !!feePayer && !feePayer.equals(props.publicKey)
+        && status.some(({ publicKey, signed }) => !signed && publicKey.equals(props.publicKey!));
+
+    const outputs: OutputItem[] = [
+        {
+            title: 'Multisig...',
+            dependency: multisig ? `${multisig.m} of ${multisig.signers.length}` : '',
+            link: { kind: 'address', target: multisig?.address },
+        },
+        {
+            title: 'Fee Payer...',
+            dependency: feePayer ?? '',
+            link: { kind: 'address', target: feePayer },
+        },
+        ...status.map(({ publicKey, signed }): OutputItem => ({
+            title: `${signed ? 'Signed' : 'Waiting for'} ${publicKey.toBase58().slice(0, 8)}...`,
+            dependency: publicKey,
+            link: { kind: 'address', target: publicKey },
+        })),
+        {
+            title: 'Transaction Signature...',
+            dependency: props.multisigSendTx,
+            link: { kind: 'tx', target: props.multisigSendTx },
+        }
+    ];
+
+    return (
+        <RenderedComponent
+            id="multisig-transaction"
+            title="Multisig Transaction 🔐"
+            buttonText="Send"
+
+            method={send}
+            validation={blocker ? undefined : props.mintAddr}
+            outputs={outputs}
+        >
+            {
+                !transaction &&
+                <>
+                    <div className='mt-6 flex gap-4 text-sm'>
+                        {([['mintTo', 'Mint tokens'], ['transfer', 'Transfer tokens']] as const).map(([value, label]) => (
+                            <label key={value} className='flex items-center'>
+                                <input
+                                    type='radio'
+                                    className='mr-2 accent-helius-orange'
+                                    onChange={() => setAction(value)}
+                                    checked={action === value}
+                                />
+                                {label}
+                            </label>
+                        ))}
+                    </div>
+                    <div className='mt-6'>
+                        <h3 className='italic text-sm'>
+                            Multisig (leave empty for the multisig created above)
+                        </h3>
+                        <input
+                            type='text'
+                            placeholder={props.multisigAddr?.toBase58() ?? 'Multisig address'}
+                            className={inputClassName}
+                            onChange={event => setMultisigInput(event.target.value)}
+                            value={multisigInput}
+                        />
+                    </div>
+                    <div className='mt-6'>
+                        <h3 className='italic text-sm'>
+                            {action === 'mintTo' ? 'Token account receiving the tokens (leave empty for the account created above)' : 'Token account owned by the multisig'}
+                        </h3>
+                        <input
+                            type='text'
+                            placeholder={action === 'mintTo' ? props.accAddr?.toBase58() ?? 'Token account address' : 'Token account address'}
+                            className={inputClassName}
+                            onChange={event => setAccountInput(event.target.value)}
+                            value={accountInput}
+                        />
+                    </div>
+                    {
+                        action === 'transfer' &&
+                        <div className='mt-6'>
+                            <h3 className='italic text-sm'>
+                                Who should receive the tokens? (a wallet or a token account)
+                            </h3>
+                            <input
+                                type='text'
+                                placeholder='Recipient address'
+                                className={inputClassName}
+                                onChange={event => setRecipient(event.target.value)}
+                                value={recipient}
+                            />
+                        </div>
+                    }
+                    <div className='mt-6'>
+                        <h3 className='italic text-sm'>
+                            How many tokens?
+                        </h3>
+                        <input
+                            type='text'
+                            inputMode='decimal'
+                            placeholder='Amount'
+                            className={inputClassName}
+                            onChange={event => setAmount(event.target.value)}
+                            value={amount}
+                        />
+                    </div>
+                    {
+                        multisig &&
+                        <div className='mt-6'>
+                            <h3 className='italic text-sm'>
+                                Members who sign (at least {multisig.m})
+                            </h3>
+                            {multisig.signers.map(signer => (
+                                <label key={signer.toBase58()} className='mt-2 flex items-center text-sm'>
+                                    <input
+                                        type='checkbox'
+                                        className='mr-2 accent-helius-orange'
+                                        onChange={() => toggleSigner(signer.toBase58())}
+                                        checked={chosenSigners.includes(signer.toBase58())}
+                                    />
+                                    {signer.toBase58()}
+                                </label>
+                            ))}
+                        </div>
+                    }
+                    <div className='mt-4 flex justify-end'>
+                        <button type='button' onClick={assemble} disabled={!props.mintAddr || !multisig} className={buttonClassName}>
+                            Assemble
+                        </button>
+                    </div>
+                    <div className='mt-6'>
+                        <h3 className='italic text-sm'>
+                            Or import a transaction another member passed on
+                        </h3>
+                        <textarea
+                            rows={2}
+                            placeholder='Exported transaction'
+                            className={inputClassName}
+                            onChange={event => setImported(event.target.value)}
+                            value={imported}
+                        />
+                    </div>
+                    <div className='mt-4 flex justify-end'>
+                        <button type='button' onClick={importTransaction} disabled={!imported.trim()} className={buttonClassName}>
+                            Import
+                        </button>
+                    </div>
+                </>
+            }
+            {
+                transaction &&
+                <>
+                    <ul className='mt-6 text-sm list-disc list-inside break-all'>
+                        {describeTransaction(transaction).map((line, index) => <li key={index}>{line}</li>)}
+                    </ul>
+                    <div className='mt-6'>
+                        <h3 className='italic text-sm'>
+                            Sign with a member&apos;s secret key (a keypair file&apos;s contents, or base58)
+                        </h3>
+                        <input
+                            type='password'
+                            placeholder='Secret key'
+                            className={inputClassName}
+                            onChange={event => setSecretKey(event.target.value)}
+                            value={secretKey}
+                        />
+                    </div>
+                    <div className='mt-4 flex justify-end gap-2'>
+                        <button type='button' onClick={signWithKeypair} disabled={!secretKey.trim()} className={buttonClassName}>
+                            Sign with Key
+                        </button>
+                        {
+                            walletMustSign && props.signTransaction &&
+                            <button type='button' onClick={signWithWallet} className={buttonClassName}>
+                                Sign with Wallet
+                            </button>
+                        }
+                        <button type='button' onClick={copyExport} className={buttonClassName}>
+                            Copy for Next Signer
+                        </button>
+                        <button type='button' onClick={() => setTransaction(undefined)} className={buttonClassName}>
+                            Discard
+                        </button>
+                    </div>
+                    <p className='mt-4 text-sm italic'>
+                        The transaction expires about a minute after it was assembled.
+                    </p>
+                </>
+            }
+            {
+                transaction && blocker &&
+                <p className='mt-4 text-sm text-red-400'>{blocker}</p>
+            }
+        </RenderedComponent>
+    );
+};
+
+export default MultisigTransaction;
@@ -0,0 +1,164 @@
+import * as React from 'react';
+import * as token from '@solana/spl-token';
+import * as web3 from '@solana/web3.js';
+import { toast } from 'react-toastify';
+
+import { useTransactionSender } from '../../hooks/useTransactionSender';
+import { TransferProps, OutputItem } from '../../interfaces/tokens';
+import { TokenAmountError, parseTokenAmount } from '../../models/tokens/TokenAmount';
+import { getTokenAccount, getTokenMint } from '../../models/tokens/TokenProgram';
+import RenderedComponent from '../RenderedComponent';
+
+const Transfer = (props: TransferProps) => {
+    const sender = useTransactionSender();
+    const [recipient, setRecipient] = React.useState('');
+    const [amount, setAmount] = React.useState('');
+
+    const transfer = async (event: { preventDefault: () => void }) => {
+        event.preventDefault();
+
+        if (props.connectionErr()) { return; }
+
+        let recipientKey: web3.PublicKey;
+        try {
+            recipientKey = new web3.PublicKey(recipient);
+        } catch (err) {
+            toast.error('Recipient is not a valid address');
+            return;
+        }
+
+        try {
+            const mint = await getTokenMint(props.connection, props.mintAddr!);
+            const raw = parseTokenAmount(amount, mint.decimals);
+
+            if (mint.extensions.some(extension => extension.type === 'NonTransferable')) {
+                toast.error('This token is non-transferable');
+                return;
+            }
+
+            // the token account may belong to someone else, e.g. an associated token account created for a recipient
+            const source = await getTokenAccount(props.connection, props.accAddr!);
+            if (!source.owner.equals(props.publicKey!)) {
+                toast.error('Only the owner of the token account can transfer its tokens');
+                return;
+            }
+
+            const transaction = new web3.Transaction();
+
+            // the recipient can be a token account of this mint, or a wallet whose associated token account receives the tokens
+            let destination = recipientKey;
+            // no account, or one the token programs don't own, means a wallet; other errors, e.g. from the RPC, are reported
+            const recipientAccount = await getTokenAccount(props.connection, recipientKey)
+                .catch(err => {
+                    if (err instanceof token.TokenAccountNotFoundError || err instanceof token.TokenInvalidAccountOwnerError) {
+                        return null;
+                    }
+                    throw err;
+                });
+
+            // a token account of another mint would only fail later, in simulation
+            if (recipientAccount && !recipientAccount.mint.equals(props.mintAddr!)) {
+                toast.error(`The recipient is a token account of another mint (${recipientAccount.mint.toBase58()})`);
+                return;
+            }
+
+            if (!recipientAccount) {
+                // owners off the ed25519 curve (PDAs) are allowed, so programs can receive tokens too
+                destination = await token.getAssociatedTokenAddress(props.mintAddr!, recipientKey, true, mint.programId);
+                // the sender pays for the recipient's associated token account if it doesn't exist yet
+                if (!await props.connection.getAccountInfo(destination)) {
+                    transaction.add(
+                        token.createAssociatedTokenAccountInstruction(
+                            props.publicKey!, // payer
+                            destination, // associated token account
+                            recipientKey, // owner of the new account
+                            props.mintAddr!, // token mint address
+                            mint.programId // the program that owns the mint
+                        )
+                    );
+                }
+            }
+
+            transaction.add(
+                // moves tokens between two token accounts of the same mint; a transfer fee is withheld from the received amount
+                token.createTransferCheckedInstruction(
+                    props.accAddr!, // source token account
+                    props.mintAddr!, // token mint address
+                    destination, // destination token account
+                    props.publicKey!, // owner of the source account
+                    raw, // amount in the smallest unit
+                    mint.decimals,
+                    [],
+                    mint.programId // the program that owns the mint
+                )
+            );
+
+            const signature = await sender.send(transaction);
+            props.setTransferTx(signature);
+            setAmount('');
+            props.refreshBalances();
+        } catch (err) {
+            toast.error(err instanceof TokenAmountError ? err.message : 'Error transferring tokens');
+            console.log('error', err);
+        }
+    };
+
+    const outputs: OutputItem[] = [
+        {
+            title: 'Token Supply...',
+            dependency: props.supply?.uiAmountString ?? '',
+            link: { kind: 'token', target: props.mintAddr },
+        },
+        {
+            title: 'Account Balance...',
+            dependency: props.balance?.uiAmountString ?? '',
+            link: { kind: 'address', target: props.accAddr },
+        },
+        {
+            title: 'Transaction Signature...',
+            dependency: props.transferTx,
+            link: { kind: 'tx', target: props.transferTx },
+        }
+    ];
+
+    return (
+        <RenderedComponent
+            id="transfer"
+            title="Transfer Tokens 💸"
+            buttonText="Transfer"
+
+            method={transfer}
+            validation={props.accAddr}
+            outputs={outputs}
+            status={sender.status}
+        >
+            <div className='mt-6'>
+                <h3 className='italic text-sm'>
+                    Who should receive the tokens? (a wallet or a token account)
+                </h3>
+                <input
+                    type='text'
+                    placeholder='Recipient address'
+                    className='py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white'
+                    onChange={event => setRecipient(event.target.value)}
+                    value={recipient}
+                />
+            </div>
+            <div className='mt-6'>
+                <h3 className='italic text-sm'>
+                    How many tokens should be sent?
+                </h3>
+                <input
+                    type='text'
+                    inputMode='decimal'
+                    placeholder='Amount'
+                    className='py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white'
+                    onChange={event => setAmount(event.target.value)}
+                    value={amount}
+                />
+            </div>
+        </RenderedComponent>
+    );
+};
+
+export default Transfer;
@@ -0,0 +1,42 @@
+import * as React from 'react';
+
+import { Cluster, DEFAULT_CLUSTER, deserializeCluster, serializeCluster } from '../models/cluster/Cluster';
+
+// the browser storage key the selected cluster is kept under
+const STORAGE_KEY = 'cluster';
+
+export interface ClusterContextState {
+    cluster: Cluster;
+    setCluster: (cluster: Cluster) => void;
+};
+
+// devnet outside the provider, like before clusters could be switched
+export const ClusterContext = React.createContext<ClusterContextState>({
+    cluster: DEFAULT_CLUSTER,
+    setCluster: () => {},
+});
+
+// keeps the selected cluster, across reloads; restoring waits for the first effect, since the storage doesn't exist on the server
+const ClusterContextProvider = ({ children }: { children: React.ReactNode }) => {
+    const [cluster, setCluster] = React.useState<Cluster>(DEFAULT_CLUSTER);
+    const [restored, setRestored] = React.useState(false);
+
+    React.useEffect(() => {
+        setCluster(deserializeCluster(window.localStorage.getItem(STORAGE_KEY)));
+        setRestored(true);
+    }, []);
+
+    React.useEffect(() => {
+        if (restored) { window.localStorage.setItem(STORAGE_KEY, serializeCluster(cluster)); }
+    }, [restored, cluster]);
+
+    const value = React.useMemo(() => ({ cluster, setCluster }), [cluster]);
+
+    return (
+        <ClusterContext.Provider value={value}>
+            {children}
+        </ClusterContext.Provider>
+    );
+};
+
+export default ClusterContextProvider;
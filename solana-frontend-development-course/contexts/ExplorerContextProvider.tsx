@@ -0,0 +1,42 @@
+import * as React from 'react';
+
+import { DEFAULT_EXPLORER, deserializeExplorer, Explorer, serializeExplorer } from '../models/cluster/Explorer';
+
+// the browser storage key the preferred explorer is kept under
+const STORAGE_KEY = 'explorer';
+
+export interface ExplorerContextState {
+    explorer: Explorer;
+    setExplorer: (explorer: Explorer) => void;
+};
+
+// Solana Explorer outside the provider
+export const ExplorerContext = React.createContext<ExplorerContextState>({
+    explorer: DEFAULT_EXPLORER,
+    setExplorer: () => {},
+});
+
+// keeps the preferred explorer, across reloads; restoring waits for the first effect, since the storage doesn't exist on the server
+const ExplorerContextProvider = ({ children }: { children: React.ReactNode }) => {
+    const [explorer, setExplorer] = React.useState<Explorer>(DEFAULT_EXPLORER);
+    const [restored, setRestored] = React.useState(false);
+
+    React.useEffect(() => {
+        setExplorer(deserializeExplorer(window.localStorage.getItem(STORAGE_KEY)));
+        setRestored(true);
+    }, []);
+
+    React.useEffect(() => {
+        if (restored) { window.localStorage.setItem(STORAGE_KEY, serializeExplorer(explorer)); }
+    }, [restored, explorer]);
+
+    const value = React.useMemo(() => ({ explorer, setExplorer }), [explorer]);
+
+    return (
+        <ExplorerContext.Provider value={value}>
+            {children}
+        </ExplorerContext.Provider>
+    );
+};
+
+export default ExplorerContextProvider;
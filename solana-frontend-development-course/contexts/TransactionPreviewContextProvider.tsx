@@ -0,0 +1,43 @@
+import * as React from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+
+import TransactionPreviewModal from '../components/TransactionPreviewModal';
+import { TransactionPreview } from '../models/transactions/TransactionPreview';
+
+// shows a preview and resolves whether the transaction was approved; `null` outside the provider
+export const TransactionPreviewContext = React.createContext<((preview: TransactionPreview) => Promise<boolean>) | null>(null);
+
+// asks before every transaction sent with `useTransactionSender`, one review at a time
+const TransactionPreviewContextProvider = ({ children }: { children: React.ReactNode }) => {
+    const { publicKey } = useWallet();
+    const [preview, setPreview] = React.useState<TransactionPreview | null>(null);
+    // settles the review on screen; kept outside the state so replacing a review doesn't resolve it from an updater
+    const resolvePending = React.useRef<((approved: boolean) => void) | null>(null);
+
+    const review = React.useCallback((next: TransactionPreview) => new Promise<boolean>(resolve => {
+        // a review that's replaced counts as cancelled
+        resolvePending.current?.(false);
+        resolvePending.current = resolve;
+        setPreview(next);
+    }), []);
+
+    const close = (approved: boolean) => {
+        resolvePending.current?.(approved);
+        resolvePending.current = null;
+        setPreview(null);
+    };
+
+    return (
+        <TransactionPreviewContext.Provider value={review}>
+            {children}
+            <TransactionPreviewModal
+                preview={preview}
+                publicKey={publicKey}
+                onApprove={() => close(true)}
+                onCancel={() => close(false)}
+            />
+        </TransactionPreviewContext.Provider>
+    );
+};
+
+export default TransactionPreviewContextProvider;
@@ -1,29 +1,59 @@
-import { ConnectionProvider, WalletProvider } from '@solana/wallet-adapter-react';
+import React from 'react';
+import { ConnectionContext, ConnectionProvider, WalletProvider } from '@solana/wallet-adapter-react';
 import { WalletModalProvider } from "@solana/wallet-adapter-react-ui"
 import * as walletAdapterWallets from '@solana/wallet-adapter-wallets'
 import * as web3 from '@solana/web3.js';
+import { MockConnection } from '../mock/MockConnection';
+import { MockWalletAdapter } from '../mock/MockWalletAdapter';
+import { useCluster } from '../hooks/useCluster';
 require('@solana/wallet-adapter-react-ui/styles.css');
 
+// set NEXT_PUBLIC_MOCK_CONNECTION=true to run every page against an in-memory cluster, without any network
+const useMockConnection = process.env.NEXT_PUBLIC_MOCK_CONNECTION === 'true';
+
+// lamports the mock wallet starts with, so it can pay for transactions right away
+const MOCK_WALLET_BALANCE = 100 * web3.LAMPORTS_PER_SOL;
+
 const WalletContextProvider = ({ children }) => {
 
-    // Use a more reliable devnet endpoint - try multiple options
-    const endpoint = process.env.NEXT_PUBLIC_RPC_ENDPOINT ||
-        'https://api.devnet.solana.com' ||
-        web3.clusterApiUrl('devnet');
+    // the cluster selected in the navbar; changing it connects to its endpoint
+    const { cluster } = useCluster();
+    const endpoint = cluster.endpoint;
+
+    // the mock cluster and its wallet are created once, so the ledger survives re-renders
+    const mock = React.useMemo(() => {
+        if (!useMockConnection) {
+            return null;
+        }
+        const connection = new MockConnection();
+        const keypair = web3.Keypair.generate();
+        connection.ledger.credit(keypair.publicKey, MOCK_WALLET_BALANCE);
+        return { connection, wallet: new MockWalletAdapter(keypair) };
+    }, []);
 
-    const wallets = [
+    // created once; the provider re-renders on every cluster switch, and new adapters would reset the wallet
+    const wallets = React.useMemo(() => mock ? [mock.wallet] : [
         new walletAdapterWallets.PhantomWalletAdapter()
-    ];
+    ], [mock]);
+
+    const walletTree = (
+        <WalletProvider wallets={wallets}>
+            <WalletModalProvider>
+                {children}
+            </WalletModalProvider>
+        </WalletProvider>
+    );
 
-    return (
+    // `ConnectionProvider` only takes an endpoint, so the mock connection is handed to the context directly
+    return mock ? (
+        <ConnectionContext.Provider value={{ connection: mock.connection }}>
+            {walletTree}
+        </ConnectionContext.Provider>
+    ) : (
         <ConnectionProvider endpoint={endpoint}>
-            <WalletProvider wallets={wallets}>
-                <WalletModalProvider>
-                    {children}
-                </WalletModalProvider>
-            </WalletProvider>
+            {walletTree}
         </ConnectionProvider>
     );
 };
 
-export default WalletContextProvider;
\ No newline at end of file
+export default WalletContextProvider;
@@ -0,0 +1,9 @@
+import * as React from 'react';
+
+import { ClusterContext, ClusterContextState } from '../contexts/ClusterContextProvider';
+
+/*
+    The cluster selected in the navbar. Links to it go through `useExplorer`.
+*/
+
+export const useCluster = (): ClusterContextState => React.useContext(ClusterContext);
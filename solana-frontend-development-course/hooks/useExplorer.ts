@@ -0,0 +1,40 @@
+import * as React from 'react';
+
+import { ExplorerContext } from '../contexts/ExplorerContextProvider';
+import { useCluster } from './useCluster';
+import { Explorer, explorerHref, ExplorerLink } from '../models/cluster/Explorer';
+
+/*
+    Links to the preferred explorer, on the cluster selected in the navbar. Every
+    explorer link in the pages goes through here.
+*/
+
+type Target = ExplorerLink['target'];
+
+export interface ExplorerLinks {
+    explorer: Explorer;
+    setExplorer: (explorer: Explorer) => void;
+    href: (link: ExplorerLink) => string;
+    tx: (signature: Target) => string;
+    address: (address: Target) => string;
+    block: (slot: Target) => string;
+    token: (mint: Target) => string;
+};
+
+export const useExplorer = (): ExplorerLinks => {
+    const { explorer, setExplorer } = React.useContext(ExplorerContext);
+    const { cluster } = useCluster();
+
+    return React.useMemo(() => {
+        const href = (link: ExplorerLink) => explorerHref(explorer, cluster, link);
+        return {
+            explorer,
+            setExplorer,
+            href,
+            tx: (signature: Target) => href({ kind: 'tx', target: signature }),
+            address: (address: Target) => href({ kind: 'address', target: address }),
+            block: (slot: Target) => href({ kind: 'block', target: slot }),
+            token: (mint: Target) => href({ kind: 'token', target: mint }),
+        };
+    }, [explorer, setExplorer, cluster]);
+};
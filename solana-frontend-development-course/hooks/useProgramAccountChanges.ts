@@ -0,0 +1,85 @@
+import * as React from 'react';
+import * as web3 from '@solana/web3.js';
+import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+
+/*
+    Watches every account owned by a program through `connection.onProgramAccountChange`
+    and sorts each change into one of two buckets:
+
+    - changes to an account on the visible page are decoded with the page's own
+      deserializer and returned in `updated`, keyed by the account's address, so the
+      page can show the new data in place
+
+    - changes to accounts the page doesn't know about yet are counted in `newCount`,
+      so the page can offer to reload, once they're decoded and match the page's
+      search
+
+    The subscription is removed and the state cleared whenever the connection (cluster)
+    or the connected wallet changes.
+*/
+
+interface ProgramAccountChangesOptions<T> {
+    programId: string;
+    deserialize: (buffer?: Buffer) => T | null;
+    // the accounts currently shown on the page
+    visible: web3.PublicKey[];
+    // whether an account off the visible page was already listed, so its changes aren't counted as new
+    isKnown?: (pubkey: web3.PublicKey) => boolean;
+    // whether a decoded account belongs in the page's list, e.g. matches its search; accounts that don't aren't counted as new
+    matches?: (value: T) => boolean;
+};
+
+export const useProgramAccountChanges = <T>({ programId, deserialize, visible, isKnown, matches }: ProgramAccountChangesOptions<T>) => {
+    const { connection } = useConnection();
+    const { publicKey } = useWallet();
+
+    const [updated, setUpdated] = React.useState<{ [pubkey: string]: T }>({});
+    const [created, setCreated] = React.useState<string[]>([]);
+
+    // the listener is registered once per subscription, so it reads the latest props through refs
+    const visibleRef = React.useRef<Set<string>>(new Set());
+    visibleRef.current = new Set(visible.map(pubkey => pubkey.toBase58()));
+    const deserializeRef = React.useRef(deserialize);
+    deserializeRef.current = deserialize;
+    const isKnownRef = React.useRef(isKnown);
+    isKnownRef.current = isKnown;
+    const matchesRef = React.useRef(matches);
+    matchesRef.current = matches;
+
+    React.useEffect(() => {
+        setUpdated({});
+        setCreated([]);
+
+        const subscriptionId = connection.onProgramAccountChange(
+            new web3.PublicKey(programId),
+            ({ accountId, accountInfo }) => {
+                const value = deserializeRef.current(accountInfo.data);
+                // closed accounts and data that isn't ours can't be shown
+                if (!value) {
+                    return;
+                }
+
+                const key = accountId.toBase58();
+                if (visibleRef.current.has(key)) {
+                    setUpdated(updated => ({ ...updated, [key]: value }));
+                } else if (!isKnownRef.current?.(accountId) && (matchesRef.current?.(value) ?? true)) {
+                    setCreated(created => created.includes(key) ? created : [...created, key]);
+                }
+            },
+            'confirmed'
+        );
+
+        return () => {
+            connection.removeProgramAccountChangeListener(subscriptionId)
+                .catch(error => console.log('Error removing listener:', error));
+        };
+    }, [connection, publicKey, programId]);
+
+    // forget the collected changes, e.g. after reloading the list
+    const reset = React.useCallback(() => {
+        setUpdated({});
+        setCreated([]);
+    }, []);
+
+    return { updated, newCount: created.length, reset };
+};
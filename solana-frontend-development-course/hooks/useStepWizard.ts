@@ -0,0 +1,59 @@
+import * as React from 'react';
+
+import {
+    applyOutputs,
+    deserializeOutputs,
+    getStepStates,
+    OutputSchema,
+    serializeOutputs,
+    StepDefinition,
+    StepState,
+    WizardOutputs,
+} from '../models/wizard/StepWizard';
+
+/*
+    Keeps the outputs of a step wizard, and the state of each step that follows from them.
+
+    With a storage key the outputs are saved to the browser's storage whenever they
+    change and restored when the page loads, so a half finished setup survives a
+    reload. Restoring waits for the first effect, since the storage doesn't exist
+    while the page is rendered on the server.
+*/
+
+export interface StepWizard<Names extends string> {
+    outputs: WizardOutputs<Names>;
+    states: StepState[];
+    // records what a step produced; `undefined` clears an output
+    produce: (values: WizardOutputs<Names>) => void;
+    // forgets every output and starts from the first step
+    reset: () => void;
+};
+
+export const useStepWizard = <Names extends string>(
+    // declared once, outside the page's component
+    steps: StepDefinition<Names>[],
+    schema: OutputSchema<Names>,
+    storageKey: string | null,
+): StepWizard<Names> => {
+    const [outputs, setOutputs] = React.useState<WizardOutputs<Names>>({});
+    // the key the outputs were restored from; nothing is saved before they are
+    const [restoredKey, setRestoredKey] = React.useState<string | null>(null);
+
+    React.useEffect(() => {
+        setOutputs(storageKey ? deserializeOutputs(schema, window.localStorage.getItem(storageKey)) : {});
+        setRestoredKey(storageKey);
+    }, [storageKey]); // the schema is fixed for a page
+
+    React.useEffect(() => {
+        if (!storageKey || restoredKey !== storageKey) { return; }
+        window.localStorage.setItem(storageKey, serializeOutputs(schema, outputs));
+    }, [storageKey, restoredKey, outputs]);
+
+    const produce = React.useCallback((values: WizardOutputs<Names>) => {
+        setOutputs(current => applyOutputs(steps, current, values));
+    }, [steps]);
+
+    const reset = React.useCallback(() => setOutputs({}), []);
+
+    return { outputs, states: getStepStates(steps, outputs), produce, reset };
+};
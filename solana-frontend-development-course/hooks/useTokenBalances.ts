@@ -0,0 +1,56 @@
+import * as React from 'react';
+import * as web3 from '@solana/web3.js';
+import { useConnection } from '@solana/wallet-adapter-react';
+
+/*
+    Keeps the supply of a mint and the balance of one of its token accounts up to date.
+
+    Both are fetched when the mint or the account changes, and again whenever
+    `onAccountChange` reports a write to either of them, so minting, transferring
+    and burning show up without reloading. `refresh` fetches them right away,
+    e.g. after a confirmed transaction, in case the websocket is slow or down.
+*/
+
+export interface TokenBalances {
+    supply: web3.TokenAmount | undefined;
+    balance: web3.TokenAmount | undefined;
+    refresh: () => void;
+};
+
+export const useTokenBalances = (mint: web3.PublicKey | undefined, account: web3.PublicKey | undefined): TokenBalances => {
+    const { connection } = useConnection();
+
+    const [supply, setSupply] = React.useState<web3.TokenAmount | undefined>(undefined);
+    const [balance, setBalance] = React.useState<web3.TokenAmount | undefined>(undefined);
+
+    const refresh = React.useCallback(() => {
+        if (mint) {
+            connection.getTokenSupply(mint, 'confirmed')
+                .then(({ value }) => setSupply(value))
+                .catch(error => console.log('Error fetching supply:', error));
+        }
+        if (account) {
+            connection.getTokenAccountBalance(account, 'confirmed')
+                .then(({ value }) => setBalance(value))
+                .catch(error => console.log('Error fetching balance:', error));
+        }
+    }, [connection, mint, account]);
+
+    React.useEffect(() => {
+        setSupply(undefined);
+        setBalance(undefined);
+        refresh();
+
+        const watched = [mint, account].filter((pubkey): pubkey is web3.PublicKey => pubkey !== undefined);
+        const subscriptionIds = watched.map(pubkey => connection.onAccountChange(pubkey, refresh, 'confirmed'));
+
+        return () => {
+            subscriptionIds.forEach(subscriptionId => {
+                connection.removeAccountChangeListener(subscriptionId)
+                    .catch(error => console.log('Error removing listener:', error));
+            });
+        };
+    }, [connection, mint, account, refresh]);
+
+    return { supply, balance, refresh };
+};
@@ -0,0 +1,150 @@
+import * as React from 'react';
+import * as web3 from '@solana/web3.js';
+import { useConnection } from '@solana/wallet-adapter-react';
+
+import { getTokenMetadataOfMints, TokenMetadata } from '../models/tokens/TokenMetadata';
+import { getTokenMints, TOKEN_PROGRAMS } from '../models/tokens/TokenProgram';
+
+/*
+    Lists every token account a wallet owns, of both token programs.
+
+    The accounts come from `getParsedTokenAccountsByOwner`, which has the RPC decode
+    them and work out the UI amounts, once per program. The mints of all accounts
+    are then fetched together, to look up the name and symbol of each token.
+
+    Any write to a token account owned by the wallet reloads the list. Token accounts
+    keep their owner at bytes 32 to 64 in both programs, so one `memcmp` filter per
+    program finds them. Closed accounts no longer match the filter, but their rent is
+    refunded to the wallet, so changes to the wallet itself reload the list as well.
+*/
+
+export interface PortfolioAccount {
+    address: web3.PublicKey;
+    mint: web3.PublicKey;
+    programId: web3.PublicKey;
+    amount: web3.TokenAmount;
+    delegate: web3.PublicKey | null;
+    delegatedAmount: web3.TokenAmount | null;
+    isFrozen: boolean;
+    // `null` when the mint has no metadata
+    metadata: TokenMetadata | null;
+};
+
+export interface TokenPortfolio {
+    accounts: PortfolioAccount[];
+    loading: boolean;
+    refresh: () => void;
+};
+
+// how the RPC's parser describes a token account
+interface ParsedTokenAccount {
+    mint: string;
+    owner: string;
+    state: 'initialized' | 'frozen' | 'uninitialized';
+    tokenAmount: web3.TokenAmount;
+    // only present while a delegate is approved
+    delegate?: string;
+    delegatedAmount?: web3.TokenAmount;
+};
+
+// a transaction notifies once per account it writes, so notifications this close together reload once
+const RELOAD_DELAY_MS = 500;
+const OWNER_OFFSET = 32;
+
+const loadPortfolio = async (connection: web3.Connection, owner: web3.PublicKey): Promise<PortfolioAccount[]> => {
+    const responses = await Promise.all(
+        TOKEN_PROGRAMS.map(({ programId }) => connection.getParsedTokenAccountsByOwner(owner, { programId }, 'confirmed'))
+    );
+
+    const accounts = responses.reduce((accum, { value }) => {
+        value.forEach(({ pubkey, account }) => {
+            const info: ParsedTokenAccount = account.data.parsed.info;
+            accum.push({
+                address: pubkey,
+                mint: new web3.PublicKey(info.mint),
+                programId: account.owner,
+                amount: info.tokenAmount,
+                delegate: info.delegate ? new web3.PublicKey(info.delegate) : null,
+                delegatedAmount: info.delegatedAmount ?? null,
+                isFrozen: info.state === 'frozen',
+                metadata: null,
+            });
+        });
+        return accum;
+    }, [] as PortfolioAccount[]);
+
+    // every mint is fetched once, however many accounts the wallet has for it
+    const mintAddresses = Array.from(new Set(accounts.map(({ mint }) => mint.toBase58())))
+        .map(address => new web3.PublicKey(address));
+    const mints = await getTokenMints(connection, mintAddresses);
+    const found = mints.filter(<T>(mint: T | null): mint is T => mint !== null);
+    const metadata = await getTokenMetadataOfMints(connection, found);
+
+    const metadataByMint = new Map<string, TokenMetadata | null>();
+    found.forEach((mint, index) => metadataByMint.set(mint.address.toBase58(), metadata[index]));
+
+    return accounts
+        .map(account => ({ ...account, metadata: metadataByMint.get(account.mint.toBase58()) ?? null }))
+        // named tokens first, then by mint, so the order stays put as balances change
+        .sort((a, b) => {
+            const aName = a.metadata?.name, bName = b.metadata?.name;
+            if (aName && bName) { return aName.localeCompare(bName); }
+            if (aName || bName) { return aName ? -1 : 1; }
+            return a.mint.toBase58().localeCompare(b.mint.toBase58());
+        });
+};
+
+export const useTokenPortfolio = (owner: web3.PublicKey | null): TokenPortfolio => {
+    const { connection } = useConnection();
+
+    const [accounts, setAccounts] = React.useState<PortfolioAccount[]>([]);
+    const [loading, setLoading] = React.useState(false);
+    // only the latest load may set the accounts, so a slow response can't overwrite a newer one
+    const latestLoad = React.useRef(0);
+
+    const refresh = React.useCallback(() => {
+        if (!owner) {
+            // a load still running for the previous wallet must not fill the list again
+            latestLoad.current++;
+            setAccounts([]);
+            setLoading(false);
+            return;
+        }
+
+        const load = ++latestLoad.current;
+        setLoading(true);
+        loadPortfolio(connection, owner)
+            .then(loaded => { if (load === latestLoad.current) { setAccounts(loaded); } })
+            .catch(error => console.log('Error loading token accounts:', error))
+            .finally(() => { if (load === latestLoad.current) { setLoading(false); } });
+    }, [connection, owner]);
+
+    React.useEffect(() => {
+        refresh();
+        if (!owner) { return; }
+
+        let timeout: ReturnType<typeof setTimeout> | undefined;
+        const scheduleRefresh = () => {
+            clearTimeout(timeout);
+            timeout = setTimeout(refresh, RELOAD_DELAY_MS);
+        };
+
+        const filters = [{ memcmp: { offset: OWNER_OFFSET, bytes: owner.toBase58() } }];
+        const programSubscriptions = TOKEN_PROGRAMS.map(({ programId }) =>
+            connection.onProgramAccountChange(programId, scheduleRefresh, 'confirmed', filters)
+        );
+        const walletSubscription = connection.onAccountChange(owner, scheduleRefresh, 'confirmed');
+
+        return () => {
+            clearTimeout(timeout);
+            programSubscriptions.forEach(subscriptionId => {
+                connection.removeProgramAccountChangeListener(subscriptionId)
+                    .catch(error => console.log('Error removing listener:', error));
+            });
+            connection.removeAccountChangeListener(walletSubscription)
+                .catch(error => console.log('Error removing listener:', error));
+        };
+    }, [connection, owner, refresh]);
+
+    return { accounts, loading, refresh };
+};
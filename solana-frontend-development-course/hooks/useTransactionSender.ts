@@ -0,0 +1,107 @@
+import * as React from 'react';
+import * as web3 from '@solana/web3.js';
+import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+import { WalletNotConnectedError } from '@solana/wallet-adapter-base';
+
+import {
+    sendWithRetries,
+    TransactionSendError,
+    TransactionStatus,
+    waitForCommitment,
+} from '../models/transactions/TransactionSender';
+import { TransactionPreviewContext } from '../contexts/TransactionPreviewContextProvider';
+
+/*
+    Sends transactions with the connected wallet: simulated first, shown for review
+    when there's a `TransactionPreviewContextProvider` above, given a fresh
+    blockhash, and signed again if that blockhash expires before the transaction
+    lands. `send` resolves once the transaction is confirmed, then the status keeps
+    following it until it's finalized.
+
+    Transactions go out as v0 ones when the wallet can sign them, and as legacy
+    ones otherwise; `version` tells which, e.g. to hide lookup table inputs.
+
+    One sender tracks one transaction at a time; sending another stops following
+    the previous one.
+*/
+
+export interface SenderOptions {
+    // keypairs that sign next to the wallet, e.g. a new account
+    signers?: web3.Signer[];
+    // `send` resolves at this commitment, 'confirmed' by default
+    commitment?: web3.Commitment;
+    // tables the transaction looks its accounts up in; only v0 transactions can use them
+    lookupTables?: web3.AddressLookupTableAccount[];
+};
+
+export interface TransactionSender {
+    status: TransactionStatus;
+    // the version transactions are sent as with the connected wallet
+    version: web3.TransactionVersion;
+    // resolves with the signature once the transaction reached the commitment
+    send: (transaction: web3.Transaction, options?: SenderOptions) => Promise<string>;
+    // back to `idle`, e.g. when the form is cleared
+    reset: () => void;
+};
+
+const IDLE: TransactionStatus = { stage: 'idle' };
+
+export const useTransactionSender = (): TransactionSender => {
+    const { connection } = useConnection();
+    const { wallet, publicKey, sendTransaction } = useWallet();
+    const review = React.useContext(TransactionPreviewContext);
+
+    const version: web3.TransactionVersion = wallet?.adapter.supportedTransactionVersions?.has(0) ? 0 : 'legacy';
+
+    const [status, setStatus] = React.useState<TransactionStatus>(IDLE);
+    // the transaction being followed; statuses of earlier ones are dropped
+    const current = React.useRef(0);
+
+    React.useEffect(() => () => { current.current = -1; }, []);
+
+    const send = React.useCallback(async (transaction: web3.Transaction, options: SenderOptions = {}) => {
+        if (!publicKey) { throw new WalletNotConnectedError(); }
+
+        const id = ++current.current;
+        const isCancelled = () => current.current !== id;
+        const update = (next: TransactionStatus) => { if (!isCancelled()) { setStatus(next); } };
+
+        try {
+            const { signature, attempt, lastValidBlockHeight } = await sendWithRetries(connection, transaction, {
+                feePayer: publicKey,
+                send: prepared => sendTransaction(prepared, connection, { signers: options.signers }),
+                signers: options.signers,
+                version,
+                lookupTables: options.lookupTables,
+                commitment: options.commitment,
+                onStatus: update,
+                review: review ?? undefined,
+                isCancelled,
+            });
+
+            // keep following it until it's final, without holding up the caller
+            waitForCommitment(
+                connection, signature, lastValidBlockHeight, 'finalized',
+                confirmationStatus => update({ stage: 'sent', attempt, signature, confirmationStatus }),
+                isCancelled
+            ).catch(error => console.log('Error following transaction:', error));
+
+            return signature;
+        } catch (error) {
+            update({
+                stage: 'failed',
+                message: error instanceof Error ? error.message : String(error),
+                signature: error instanceof TransactionSendError ? error.signature : null,
+                logs: error instanceof TransactionSendError ? error.logs : [],
+            });
+            throw error;
+        }
+    }, [connection, publicKey, sendTransaction, version, review]);
+
+    const reset = React.useCallback(() => {
+        current.current++;
+        setStatus(IDLE);
+    }, []);
+
+    return { status, version, send, reset };
+};
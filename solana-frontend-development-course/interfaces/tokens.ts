@@ -1,23 +1,27 @@
 import * as React from "react";
 import * as web3 from "@solana/web3.js";
 import { SendTransactionOptions } from "@solana/wallet-adapter-base";
+import { ExplorerLink } from "../models/cluster/Explorer";
+import { MintSettings } from "../models/tokens/MintSettings";
+import { TokenProgram } from "../models/tokens/TokenProgram";
+import { TransactionStatus } from "../models/transactions/TransactionSender";
 
 export interface CreateMintProps {
     mintTx: string;
     mintAddr: web3.PublicKey | undefined;
+    // decimals and authorities the next mint is created with
+    mintSettings: MintSettings;
+    // the program the next mint is created with
+    tokenProgram: TokenProgram;
 
     connection: web3.Connection;
     publicKey: web3.PublicKey | null;
 
     setMintTx: (transaction: string) => void;
     setMintAddr: (address: web3.PublicKey) => void;
+    setMintSettings: (settings: MintSettings) => void;
 
     connectionErr: () => boolean | undefined;
-    sendTransaction: (
-        transaction: web3.Transaction,
-        connection: web3.Connection,
-        options?: SendTransactionOptions,
-    ) => Promise<string>;
 };
 
 export interface CreateAccountProps {
@@ -31,25 +35,159 @@ export interface CreateAccountProps {
     setAccTx: (transaction: string) => void;
     setAccAddr: (address: web3.PublicKey) => void;
 
+    connectionErr: () => boolean | undefined;
+};
+
+export interface CreateMetadataProps {
+    metadataTx: string;
+    mintAddr: web3.PublicKey | undefined;
+
+    connection: web3.Connection;
+    publicKey: web3.PublicKey | null;
+
+    setMetadataTx: (transaction: string) => void;
+
+    connectionErr: () => boolean | undefined;
+};
+
+export interface CreateMultisigProps {
+    multisigTx: string;
+    multisigAddr: web3.PublicKey | undefined;
+    // the multisig can only be the authority of mints of the same program
+    tokenProgram: TokenProgram;
+    mintSettings: MintSettings;
+
+    connection: web3.Connection;
+    publicKey: web3.PublicKey | null;
+
+    setMultisigTx: (transaction: string) => void;
+    setMultisigAddr: (address: web3.PublicKey) => void;
+    setMintSettings: (settings: MintSettings) => void;
+
+    connectionErr: () => boolean | undefined;
+};
+
+export interface MultisigTransactionProps {
+    multisigSendTx: string;
+    mintAddr: web3.PublicKey | undefined;
+    accAddr: web3.PublicKey | undefined;
+    multisigAddr: web3.PublicKey | undefined;
+
+    refreshBalances: () => void;
+
+    connection: web3.Connection;
+    publicKey: web3.PublicKey | null;
+
+    setMultisigSendTx: (transaction: string) => void;
+
     connectionErr: () => boolean | undefined;
     sendTransaction: (
         transaction: web3.Transaction,
         connection: web3.Connection,
         options?: SendTransactionOptions,
     ) => Promise<string>;
+    // signs without sending, for members who aren't the fee payer; not every wallet offers it
+    signTransaction: ((transaction: web3.Transaction) => Promise<web3.Transaction>) | undefined;
+};
+
+export interface MintToProps {
+    mintToTx: string;
+    mintAddr: web3.PublicKey | undefined;
+    accAddr: web3.PublicKey | undefined;
+
+    // live supply of the mint and balance of the token account
+    supply: web3.TokenAmount | undefined;
+    balance: web3.TokenAmount | undefined;
+    refreshBalances: () => void;
+
+    connection: web3.Connection;
+    publicKey: web3.PublicKey | null;
+
+    setMintToTx: (transaction: string) => void;
+
+    connectionErr: () => boolean | undefined;
+};
+
+export interface TransferProps {
+    transferTx: string;
+    mintAddr: web3.PublicKey | undefined;
+    accAddr: web3.PublicKey | undefined;
+
+    supply: web3.TokenAmount | undefined;
+    balance: web3.TokenAmount | undefined;
+    refreshBalances: () => void;
+
+    connection: web3.Connection;
+    publicKey: web3.PublicKey | null;
+
+    setTransferTx: (transaction: string) => void;
+
+    connectionErr: () => boolean | undefined;
 };
 
-interface OutputItem {
+export interface BurnProps {
+    burnTx: string;
+    mintAddr: web3.PublicKey | undefined;
+    accAddr: web3.PublicKey | undefined;
+
+    supply: web3.TokenAmount | undefined;
+    balance: web3.TokenAmount | undefined;
+    refreshBalances: () => void;
+
+    connection: web3.Connection;
+    publicKey: web3.PublicKey | null;
+
+    setBurnTx: (transaction: string) => void;
+
+    connectionErr: () => boolean | undefined;
+};
+
+export interface ManageAuthoritiesProps {
+    authorityTx: string;
+    mintAddr: web3.PublicKey | undefined;
+    // the token account the account actions start on; another one can be entered
+    accAddr: web3.PublicKey | undefined;
+
+    refreshBalances: () => void;
+
+    connection: web3.Connection;
+    publicKey: web3.PublicKey | null;
+
+    setAuthorityTx: (transaction: string) => void;
+    // called when the page's own token account is closed
+    forgetAccount: () => void;
+
+    connectionErr: () => boolean | undefined;
+};
+
+export interface AirdropProps {
+    // the mint to start with, e.g. from the page's query
+    mintAddr: web3.PublicKey | undefined;
+
+    connection: web3.Connection;
+    publicKey: web3.PublicKey | null;
+
+    connectionErr: () => boolean | undefined;
+};
+
+export interface OutputItem {
     title: string;
     dependency: web3.PublicKey | string;
-    href: string;
+    // opened in the preferred explorer; a plain URL only for what isn't on-chain, like a metadata file
+    link: ExplorerLink | string;
 }
 
 export interface RenderedComponentProps {
     title: string;
     buttonText: string;
+    // lets other pages link straight to the card
+    id?: string;
 
     method: (event: React.FormEvent<HTMLFormElement>) => void;
     validation: web3.PublicKey | undefined | null;
     outputs: OutputItem[];
-}
\ No newline at end of file
+    // form fields shown between the title and the outputs
+    children?: React.ReactNode;
+    // where the card's last transaction is, if it sends them with `useTransactionSender`
+    status?: TransactionStatus;
+}
@@ -0,0 +1,23 @@
+import * as web3 from "@solana/web3.js";
+import { TransactionPreview } from "../models/transactions/TransactionPreview";
+import { TransactionStatus } from "../models/transactions/TransactionSender";
+
+export interface TransactionProgressProps {
+    status: TransactionStatus;
+}
+
+export interface TransactionPreviewModalProps {
+    // the transaction under review, `null` while none is
+    preview: TransactionPreview | null;
+    // the connected wallet, marked in the balance changes
+    publicKey: web3.PublicKey | null;
+    onApprove: () => void;
+    onCancel: () => void;
+}
+
+export interface LookupTableManagerProps {
+    connection: web3.Connection;
+    publicKey: web3.PublicKey | null;
+
+    connectionErr: () => boolean | undefined;
+};
@@ -0,0 +1,11 @@
+import * as React from "react";
+import { StepDefinition, StepState } from "../models/wizard/StepWizard";
+
+export interface StepWizardProps<Names extends string> {
+    title: string;
+    steps: StepDefinition<Names>[];
+    states: StepState[];
+    // each step's card by the step's id, which the card should use as its `id` too
+    cards: { [id: string]: React.ReactNode };
+    reset: () => void;
+}
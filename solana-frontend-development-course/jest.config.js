@@ -0,0 +1,8 @@
+const nextJest = require('next/jest')
+
+// compiles the tests with the same SWC setup as the app
+const createJestConfig = nextJest({ dir: './' })
+
+module.exports = createJestConfig({
+  testEnvironment: 'node',
+})
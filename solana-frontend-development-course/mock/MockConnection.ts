@@ -0,0 +1,410 @@
+import bs58 from 'bs58'
+import nacl from 'tweetnacl'
+import * as web3 from '@solana/web3.js'
+import * as token from '@solana/spl-token'
+
+import { MockLedger, MockProgramError, rentExemptBalance } from './MockLedger'
+import { MockProgram } from './programs/MockProgram'
+import { formatTokenAmount } from '../models/tokens/TokenAmount'
+import { MockSystemProgram } from './programs/MockSystemProgram'
+import { MockTokenProgram } from './programs/MockTokenProgram'
+import { MockAssociatedTokenProgram } from './programs/MockAssociatedTokenProgram'
+import { MockStudentIntroProgram } from './programs/MockStudentIntroProgram'
+import { MockMovieReviewProgram } from './programs/MockMovieReviewProgram'
+
+/**
+ * `MockConnection` is a `web3.Connection` that never touches the network. Balances, accounts and
+ * signatures live in a `MockLedger`, and transactions are executed by `MockProgram`s registered
+ * for their program ids.
+ *
+ * 1.  Reading: `getAccountInfo`, `getMultipleAccountsInfo` and `getProgramAccounts` (with `memcmp`
+ *     and `dataSize` filters and `dataSlice`) read straight from the ledger. Token balances and
+ *     `getParsedTokenAccountsByOwner` decode token accounts the way the RPC's parser does.
+ *
+ * 2.  Sending: `sendRawTransaction` deserializes the transaction, legacy or v0, verifies its
+ *     signatures, charges the fee and runs every instruction. If any instruction throws, the whole transaction is rolled
+ *     back and a `SendTransactionError` is thrown, the way a failed preflight behaves on devnet.
+ *     `simulateTransaction` runs a transaction the same way without checking signatures, returns
+ *     the accounts it asks for as the transaction left them, and always rolls it back.
+ *
+ * 3.  Subscriptions: `onAccountChange` and `onProgramAccountChange` are called after every committed
+ *     transaction that wrote to a matching account.
+ *
+ * Only the methods the pages in this repo call are implemented; anything else still goes to the
+ * unreachable mock endpoint and fails. The system, SPL Token, associated token account, student
+ * intro and movie review programs are registered by default, and `register` plugs in others.
+ * Address lookup tables aren't part of the mock cluster, so v0 transactions that look accounts up
+ * in one fail the way an instruction for a missing program does.
+ */
+
+const MOCK_ENDPOINT = 'http://mock.localhost'
+
+// what every signature costs, like on devnet
+const LAMPORTS_PER_SIGNATURE = 5000
+
+// a blockhash is valid for this many slots after it was handed out
+const BLOCKHASH_VALIDITY = 150
+
+interface SignatureRecord {
+    slot: number;
+    err: web3.TransactionError | null;
+};
+
+const defaultPrograms = (): MockProgram[] => [
+    new MockSystemProgram(),
+    new MockTokenProgram(),
+    new MockAssociatedTokenProgram(),
+    new MockStudentIntroProgram(),
+    new MockMovieReviewProgram(),
+]
+
+// every slot gets its own blockhash, so the same transaction sent in a later slot gets a new signature
+const blockhashFor = (slot: number): string => {
+    const bytes = Buffer.alloc(32);
+    bytes.write('mock', 0);
+    bytes.writeUInt32LE(slot, 28);
+    return bs58.encode(bytes);
+};
+
+// whether account data passes every `getProgramAccounts` filter
+const matchesFilters = (data: Buffer, filters: web3.GetProgramAccountsFilter[] = []): boolean => {
+    return filters.every(filter => {
+        if ('dataSize' in filter) {
+            return data.length === filter.dataSize;
+        }
+        const bytes = Buffer.from(bs58.decode(filter.memcmp.bytes));
+        const offset = filter.memcmp.offset;
+        return offset + bytes.length <= data.length && data.slice(offset, offset + bytes.length).equals(bytes);
+    });
+};
+
+// a transaction the preflight check rejects, thrown the way `sendRawTransaction` throws it on devnet
+const preflightError = (transactionMessage: string, logs?: string[]): web3.SendTransactionError => {
+    return new web3.SendTransactionError({ action: 'simulate', signature: '', transactionMessage, logs });
+};
+
+export class MockConnection extends web3.Connection {
+    readonly ledger: MockLedger = new MockLedger()
+
+    private programs = new Map<string, MockProgram>()
+    private signatures = new Map<string, SignatureRecord>()
+
+    constructor(programs: MockProgram[] = defaultPrograms()) {
+        super(MOCK_ENDPOINT, 'confirmed')
+        programs.forEach(program => this.register(program))
+    };
+
+    /**
+     * `register` plugs a program into the mock cluster, replacing any program with the same id.
+     * @param program - The program to run for instructions addressed to `program.programId`.
+     */
+    register(program: MockProgram) {
+        this.programs.set(program.programId.toBase58(), program)
+    };
+
+    async getSlot(): Promise<number> {
+        return this.ledger.slot
+    };
+
+    // `Connection` declares it as a property, so it's overridden as one
+    getBlockHeight = async (): Promise<number> => this.ledger.slot
+
+    async getBalance(publicKey: web3.PublicKey): Promise<number> {
+        return this.ledger.getAccount(publicKey)?.lamports ?? 0
+    };
+
+    async getAccountInfo(publicKey: web3.PublicKey): Promise<web3.AccountInfo<Buffer> | null> {
+        return this.ledger.getAccount(publicKey)
+    };
+
+    async getMultipleAccountsInfo(publicKeys: web3.PublicKey[]): Promise<(web3.AccountInfo<Buffer> | null)[]> {
+        return publicKeys.map(publicKey => this.ledger.getAccount(publicKey))
+    };
+
+    getProgramAccounts(
+        programId: web3.PublicKey,
+        configOrCommitment: web3.GetProgramAccountsConfig & Readonly<{ withContext: true }>
+    ): Promise<web3.RpcResponseAndContext<web3.GetProgramAccountsResponse>>
+    getProgramAccounts(
+        programId: web3.PublicKey,
+        configOrCommitment?: web3.GetProgramAccountsConfig | web3.Commitment
+    ): Promise<web3.GetProgramAccountsResponse>
+    async getProgramAccounts(
+        programId: web3.PublicKey,
+        configOrCommitment?: web3.GetProgramAccountsConfig | web3.Commitment
+    ): Promise<web3.GetProgramAccountsResponse | web3.RpcResponseAndContext<web3.GetProgramAccountsResponse>> {
+        const config = typeof configOrCommitment === 'object' ? configOrCommitment : {}
+
+        const accounts = this.ledger.programAccounts(programId)
+            .filter(({ account }) => matchesFilters(account.data, config.filters))
+            .map(({ pubkey, account }) => {
+                if (!config.dataSlice) {
+                    return { pubkey, account }
+                }
+                const { offset, length } = config.dataSlice
+                return { pubkey, account: { ...account, data: account.data.slice(offset, offset + length) } }
+            })
+        return config.withContext ? { context: { slot: this.ledger.slot }, value: accounts } : accounts
+    };
+
+    async getMinimumBalanceForRentExemption(dataLength: number): Promise<number> {
+        return rentExemptBalance(dataLength)
+    };
+
+    async getTokenSupply(tokenMintAddress: web3.PublicKey): Promise<web3.RpcResponseAndContext<web3.TokenAmount>> {
+        const account = this.ledger.getAccount(tokenMintAddress)
+        if (!account || !account.owner.equals(token.TOKEN_PROGRAM_ID) || account.data.length !== token.MINT_SIZE) {
+            throw new Error(`failed to get token supply: Invalid param: not a Token mint`)
+        }
+        const mint = token.MintLayout.decode(account.data)
+        return { context: { slot: this.ledger.slot }, value: this.tokenAmount(mint.supply, mint.decimals) }
+    };
+
+    async getTokenAccountBalance(tokenAddress: web3.PublicKey): Promise<web3.RpcResponseAndContext<web3.TokenAmount>> {
+        const account = this.ledger.getAccount(tokenAddress)
+        if (!account || !account.owner.equals(token.TOKEN_PROGRAM_ID) || account.data.length !== token.ACCOUNT_SIZE) {
+            throw new Error(`failed to get token account balance: Invalid param: not a Token account`)
+        }
+        const tokenAccount = token.AccountLayout.decode(account.data)
+        const mint = token.MintLayout.decode(this.ledger.getAccount(tokenAccount.mint)!.data)
+        return { context: { slot: this.ledger.slot }, value: this.tokenAmount(tokenAccount.amount, mint.decimals) }
+    };
+
+    async getParsedTokenAccountsByOwner(
+        ownerAddress: web3.PublicKey,
+        filter: web3.TokenAccountsFilter
+    ): Promise<web3.RpcResponseAndContext<{ pubkey: web3.PublicKey, account: web3.AccountInfo<web3.ParsedAccountData> }[]>> {
+        // Token-2022 doesn't run on the mock cluster, so it never owns any accounts
+        const programId = 'programId' in filter ? filter.programId : token.TOKEN_PROGRAM_ID
+
+        const value = this.ledger.programAccounts(programId)
+            .filter(({ account }) => account.data.length === token.ACCOUNT_SIZE)
+            .map(({ pubkey, account }) => ({ pubkey, account, tokenAccount: token.AccountLayout.decode(account.data) }))
+            .filter(({ tokenAccount }) => tokenAccount.owner.equals(ownerAddress) && (!('mint' in filter) || tokenAccount.mint.equals(filter.mint)))
+            .map(({ pubkey, account, tokenAccount }) => {
+                const mint = token.MintLayout.decode(this.ledger.getAccount(tokenAccount.mint)!.data)
+                const info = {
+                    isNative: false,
+                    mint: tokenAccount.mint.toBase58(),
+                    owner: tokenAccount.owner.toBase58(),
+                    state: tokenAccount.state === token.AccountState.Frozen ? 'frozen' : 'initialized',
+                    tokenAmount: this.tokenAmount(tokenAccount.amount, mint.decimals),
+                    // the parser leaves out what isn't set
+                    ...(tokenAccount.delegateOption ? {
+                        delegate: tokenAccount.delegate.toBase58(),
+                        delegatedAmount: this.tokenAmount(tokenAccount.delegatedAmount, mint.decimals),
+                    } : {}),
+                }
+                const data: web3.ParsedAccountData = {
+                    program: 'spl-token',
+                    parsed: { type: 'account', info },
+                    space: account.data.length,
+                }
+                return { pubkey, account: { ...account, data } }
+            })
+
+        return { context: { slot: this.ledger.slot }, value }
+    };
+
+    async getRecentBlockhash(): Promise<{ blockhash: web3.Blockhash, feeCalculator: web3.FeeCalculator }> {
+        return {
+            blockhash: blockhashFor(this.ledger.slot),
+            feeCalculator: { lamportsPerSignature: LAMPORTS_PER_SIGNATURE },
+        }
+    };
+
+    async getLatestBlockhash(): Promise<web3.BlockhashWithExpiryBlockHeight> {
+        return {
+            blockhash: blockhashFor(this.ledger.slot),
+            lastValidBlockHeight: this.ledger.slot + BLOCKHASH_VALIDITY,
+        }
+    };
+
+    async requestAirdrop(to: web3.PublicKey, lamports: number): Promise<web3.TransactionSignature> {
+        this.ledger.credit(to, lamports)
+        // airdrops don't come from a real transaction, so they get a random signature
+        const signature = bs58.encode(web3.Keypair.generate().secretKey)
+        this.signatures.set(signature, { slot: this.ledger.slot, err: null })
+        return signature
+    };
+
+    async sendTransaction(
+        transaction: web3.Transaction | web3.VersionedTransaction,
+        signersOrOptions?: web3.Signer[] | web3.SendOptions
+    ): Promise<web3.TransactionSignature> {
+        // versioned transactions come signed, legacy ones are signed here
+        if (transaction instanceof web3.Transaction) {
+            transaction.recentBlockhash = transaction.recentBlockhash ?? blockhashFor(this.ledger.slot)
+            transaction.sign(...(Array.isArray(signersOrOptions) ? signersOrOptions : []))
+        }
+        return this.sendRawTransaction(transaction.serialize())
+    };
+
+    async sendRawTransaction(rawTransaction: Buffer | Uint8Array | number[]): Promise<web3.TransactionSignature> {
+        const { message, signatures } = web3.VersionedTransaction.deserialize(Uint8Array.from(rawTransaction))
+        // the signers are the first accounts of the message, in the order of the signatures
+        const signed = message.serialize()
+        const verified = message.staticAccountKeys
+            .slice(0, message.header.numRequiredSignatures)
+            .every((signer, index) => nacl.sign.detached.verify(signed, signatures[index], signer.toBytes()))
+        if (!verified) {
+            throw preflightError('Transaction signature verification failure')
+        }
+
+        const signature = bs58.encode(signatures[0])
+        if (this.signatures.has(signature)) {
+            throw preflightError('Transaction simulation failed: This transaction has already been processed')
+        }
+
+        const logs: string[] = []
+        this.ledger.begin()
+        try {
+            this.execute(message, logs)
+        } catch (error) {
+            this.ledger.rollback()
+            if (!(error instanceof MockProgramError)) {
+                throw error
+            }
+            logs.push(`Program failed: ${error.message}`)
+            throw preflightError(`Transaction simulation failed: ${error.message}`, logs)
+        }
+
+        this.ledger.commit()
+        this.signatures.set(signature, { slot: this.ledger.slot, err: null })
+        return signature
+    };
+
+    async simulateTransaction(
+        transactionOrMessage: web3.VersionedTransaction | web3.Transaction | web3.Message,
+        configOrSigners?: web3.SimulateTransactionConfig | web3.Signer[],
+        includeAccounts?: boolean | web3.PublicKey[]
+    ): Promise<web3.RpcResponseAndContext<web3.SimulatedTransactionResponse>> {
+        const message = transactionOrMessage instanceof web3.VersionedTransaction ? transactionOrMessage.message
+            : transactionOrMessage instanceof web3.Transaction ? transactionOrMessage.compileMessage()
+            : transactionOrMessage
+        // versioned transactions ask for accounts in their config, legacy ones with `includeAccounts`,
+        // where `true` asks for every account of the transaction
+        const config = Array.isArray(configOrSigners) ? undefined : configOrSigners
+        const accountKeys = config?.accounts ? config.accounts.addresses.map(address => new web3.PublicKey(address))
+            : includeAccounts === true ? message.staticAccountKeys
+            : includeAccounts || null
+
+        const logs: string[] = []
+        let err: string | null = null
+        let accounts: (web3.SimulatedTransactionAccountInfo | null)[] | null = null
+        this.ledger.begin()
+        try {
+            this.execute(message, logs)
+            // the accounts as the transaction left them, encoded the way the RPC returns them
+            accounts = accountKeys && accountKeys.map(pubkey => {
+                const account = this.ledger.getAccount(pubkey)
+                return account && {
+                    executable: account.executable,
+                    owner: account.owner.toBase58(),
+                    lamports: account.lamports,
+                    data: [account.data.toString('base64'), 'base64'],
+                    rentEpoch: account.rentEpoch,
+                }
+            })
+        } catch (error) {
+            if (!(error instanceof MockProgramError)) {
+                this.ledger.rollback()
+                throw error
+            }
+            logs.push(`Program failed: ${error.message}`)
+            err = error.message
+        }
+        // like on a real cluster, signatures aren't checked and nothing is written; programs here
+        // don't meter compute, so no units are reported
+        this.ledger.rollback()
+        return { context: { slot: this.ledger.slot }, value: { err, logs, accounts } }
+    };
+
+    async confirmTransaction(
+        strategy: web3.TransactionConfirmationStrategy | web3.TransactionSignature
+    ): Promise<web3.RpcResponseAndContext<web3.SignatureResult>> {
+        const signature = typeof strategy === 'string' ? strategy : strategy.signature
+        const record = this.signatures.get(signature)
+        if (!record) {
+            throw new Error(`Signature ${signature} was never sent to the mock cluster`)
+        }
+        return { context: { slot: record.slot }, value: { err: record.err } }
+    };
+
+    async getSignatureStatus(signature: web3.TransactionSignature): Promise<web3.RpcResponseAndContext<web3.SignatureStatus | null>> {
+        const { value } = await this.getSignatureStatuses([signature])
+        return { context: { slot: this.ledger.slot }, value: value[0] }
+    };
+
+    async getSignatureStatuses(signatures: web3.TransactionSignature[]): Promise<web3.RpcResponseAndContext<(web3.SignatureStatus | null)[]>> {
+        return {
+            context: { slot: this.ledger.slot },
+            value: signatures.map(signature => {
+                const record = this.signatures.get(signature)
+                // everything on the mock cluster is final as soon as it lands
+                return record ? { slot: record.slot, confirmations: null, err: record.err, confirmationStatus: 'finalized' } : null
+            }),
+        }
+    };
+
+    onAccountChange(publicKey: web3.PublicKey, callback: web3.AccountChangeCallback): number {
+        return this.ledger.onChange((pubkey, account, slot) => {
+            if (!pubkey.equals(publicKey)) {
+                return
+            }
+            // closed accounts are reported as empty system accounts, like the RPC does
+            const accountInfo = account ?? { lamports: 0, owner: web3.SystemProgram.programId, data: Buffer.alloc(0), executable: false }
+            // notifications arrive asynchronously over the websocket on a real cluster
+            setTimeout(() => callback(accountInfo, { slot }), 0)
+        })
+    };
+
+    async removeAccountChangeListener(clientSubscriptionId: number): Promise<void> {
+        this.ledger.removeListener(clientSubscriptionId)
+    };
+
+    onProgramAccountChange(
+        programId: web3.PublicKey,
+        callback: web3.ProgramAccountChangeCallback,
+        commitmentOrConfig?: web3.Commitment | web3.ProgramAccountSubscriptionConfig,
+        filters?: web3.GetProgramAccountsFilter[]
+    ): number {
+        // the filters come in the config, or after the commitment in the deprecated form
+        const accountFilters = typeof commitmentOrConfig === 'object' ? commitmentOrConfig.filters : filters
+        return this.ledger.onChange((pubkey, account, slot) => {
+            if (!account || !account.owner.equals(programId) || !matchesFilters(account.data, accountFilters)) {
+                return
+            }
+            setTimeout(() => callback({ accountId: pubkey, accountInfo: account }, { slot }), 0)
+        })
+    };
+
+    async removeProgramAccountChangeListener(clientSubscriptionId: number): Promise<void> {
+        this.ledger.removeListener(clientSubscriptionId)
+    };
+
+    // runs a transaction's message against the ledger, between the caller's `begin` and its `commit` or `rollback`
+    private execute(message: web3.VersionedMessage, logs: string[]) {
+        if (message.addressTableLookups.length > 0) {
+            throw new MockProgramError('Address lookup tables are not part of the mock cluster')
+        }
+        // the fee payer is the first account of the message and pays for every signature
+        this.ledger.debit(message.staticAccountKeys[0], LAMPORTS_PER_SIGNATURE * message.header.numRequiredSignatures)
+
+        web3.TransactionMessage.decompile(message).instructions.forEach(instruction => {
+            const programId = instruction.programId.toBase58()
+            const program = this.programs.get(programId)
+            logs.push(`Program ${programId} invoke [1]`)
+            if (!program) {
+                throw new MockProgramError(`Program ${programId} is not deployed on the mock cluster`)
+            }
+            program.execute(instruction, this.ledger)
+            logs.push(`Program ${programId} success`)
+        })
+    };
+
+    private tokenAmount(amount: bigint, decimals: number): web3.TokenAmount {
+        const uiAmountString = formatTokenAmount(amount, decimals)
+        return { amount: amount.toString(), decimals, uiAmount: Number(uiAmountString), uiAmountString }
+    };
+};
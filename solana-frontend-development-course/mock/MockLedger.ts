@@ -0,0 +1,133 @@
+import * as web3 from '@solana/web3.js'
+
+/**
+ * The `MockLedger` holds the state of the in-memory cluster used by `MockConnection`: every
+ * account with its lamports, owner and data, plus the current slot.
+ *
+ * Transactions run inside `begin`/`commit`/`rollback`. `begin` takes a snapshot of every account,
+ * `rollback` restores it when an instruction fails, so a failed transaction leaves no trace, just
+ * like on a real cluster. `commit` notifies the change listeners of every account the transaction
+ * wrote to.
+ */
+
+// lamports an account of `space` bytes needs to be rent exempt, using the same formula as the runtime:
+// 128 bytes of account metadata plus the data, at 3480 lamports per byte-year, for two years
+export const rentExemptBalance = (space: number): number => (128 + space) * 3480 * 2;
+
+export type LedgerChangeListener = (pubkey: web3.PublicKey, account: web3.AccountInfo<Buffer> | null, slot: number) => void;
+
+export class MockProgramError extends Error {
+    constructor(message: string) {
+        super(message);
+        // restore the prototype chain, which is lost when extending `Error` under an es5 target
+        Object.setPrototypeOf(this, MockProgramError.prototype);
+        this.name = 'MockProgramError';
+    };
+};
+
+export class MockLedger {
+    slot: number = 1
+
+    private accounts = new Map<string, web3.AccountInfo<Buffer>>()
+    private snapshot: Map<string, web3.AccountInfo<Buffer>> | null = null
+    // accounts written since `begin`, notified on `commit`
+    private touched = new Set<string>()
+    private listeners = new Map<number, LedgerChangeListener>()
+    private nextListenerId = 0
+
+    getAccount(pubkey: web3.PublicKey): web3.AccountInfo<Buffer> | null {
+        const account = this.accounts.get(pubkey.toBase58());
+        // hand out copies, so callers can't change the ledger without going through `setAccount`
+        return account ? { ...account, data: Buffer.from(account.data) } : null;
+    };
+
+    setAccount(pubkey: web3.PublicKey, account: web3.AccountInfo<Buffer>) {
+        this.accounts.set(pubkey.toBase58(), { ...account, data: Buffer.from(account.data) });
+        this.touch(pubkey);
+    };
+
+    deleteAccount(pubkey: web3.PublicKey) {
+        this.accounts.delete(pubkey.toBase58());
+        this.touch(pubkey);
+    };
+
+    // every account owned by `programId`
+    programAccounts(programId: web3.PublicKey): { pubkey: web3.PublicKey, account: web3.AccountInfo<Buffer> }[] {
+        const owned: { pubkey: web3.PublicKey, account: web3.AccountInfo<Buffer> }[] = [];
+        this.accounts.forEach((account, key) => {
+            if (account.owner.equals(programId)) {
+                owned.push({ pubkey: new web3.PublicKey(key), account: { ...account, data: Buffer.from(account.data) } });
+            }
+        });
+        return owned;
+    };
+
+    // adds lamports to an account, creating a system account if it doesn't exist yet
+    credit(pubkey: web3.PublicKey, lamports: number) {
+        const account = this.getAccount(pubkey) ?? {
+            lamports: 0,
+            owner: web3.SystemProgram.programId,
+            data: Buffer.alloc(0),
+            executable: false,
+        };
+        this.setAccount(pubkey, { ...account, lamports: account.lamports + lamports });
+    };
+
+    debit(pubkey: web3.PublicKey, lamports: number) {
+        const account = this.getAccount(pubkey);
+        if (!account || account.lamports < lamports) {
+            throw new MockProgramError(`Insufficient funds in ${pubkey.toBase58()}: needs ${lamports} lamports`);
+        }
+
+        if (account.lamports === lamports && account.data.length === 0) {
+            // emptied system accounts disappear, just like on chain
+            this.deleteAccount(pubkey);
+        } else {
+            this.setAccount(pubkey, { ...account, lamports: account.lamports - lamports });
+        }
+    };
+
+    begin() {
+        this.snapshot = new Map(this.accounts);
+        this.touched = new Set();
+    };
+
+    commit() {
+        this.slot++;
+        const touched = this.touched;
+        this.snapshot = null;
+        this.touched = new Set();
+
+        touched.forEach(key => {
+            const pubkey = new web3.PublicKey(key);
+            const account = this.getAccount(pubkey);
+            this.listeners.forEach(listener => listener(pubkey, account, this.slot));
+        });
+    };
+
+    rollback() {
+        if (this.snapshot) {
+            this.accounts = this.snapshot;
+        }
+        this.snapshot = null;
+        this.touched = new Set();
+    };
+
+    onChange(listener: LedgerChangeListener): number {
+        const id = this.nextListenerId++;
+        this.listeners.set(id, listener);
+        return id;
+    };
+
+    removeListener(id: number) {
+        this.listeners.delete(id);
+    };
+
+    private touch(pubkey: web3.PublicKey) {
+        this.touched.add(pubkey.toBase58());
+        // writes outside of a transaction (airdrops) are committed right away
+        if (!this.snapshot) {
+            this.commit();
+        }
+    };
+};
@@ -0,0 +1,66 @@
+import * as web3 from '@solana/web3.js'
+import { BaseSignerWalletAdapter, isVersionedTransaction, WalletName, WalletNotConnectedError, WalletReadyState } from '@solana/wallet-adapter-base'
+
+/**
+ * A wallet for the mock cluster that signs with a local keypair. Browser wallets like Phantom send
+ * transactions to their own RPC endpoint instead of the page's connection, so they can't reach a
+ * `MockConnection`. This adapter signs locally and leaves the sending to `BaseSignerWalletAdapter`,
+ * which goes through the page's connection.
+ */
+
+export const MockWalletName = 'Mock Wallet' as WalletName<'Mock Wallet'>
+
+// a plain circle, so the wallet modal has something to show
+const MOCK_WALLET_ICON = 'data:image/svg+xml;base64,' + Buffer.from(
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 32"><circle cx="16" cy="16" r="16" fill="#9945FF"/></svg>'
+).toString('base64')
+
+export class MockWalletAdapter extends BaseSignerWalletAdapter {
+    name = MockWalletName
+    url = 'https://docs.solana.com/wallet-guide'
+    icon = MOCK_WALLET_ICON
+    readyState = WalletReadyState.Loadable
+    connecting = false
+    supportedTransactionVersions = new Set<web3.TransactionVersion>(['legacy', 0])
+
+    private keypair: web3.Keypair
+    private connectedKey: web3.PublicKey | null = null
+
+    /**
+     * @param keypair - The keypair to sign with. Fund it on the mock ledger so it can pay fees.
+     */
+    constructor(keypair: web3.Keypair) {
+        super()
+        this.keypair = keypair
+    };
+
+    get publicKey(): web3.PublicKey | null {
+        return this.connectedKey
+    };
+
+    async connect() {
+        this.connectedKey = this.keypair.publicKey
+        this.emit('connect', this.connectedKey)
+    };
+
+    async disconnect() {
+        this.connectedKey = null
+        this.emit('disconnect')
+    };
+
+    async signTransaction<T extends web3.Transaction | web3.VersionedTransaction>(transaction: T): Promise<T> {
+        if (!this.connectedKey) {
+            throw new WalletNotConnectedError()
+        }
+        if (isVersionedTransaction(transaction)) {
+            transaction.sign([this.keypair])
+        } else {
+            transaction.partialSign(this.keypair)
+        }
+        return transaction
+    };
+
+    async signAllTransactions<T extends web3.Transaction | web3.VersionedTransaction>(transactions: T[]): Promise<T[]> {
+        return Promise.all(transactions.map(transaction => this.signTransaction(transaction)))
+    };
+};
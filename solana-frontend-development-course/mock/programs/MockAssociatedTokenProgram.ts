@@ -0,0 +1,36 @@
+import * as web3 from '@solana/web3.js'
+import * as token from '@solana/spl-token'
+
+import { MockLedger, MockProgramError, rentExemptBalance } from '../MockLedger'
+import { MockProgram, accountAt, createProgramAccount, requireSigner } from './MockProgram'
+import { MockTokenProgram } from './MockTokenProgram'
+
+/**
+ * The associated token account program on the mock cluster. Its only instruction creates the token
+ * account at the address derived from the owner and the mint, then initializes it through the
+ * token program, like the real program does with CPIs.
+ */
+export class MockAssociatedTokenProgram implements MockProgram {
+    programId = token.ASSOCIATED_TOKEN_PROGRAM_ID
+
+    private tokenProgram = new MockTokenProgram()
+
+    execute(instruction: web3.TransactionInstruction, ledger: MockLedger) {
+        const payer = accountAt(instruction, 0);
+        const associatedToken = accountAt(instruction, 1).pubkey;
+        const owner = accountAt(instruction, 2).pubkey;
+        const mint = accountAt(instruction, 3).pubkey;
+        requireSigner(payer);
+
+        const [expected] = web3.PublicKey.findProgramAddressSync(
+            [owner.toBuffer(), token.TOKEN_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+            this.programId
+        );
+        if (!expected.equals(associatedToken)) {
+            throw new MockProgramError('Associated address does not match the seed derivation');
+        }
+
+        createProgramAccount(ledger, payer.pubkey, associatedToken, rentExemptBalance(token.ACCOUNT_SIZE), token.ACCOUNT_SIZE, token.TOKEN_PROGRAM_ID);
+        this.tokenProgram.execute(token.createInitializeAccountInstruction(associatedToken, mint, owner), ledger);
+    };
+};
@@ -0,0 +1,80 @@
+import * as web3 from '@solana/web3.js'
+
+import { MockLedger, MockProgramError, rentExemptBalance } from '../MockLedger'
+import { MockProgram, accountAt, createProgramAccount, requireSigner } from './MockProgram'
+import { MOVIE_REVIEW_ACCOUNT_SIZE, MovieReview, MovieReviewCodec, MovieReviewVariant } from '../../models/movies/MovieReview'
+import { MOVIE_REVIEW_PROGRAM_ID, findReviewAddress } from '../../scripts/movies/MovieReviewCoordinator'
+
+/**
+ * The movie review program on the mock cluster. Reviews live at the PDA seeded with the author and
+ * the title. `Add` allocates the account, `Update` changes the rating and description of an existing
+ * review, and `Close` hands the account's lamports back to the author. Reviews are checked with
+ * `MovieReview.validate`, the same rules the page checks before sending.
+ */
+export class MockMovieReviewProgram implements MockProgram {
+    programId = new web3.PublicKey(MOVIE_REVIEW_PROGRAM_ID)
+
+    execute(instruction: web3.TransactionInstruction, ledger: MockLedger) {
+        const author = accountAt(instruction, 0);
+        const pda = accountAt(instruction, 1).pubkey;
+        requireSigner(author);
+
+        let decoded: ReturnType<typeof MovieReviewCodec.decodeInstruction>;
+        try {
+            decoded = MovieReviewCodec.decodeInstruction(instruction.data);
+        } catch (error) {
+            throw new MockProgramError('Invalid movie review instruction data');
+        }
+        const { variant, data } = decoded;
+
+        if (!findReviewAddress(author.pubkey, data.title).equals(pda)) {
+            throw new MockProgramError('Review account does not match the PDA of the author and title');
+        }
+
+        const existing = ledger.getAccount(pda);
+        const stored = existing?.owner.equals(this.programId) ? MovieReview.deserialize(existing.data) : null;
+
+        switch (variant) {
+            case MovieReviewVariant.Add:
+            case MovieReviewVariant.Update: {
+                const review = new MovieReview(data.title, data.rating, data.description);
+                const errors = review.validate();
+                if (errors.length > 0) {
+                    throw new MockProgramError(errors.join(', '));
+                }
+
+                if (variant === MovieReviewVariant.Add) {
+                    createProgramAccount(
+                        ledger,
+                        author.pubkey,
+                        pda,
+                        rentExemptBalance(MOVIE_REVIEW_ACCOUNT_SIZE),
+                        MOVIE_REVIEW_ACCOUNT_SIZE,
+                        this.programId
+                    );
+                } else if (!stored) {
+                    throw new MockProgramError('Review has not been added yet');
+                }
+
+                ledger.setAccount(pda, {
+                    ...ledger.getAccount(pda)!,
+                    data: MovieReviewCodec.encodeAccount(
+                        { initialized: true, rating: review.rating, title: review.title, description: review.description },
+                        MOVIE_REVIEW_ACCOUNT_SIZE
+                    ),
+                });
+                break;
+            }
+            case MovieReviewVariant.Close: {
+                if (!existing || !stored) {
+                    throw new MockProgramError('Review has not been added yet');
+                }
+                ledger.deleteAccount(pda);
+                ledger.credit(author.pubkey, existing.lamports);
+                break;
+            }
+            default:
+                throw new MockProgramError(`Unknown movie review instruction variant ${variant}`);
+        }
+    };
+};
@@ -0,0 +1,68 @@
+import * as web3 from '@solana/web3.js'
+
+import { MockLedger, MockProgramError } from '../MockLedger'
+
+/**
+ * A `MockProgram` stands in for an on-chain program on the mock cluster. `MockConnection` hands
+ * every instruction addressed to `programId` to `execute`, which reads and writes accounts through
+ * the ledger and throws a `MockProgramError` to fail the transaction.
+ *
+ * Signatures are checked for the whole transaction before any instruction runs, so a program only
+ * needs to check that the right accounts are marked as signers.
+ */
+export interface MockProgram {
+    programId: web3.PublicKey;
+    execute(instruction: web3.TransactionInstruction, ledger: MockLedger): void;
+};
+
+// the account at `index`, failing the instruction if it wasn't passed
+export const accountAt = (instruction: web3.TransactionInstruction, index: number): web3.AccountMeta => {
+    const meta = instruction.keys[index];
+    if (!meta) {
+        throw new MockProgramError(`Instruction is missing account #${index}`);
+    }
+    return meta;
+};
+
+// fails the instruction unless `meta` signed the transaction, and is `expected` when given
+export const requireSigner = (meta: web3.AccountMeta, expected?: web3.PublicKey) => {
+    if (expected && !meta.pubkey.equals(expected)) {
+        throw new MockProgramError(`${meta.pubkey.toBase58()} is not the authority, expected ${expected.toBase58()}`);
+    }
+    if (!meta.isSigner) {
+        throw new MockProgramError(`Missing required signature for ${meta.pubkey.toBase58()}`);
+    }
+};
+
+/**
+ * `createProgramAccount` allocates a new account owned by `owner`, paid for by `payer`, the way
+ * programs create their PDAs with a system program CPI.
+ * @param ledger - The ledger to write to.
+ * @param payer - The account paying the rent.
+ * @param pubkey - The account to create. It must not hold any data yet.
+ * @param lamports - The lamports moved from `payer` into the new account.
+ * @param space - The bytes to allocate.
+ * @param owner - The program that will own the account.
+ */
+export const createProgramAccount = (
+    ledger: MockLedger,
+    payer: web3.PublicKey,
+    pubkey: web3.PublicKey,
+    lamports: number,
+    space: number,
+    owner: web3.PublicKey
+) => {
+    const existing = ledger.getAccount(pubkey);
+    if (existing && (existing.data.length > 0 || !existing.owner.equals(web3.SystemProgram.programId))) {
+        throw new MockProgramError(`Account ${pubkey.toBase58()} already in use`);
+    }
+
+    ledger.debit(payer, lamports);
+    ledger.setAccount(pubkey, {
+        // lamports sent to the address before it was created are kept
+        lamports: (existing?.lamports ?? 0) + lamports,
+        owner,
+        data: Buffer.alloc(space),
+        executable: false,
+    });
+};
@@ -0,0 +1,67 @@
+import * as web3 from '@solana/web3.js'
+
+import { MockLedger, MockProgramError, rentExemptBalance } from '../MockLedger'
+import { MockProgram, accountAt, createProgramAccount, requireSigner } from './MockProgram'
+import { StudentIntroCodec, StudentIntroVariant } from '../../models/serialize/StudentIntroReference'
+import { STUDENT_INTRO_PROGRAM_ID, findIntroAddress } from '../../scripts/serialize/StudentIntroCoordinatorReference'
+
+/**
+ * The student intro program on the mock cluster. Each wallet gets one intro, stored at the PDA
+ * seeded with the wallet's public key. `Create` allocates it, `Update` rewrites it in place.
+ * Accounts are decoded and written with `StudentIntroCodec`, the same layout the pages read.
+ */
+
+// bytes allocated for every intro account
+const STUDENT_INTRO_ACCOUNT_SIZE = 1000
+
+export class MockStudentIntroProgram implements MockProgram {
+    programId = new web3.PublicKey(STUDENT_INTRO_PROGRAM_ID)
+
+    execute(instruction: web3.TransactionInstruction, ledger: MockLedger) {
+        const initializer = accountAt(instruction, 0);
+        const pda = accountAt(instruction, 1).pubkey;
+        requireSigner(initializer);
+
+        if (!findIntroAddress(initializer.pubkey).equals(pda)) {
+            throw new MockProgramError('Intro account does not match the PDA of the initializer');
+        }
+
+        let decoded: ReturnType<typeof StudentIntroCodec.decodeInstruction>;
+        try {
+            decoded = StudentIntroCodec.decodeInstruction(instruction.data);
+        } catch (error) {
+            throw new MockProgramError('Invalid intro instruction data');
+        }
+        const { variant, data: { name, message } } = decoded;
+
+        switch (variant) {
+            case StudentIntroVariant.Create:
+                createProgramAccount(
+                    ledger,
+                    initializer.pubkey,
+                    pda,
+                    rentExemptBalance(STUDENT_INTRO_ACCOUNT_SIZE),
+                    STUDENT_INTRO_ACCOUNT_SIZE,
+                    this.programId
+                );
+                break;
+            case StudentIntroVariant.Update:
+                if (!ledger.getAccount(pda)?.owner.equals(this.programId)) {
+                    throw new MockProgramError('Intro account has not been created yet');
+                }
+                break;
+            default:
+                throw new MockProgramError(`Unknown intro instruction variant ${variant}`);
+        }
+
+        const account = ledger.getAccount(pda)!;
+        try {
+            ledger.setAccount(pda, {
+                ...account,
+                data: StudentIntroCodec.encodeAccount({ initialized: 1, name, message }, STUDENT_INTRO_ACCOUNT_SIZE),
+            });
+        } catch (error) {
+            throw new MockProgramError('Intro does not fit in its account');
+        }
+    };
+};
@@ -0,0 +1,67 @@
+import * as web3 from '@solana/web3.js'
+
+import { MockLedger, MockProgramError } from '../MockLedger'
+import { MockProgram, accountAt, createProgramAccount, requireSigner } from './MockProgram'
+
+/**
+ * The system program on the mock cluster. It supports what the pages in this repo send:
+ * `createAccount` (used when creating mints and token accounts from a keypair), `transfer`,
+ * `assign` and `allocate`.
+ */
+export class MockSystemProgram implements MockProgram {
+    programId = web3.SystemProgram.programId
+
+    execute(instruction: web3.TransactionInstruction, ledger: MockLedger) {
+        const type = web3.SystemInstruction.decodeInstructionType(instruction);
+
+        switch (type) {
+            case 'Create': {
+                const { fromPubkey, newAccountPubkey, lamports, space, programId } = web3.SystemInstruction.decodeCreateAccount(instruction);
+                requireSigner(accountAt(instruction, 0));
+                // the new account signs too, proving nobody else holds its private key
+                requireSigner(accountAt(instruction, 1));
+                createProgramAccount(ledger, fromPubkey, newAccountPubkey, lamports, space, programId);
+                break;
+            }
+            case 'Transfer': {
+                const { fromPubkey, toPubkey, lamports } = web3.SystemInstruction.decodeTransfer(instruction);
+                requireSigner(accountAt(instruction, 0));
+                const from = ledger.getAccount(fromPubkey);
+                if (from && from.data.length > 0) {
+                    throw new MockProgramError('Transfer: `from` must not carry data');
+                }
+                ledger.debit(fromPubkey, Number(lamports));
+                ledger.credit(toPubkey, Number(lamports));
+                break;
+            }
+            case 'Assign': {
+                const { accountPubkey, programId } = web3.SystemInstruction.decodeAssign(instruction);
+                requireSigner(accountAt(instruction, 0));
+                const account = this.ownedAccount(ledger, accountPubkey);
+                ledger.setAccount(accountPubkey, { ...account, owner: programId });
+                break;
+            }
+            case 'Allocate': {
+                const { accountPubkey, space } = web3.SystemInstruction.decodeAllocate(instruction);
+                requireSigner(accountAt(instruction, 0));
+                const account = this.ownedAccount(ledger, accountPubkey);
+                if (account.data.length > 0) {
+                    throw new MockProgramError(`Account ${accountPubkey.toBase58()} already in use`);
+                }
+                ledger.setAccount(accountPubkey, { ...account, data: Buffer.alloc(space) });
+                break;
+            }
+            default:
+                throw new MockProgramError(`System instruction '${type}' is not supported by the mock cluster`);
+        }
+    };
+
+    // an existing account that still belongs to the system program
+    private ownedAccount(ledger: MockLedger, pubkey: web3.PublicKey): web3.AccountInfo<Buffer> {
+        const account = ledger.getAccount(pubkey);
+        if (!account || !account.owner.equals(this.programId)) {
+            throw new MockProgramError(`Account ${pubkey.toBase58()} is not owned by the system program`);
+        }
+        return account;
+    };
+};
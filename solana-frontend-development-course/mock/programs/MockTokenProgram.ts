@@ -0,0 +1,313 @@
+import * as web3 from '@solana/web3.js'
+import * as token from '@solana/spl-token'
+
+import { MockLedger, MockProgramError } from '../MockLedger'
+import { MockProgram, requireSigner } from './MockProgram'
+
+/**
+ * The SPL Token program on the mock cluster. Instructions are decoded with `decodeInstruction` from
+ * `@solana/spl-token`, and mints and token accounts are stored with the library's own `MintLayout`
+ * and `AccountLayout`, so `getMint`, `getAccount` and friends read them back like on devnet.
+ *
+ * Multisig authorities and native (wrapped SOL) accounts aren't supported.
+ */
+
+const decodeMint = (ledger: MockLedger, pubkey: web3.PublicKey): token.RawMint => {
+    const account = ledger.getAccount(pubkey);
+    if (!account || !account.owner.equals(token.TOKEN_PROGRAM_ID) || account.data.length !== token.MINT_SIZE) {
+        throw new MockProgramError(`${pubkey.toBase58()} is not a mint`);
+    }
+    const mint = token.MintLayout.decode(account.data);
+    if (!mint.isInitialized) {
+        throw new MockProgramError(`Mint ${pubkey.toBase58()} is not initialized`);
+    }
+    return mint;
+};
+
+const decodeTokenAccount = (ledger: MockLedger, pubkey: web3.PublicKey): token.RawAccount => {
+    const account = ledger.getAccount(pubkey);
+    if (!account || !account.owner.equals(token.TOKEN_PROGRAM_ID) || account.data.length !== token.ACCOUNT_SIZE) {
+        throw new MockProgramError(`${pubkey.toBase58()} is not a token account`);
+    }
+    const tokenAccount = token.AccountLayout.decode(account.data);
+    if (tokenAccount.state === token.AccountState.Uninitialized) {
+        throw new MockProgramError(`Token account ${pubkey.toBase58()} is not initialized`);
+    }
+    return tokenAccount;
+};
+
+// writes `data` over the account's data, keeping its lamports and owner
+const writeMint = (ledger: MockLedger, pubkey: web3.PublicKey, mint: token.RawMint) => {
+    const account = ledger.getAccount(pubkey)!;
+    token.MintLayout.encode(mint, account.data);
+    ledger.setAccount(pubkey, account);
+};
+
+const writeTokenAccount = (ledger: MockLedger, pubkey: web3.PublicKey, tokenAccount: token.RawAccount) => {
+    const account = ledger.getAccount(pubkey)!;
+    token.AccountLayout.encode(tokenAccount, account.data);
+    ledger.setAccount(pubkey, account);
+};
+
+// an uninitialized account of the right size, allocated to the token program
+const requireUninitialized = (ledger: MockLedger, pubkey: web3.PublicKey, size: number) => {
+    const account = ledger.getAccount(pubkey);
+    if (!account || !account.owner.equals(token.TOKEN_PROGRAM_ID) || account.data.length !== size) {
+        throw new MockProgramError(`${pubkey.toBase58()} must be a ${size}-byte account owned by the token program`);
+    }
+    if (account.data.some(byte => byte !== 0)) {
+        throw new MockProgramError(`${pubkey.toBase58()} is already initialized`);
+    }
+};
+
+const requireNotFrozen = (pubkey: web3.PublicKey, tokenAccount: token.RawAccount) => {
+    if (tokenAccount.state === token.AccountState.Frozen) {
+        throw new MockProgramError(`Token account ${pubkey.toBase58()} is frozen`);
+    }
+};
+
+const requireDecimals = (mint: token.RawMint, decimals: number) => {
+    if (mint.decimals !== decimals) {
+        throw new MockProgramError(`Mint has ${mint.decimals} decimals, instruction expected ${decimals}`);
+    }
+};
+
+// the owner may always move tokens; a delegate only up to its approved amount
+const spend = (tokenAccount: token.RawAccount, authority: web3.AccountMeta, amount: bigint): token.RawAccount => {
+    if (tokenAccount.amount < amount) {
+        throw new MockProgramError(`Insufficient funds: ${tokenAccount.amount} available, ${amount} needed`);
+    }
+
+    if (tokenAccount.delegateOption && authority.pubkey.equals(tokenAccount.delegate) && !authority.pubkey.equals(tokenAccount.owner)) {
+        requireSigner(authority);
+        if (tokenAccount.delegatedAmount < amount) {
+            throw new MockProgramError(`Delegate is only approved for ${tokenAccount.delegatedAmount}`);
+        }
+        const delegatedAmount = tokenAccount.delegatedAmount - amount;
+        return {
+            ...tokenAccount,
+            amount: tokenAccount.amount - amount,
+            delegatedAmount,
+            // the delegation ends once it's used up
+            delegateOption: delegatedAmount === BigInt(0) ? 0 : 1,
+            delegate: delegatedAmount === BigInt(0) ? web3.PublicKey.default : tokenAccount.delegate,
+        };
+    }
+
+    requireSigner(authority, tokenAccount.owner);
+    return { ...tokenAccount, amount: tokenAccount.amount - amount };
+};
+
+export class MockTokenProgram implements MockProgram {
+    programId = token.TOKEN_PROGRAM_ID
+
+    execute(instruction: web3.TransactionInstruction, ledger: MockLedger) {
+        let decoded: token.DecodedInstruction;
+        try {
+            decoded = token.decodeInstruction(instruction);
+        } catch (error) {
+            throw new MockProgramError(`Token instruction ${instruction.data[0]} is not supported by the mock cluster`);
+        }
+
+        if (token.isInitializeMintInstruction(decoded)) {
+            const { keys: { mint }, data } = decoded;
+            requireUninitialized(ledger, mint.pubkey, token.MINT_SIZE);
+            writeMint(ledger, mint.pubkey, {
+                mintAuthorityOption: 1,
+                mintAuthority: data.mintAuthority,
+                supply: BigInt(0),
+                decimals: data.decimals,
+                isInitialized: true,
+                freezeAuthorityOption: data.freezeAuthority ? 1 : 0,
+                freezeAuthority: data.freezeAuthority ?? web3.PublicKey.default,
+            });
+        } else if (token.isInitializeAccountInstruction(decoded)) {
+            const { keys: { account, mint, owner } } = decoded;
+            requireUninitialized(ledger, account.pubkey, token.ACCOUNT_SIZE);
+            decodeMint(ledger, mint.pubkey);
+            writeTokenAccount(ledger, account.pubkey, {
+                mint: mint.pubkey,
+                owner: owner.pubkey,
+                amount: BigInt(0),
+                delegateOption: 0,
+                delegate: web3.PublicKey.default,
+                state: token.AccountState.Initialized,
+                isNativeOption: 0,
+                isNative: BigInt(0),
+                delegatedAmount: BigInt(0),
+                closeAuthorityOption: 0,
+                closeAuthority: web3.PublicKey.default,
+            });
+        } else if (token.isMintToInstruction(decoded) || token.isMintToCheckedInstruction(decoded)) {
+            const { keys: { mint, destination, authority }, data } = decoded;
+            const mintState = decodeMint(ledger, mint.pubkey);
+            if (token.isMintToCheckedInstruction(decoded)) {
+                requireDecimals(mintState, decoded.data.decimals);
+            }
+            if (!mintState.mintAuthorityOption) {
+                throw new MockProgramError('Mint has no mint authority, its supply is fixed');
+            }
+            requireSigner(authority, mintState.mintAuthority);
+
+            const account = decodeTokenAccount(ledger, destination.pubkey);
+            if (!account.mint.equals(mint.pubkey)) {
+                throw new MockProgramError('Destination account belongs to another mint');
+            }
+            requireNotFrozen(destination.pubkey, account);
+
+            writeMint(ledger, mint.pubkey, { ...mintState, supply: mintState.supply + BigInt(data.amount) });
+            writeTokenAccount(ledger, destination.pubkey, { ...account, amount: account.amount + BigInt(data.amount) });
+        } else if (token.isTransferInstruction(decoded) || token.isTransferCheckedInstruction(decoded)) {
+            const { keys: { source, destination, owner }, data } = decoded;
+            const from = decodeTokenAccount(ledger, source.pubkey);
+            const to = decodeTokenAccount(ledger, destination.pubkey);
+            if (!from.mint.equals(to.mint)) {
+                throw new MockProgramError('Source and destination accounts belong to different mints');
+            }
+            if (token.isTransferCheckedInstruction(decoded)) {
+                if (!decoded.keys.mint.pubkey.equals(from.mint)) {
+                    throw new MockProgramError('Mint does not match the source account');
+                }
+                requireDecimals(decodeMint(ledger, from.mint), decoded.data.decimals);
+            }
+            requireNotFrozen(source.pubkey, from);
+            requireNotFrozen(destination.pubkey, to);
+
+            const amount = BigInt(data.amount);
+            writeTokenAccount(ledger, source.pubkey, spend(from, owner, amount));
+            // re-read the destination, which is the source again on a self-transfer
+            const received = decodeTokenAccount(ledger, destination.pubkey);
+            writeTokenAccount(ledger, destination.pubkey, { ...received, amount: received.amount + amount });
+        } else if (token.isBurnInstruction(decoded) || token.isBurnCheckedInstruction(decoded)) {
+            const { keys: { account, mint, owner }, data } = decoded;
+            const mintState = decodeMint(ledger, mint.pubkey);
+            if (token.isBurnCheckedInstruction(decoded)) {
+                requireDecimals(mintState, decoded.data.decimals);
+            }
+            const tokenAccount = decodeTokenAccount(ledger, account.pubkey);
+            if (!tokenAccount.mint.equals(mint.pubkey)) {
+                throw new MockProgramError('Account belongs to another mint');
+            }
+            requireNotFrozen(account.pubkey, tokenAccount);
+
+            const amount = BigInt(data.amount);
+            writeTokenAccount(ledger, account.pubkey, spend(tokenAccount, owner, amount));
+            writeMint(ledger, mint.pubkey, { ...mintState, supply: mintState.supply - amount });
+        } else if (token.isApproveInstruction(decoded) || token.isApproveCheckedInstruction(decoded)) {
+            const { keys: { account, delegate, owner }, data } = decoded;
+            const tokenAccount = decodeTokenAccount(ledger, account.pubkey);
+            if (token.isApproveCheckedInstruction(decoded)) {
+                requireDecimals(decodeMint(ledger, tokenAccount.mint), decoded.data.decimals);
+            }
+            requireNotFrozen(account.pubkey, tokenAccount);
+            requireSigner(owner, tokenAccount.owner);
+            writeTokenAccount(ledger, account.pubkey, {
+                ...tokenAccount,
+                delegateOption: 1,
+                delegate: delegate.pubkey,
+                delegatedAmount: BigInt(data.amount),
+            });
+        } else if (token.isRevokeInstruction(decoded)) {
+            const { keys: { account, owner } } = decoded;
+            const tokenAccount = decodeTokenAccount(ledger, account.pubkey);
+            requireNotFrozen(account.pubkey, tokenAccount);
+            requireSigner(owner, tokenAccount.owner);
+            writeTokenAccount(ledger, account.pubkey, {
+                ...tokenAccount,
+                delegateOption: 0,
+                delegate: web3.PublicKey.default,
+                delegatedAmount: BigInt(0),
+            });
+        } else if (token.isSetAuthorityInstruction(decoded)) {
+            this.setAuthority(decoded, ledger);
+        } else if (token.isFreezeAccountInstruction(decoded) || token.isThawAccountInstruction(decoded)) {
+            const { keys: { account, mint, authority } } = decoded;
+            const freeze = token.isFreezeAccountInstruction(decoded);
+            const mintState = decodeMint(ledger, mint.pubkey);
+            if (!mintState.freezeAuthorityOption) {
+                throw new MockProgramError('Mint has no freeze authority');
+            }
+            requireSigner(authority, mintState.freezeAuthority);
+
+            const tokenAccount = decodeTokenAccount(ledger, account.pubkey);
+            if (!tokenAccount.mint.equals(mint.pubkey)) {
+                throw new MockProgramError('Account belongs to another mint');
+            }
+            if ((tokenAccount.state === token.AccountState.Frozen) === freeze) {
+                throw new MockProgramError(freeze ? 'Account is already frozen' : 'Account is not frozen');
+            }
+            writeTokenAccount(ledger, account.pubkey, {
+                ...tokenAccount,
+                state: freeze ? token.AccountState.Frozen : token.AccountState.Initialized,
+            });
+        } else if (token.isCloseAccountInstruction(decoded)) {
+            const { keys: { account, destination, authority } } = decoded;
+            const tokenAccount = decodeTokenAccount(ledger, account.pubkey);
+            if (tokenAccount.amount !== BigInt(0)) {
+                throw new MockProgramError('Non-native account can only be closed if its balance is zero');
+            }
+            requireSigner(authority, tokenAccount.closeAuthorityOption ? tokenAccount.closeAuthority : tokenAccount.owner);
+
+            const lamports = ledger.getAccount(account.pubkey)!.lamports;
+            ledger.deleteAccount(account.pubkey);
+            ledger.credit(destination.pubkey, lamports);
+        } else {
+            throw new MockProgramError(`Token instruction ${decoded.data.instruction} is not supported by the mock cluster`);
+        }
+    };
+
+    private setAuthority(decoded: token.DecodedSetAuthorityInstruction, ledger: MockLedger) {
+        const { keys: { account, currentAuthority }, data: { authorityType, newAuthority } } = decoded;
+        const option = newAuthority ? 1 : 0;
+        const authority = newAuthority ?? web3.PublicKey.default;
+
+        switch (authorityType) {
+            case token.AuthorityType.MintTokens:
+            case token.AuthorityType.FreezeAccount: {
+                const mint = decodeMint(ledger, account.pubkey);
+                if (authorityType === token.AuthorityType.MintTokens) {
+                    if (!mint.mintAuthorityOption) {
+                        throw new MockProgramError('Mint authority was already removed');
+                    }
+                    requireSigner(currentAuthority, mint.mintAuthority);
+                    writeMint(ledger, account.pubkey, { ...mint, mintAuthorityOption: option, mintAuthority: authority });
+                } else {
+                    if (!mint.freezeAuthorityOption) {
+                        throw new MockProgramError('Freeze authority was already removed');
+                    }
+                    requireSigner(currentAuthority, mint.freezeAuthority);
+                    writeMint(ledger, account.pubkey, { ...mint, freezeAuthorityOption: option, freezeAuthority: authority });
+                }
+                break;
+            }
+            case token.AuthorityType.AccountOwner: {
+                const tokenAccount = decodeTokenAccount(ledger, account.pubkey);
+                requireNotFrozen(account.pubkey, tokenAccount);
+                requireSigner(currentAuthority, tokenAccount.owner);
+                if (!newAuthority) {
+                    throw new MockProgramError('A token account must have an owner');
+                }
+                // a new owner doesn't inherit the previous owner's delegate or close authority
+                writeTokenAccount(ledger, account.pubkey, {
+                    ...tokenAccount,
+                    owner: newAuthority,
+                    delegateOption: 0,
+                    delegate: web3.PublicKey.default,
+                    delegatedAmount: BigInt(0),
+                    closeAuthorityOption: 0,
+                    closeAuthority: web3.PublicKey.default,
+                });
+                break;
+            }
+            case token.AuthorityType.CloseAccount: {
+                const tokenAccount = decodeTokenAccount(ledger, account.pubkey);
+                requireNotFrozen(account.pubkey, tokenAccount);
+                requireSigner(currentAuthority, tokenAccount.closeAuthorityOption ? tokenAccount.closeAuthority : tokenAccount.owner);
+                writeTokenAccount(ledger, account.pubkey, { ...tokenAccount, closeAuthorityOption: option, closeAuthority: authority });
+                break;
+            }
+            default:
+                throw new MockProgramError(`Authority type ${authorityType} is not supported`);
+        }
+    };
+};
@@ -0,0 +1,25 @@
+import * as fc from 'fast-check'
+
+import { ClusterError, CLUSTERS, customCluster, DEFAULT_CLUSTER, deserializeCluster, serializeCluster } from './Cluster'
+
+describe('Cluster', () => {
+    it('reads back every cluster it stores', () => {
+        const endpoint = fc.webUrl({ validSchemes: ['http', 'https'] })
+        const stored = fc.oneof(fc.constantFrom(...CLUSTERS), endpoint.map(customCluster))
+        fc.assert(fc.property(stored, cluster => {
+            expect(deserializeCluster(serializeCluster(cluster))).toEqual(cluster)
+        }))
+    })
+
+    it('falls back to the default cluster when nothing valid was stored', () => {
+        for (const stored of [null, '', 'not json', '{"name":"unknown"}', '{"name":"custom","endpoint":"ws://example.com"}']) {
+            expect(deserializeCluster(stored)).toBe(DEFAULT_CLUSTER)
+        }
+    })
+
+    it('only takes http and https URLs for a custom cluster', () => {
+        expect(customCluster(' http://127.0.0.1:8899 ').endpoint).toBe('http://127.0.0.1:8899')
+        expect(() => customCluster('ws://127.0.0.1:8900')).toThrow(ClusterError)
+        expect(() => customCluster('not a url')).toThrow(ClusterError)
+    })
+})
@@ -0,0 +1,84 @@
+import * as web3 from '@solana/web3.js'
+
+/*
+    Clusters: where the pages send their requests. Explorer links follow the
+    selected cluster, see `Explorer`.
+
+    Devnet, testnet and mainnet-beta are the public clusters, localnet is a
+    `solana-test-validator` on its default port, and a custom cluster is any RPC
+    URL.
+
+    Devnet uses `NEXT_PUBLIC_RPC_ENDPOINT` when it's set, e.g. a dedicated devnet
+    RPC, and the public endpoint otherwise.
+*/
+
+export type ClusterName = 'devnet' | 'testnet' | 'mainnet-beta' | 'localnet' | 'custom'
+
+export interface Cluster {
+    name: ClusterName;
+    label: string;
+    endpoint: string;
+};
+
+export class ClusterError extends Error {
+    constructor(message: string) {
+        super(message);
+        // restore the prototype chain, which is lost when extending `Error` under an es5 target
+        Object.setPrototypeOf(this, ClusterError.prototype);
+        this.name = 'ClusterError';
+    };
+};
+
+// where `solana-test-validator` listens by default
+export const LOCALNET_ENDPOINT = 'http://127.0.0.1:8899'
+
+// every cluster but custom ones, which are created with `customCluster`
+export const CLUSTERS: Cluster[] = [
+    { name: 'devnet', label: 'Devnet', endpoint: process.env.NEXT_PUBLIC_RPC_ENDPOINT || web3.clusterApiUrl('devnet') },
+    { name: 'testnet', label: 'Testnet', endpoint: web3.clusterApiUrl('testnet') },
+    { name: 'mainnet-beta', label: 'Mainnet Beta', endpoint: web3.clusterApiUrl('mainnet-beta') },
+    { name: 'localnet', label: 'Localnet', endpoint: LOCALNET_ENDPOINT },
+]
+
+export const DEFAULT_CLUSTER = CLUSTERS[0]
+
+/**
+ * `customCluster` creates a cluster for any RPC URL.
+ * @param endpoint - The RPC URL, e.g. "https://my-rpc.example.com".
+ * @throws ClusterError if the URL isn't an http or https URL.
+ */
+export const customCluster = (endpoint: string): Cluster => {
+    let url: URL
+    try {
+        url = new URL(endpoint.trim())
+    } catch (error) {
+        throw new ClusterError(`'${endpoint}' is not a URL`)
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new ClusterError('The RPC URL has to start with http:// or https://')
+    }
+    return { name: 'custom', label: 'Custom RPC', endpoint: endpoint.trim() }
+};
+
+/**
+ * `serializeCluster` turns a cluster into a string for the browser's storage.
+ * @param cluster - The selected cluster.
+ */
+export const serializeCluster = (cluster: Cluster): string =>
+    // only a custom cluster's endpoint is kept, the others follow the presets
+    JSON.stringify(cluster.name === 'custom' ? { name: cluster.name, endpoint: cluster.endpoint } : { name: cluster.name });
+
+/**
+ * `deserializeCluster` reads back what `serializeCluster` stored.
+ * @param stored - The stored string, or `null` if nothing was stored.
+ * @returns The stored cluster, or the default one if nothing valid was stored.
+ */
+export const deserializeCluster = (stored: string | null): Cluster => {
+    if (!stored) { return DEFAULT_CLUSTER }
+    try {
+        const { name, endpoint } = JSON.parse(stored)
+        return name === 'custom' ? customCluster(endpoint) : CLUSTERS.find(cluster => cluster.name === name) ?? DEFAULT_CLUSTER
+    } catch (error) {
+        return DEFAULT_CLUSTER
+    }
+};
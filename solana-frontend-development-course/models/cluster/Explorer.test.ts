@@ -0,0 +1,75 @@
+import * as fc from 'fast-check'
+
+import { CLUSTERS, Cluster, customCluster } from './Cluster'
+import {
+    DEFAULT_EXPLORER,
+    deserializeExplorer,
+    EXPLORERS,
+    ExplorerError,
+    explorerHref,
+    selfHostedExplorer,
+    serializeExplorer,
+    SOLANA_EXPLORER,
+    SOLANAFM,
+    SOLSCAN,
+} from './Explorer'
+
+const cluster = (name: string): Cluster => CLUSTERS.find(cluster => cluster.name === name)!
+const custom = customCluster('https://rpc.example.com/?key=1')
+const signature = '5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW'
+
+describe('Explorer', () => {
+    it('links to the selected public cluster by name', () => {
+        expect(SOLANA_EXPLORER.tx(signature, cluster('mainnet-beta'))).toBe(`https://explorer.solana.com/tx/${signature}`)
+        expect(SOLANA_EXPLORER.tx(signature, cluster('devnet'))).toBe(`https://explorer.solana.com/tx/${signature}?cluster=devnet`)
+        expect(SOLSCAN.address('mint', cluster('testnet'))).toBe('https://solscan.io/account/mint?cluster=testnet')
+        expect(SOLSCAN.token('mint', cluster('mainnet-beta'))).toBe('https://solscan.io/token/mint')
+        expect(SOLANAFM.block('42', cluster('devnet'))).toBe('https://solana.fm/block/42?cluster=devnet-solana')
+        expect(SOLANAFM.token('mint', cluster('mainnet-beta'))).toBe('https://solana.fm/address/mint?cluster=mainnet-alpha')
+    })
+
+    it('passes localnet and custom clusters by their RPC URL', () => {
+        expect(SOLANA_EXPLORER.address('mint', cluster('localnet')))
+            .toBe('https://explorer.solana.com/address/mint?cluster=custom&customUrl=http%3A%2F%2F127.0.0.1%3A8899')
+        expect(SOLANA_EXPLORER.tx(signature, custom))
+            .toBe(`https://explorer.solana.com/tx/${signature}?cluster=custom&customUrl=https%3A%2F%2Frpc.example.com%2F%3Fkey%3D1`)
+    })
+
+    it('opens Solana Explorer for clusters Solscan and SolanaFM can\'t query', () => {
+        for (const explorer of [SOLSCAN, SOLANAFM]) {
+            for (const target of [cluster('localnet'), custom]) {
+                expect(explorer.tx(signature, target)).toBe(SOLANA_EXPLORER.tx(signature, target))
+                expect(explorer.address('mint', target)).toBe(SOLANA_EXPLORER.address('mint', target))
+                expect(explorer.block('42', target)).toBe(SOLANA_EXPLORER.block('42', target))
+                expect(explorer.token('mint', target)).toBe(SOLANA_EXPLORER.token('mint', target))
+            }
+        }
+    })
+
+    it('fills every placeholder of a self-hosted template', () => {
+        const explorer = selfHostedExplorer(' https://explorer.example.com/{kind}/{value}?cluster={cluster}&rpc={rpc} ')
+        expect(explorerHref(explorer, custom, { kind: 'block', target: 42 }))
+            .toBe('https://explorer.example.com/block/42?cluster=custom&rpc=https%3A%2F%2Frpc.example.com%2F%3Fkey%3D1')
+    })
+
+    it('rejects templates that aren\'t web URLs or have nowhere to put the value', () => {
+        expect(() => selfHostedExplorer('ftp://explorer.example.com/{value}')).toThrow(ExplorerError)
+        expect(() => selfHostedExplorer('https://explorer.example.com/tx')).toThrow(ExplorerError)
+    })
+
+    it('reads back every explorer it stores', () => {
+        const template = fc.webPath().map(path => `https://explorer.example.com${path}/{value}`)
+        const explorer = fc.oneof(fc.constantFrom(...EXPLORERS), template.map(selfHostedExplorer))
+        fc.assert(fc.property(explorer, explorer => {
+            const stored = deserializeExplorer(serializeExplorer(explorer))
+            expect(stored.id).toBe(explorer.id)
+            expect(stored.template).toBe(explorer.template)
+        }))
+    })
+
+    it('falls back to the default explorer when nothing valid was stored', () => {
+        for (const stored of [null, '', 'not json', '{"id":"unknown"}', '{"id":"self-hosted","template":"nowhere"}']) {
+            expect(deserializeExplorer(stored)).toBe(DEFAULT_EXPLORER)
+        }
+    })
+})
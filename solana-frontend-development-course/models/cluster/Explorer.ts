@@ -0,0 +1,178 @@
+import * as web3 from '@solana/web3.js'
+
+import { Cluster } from './Cluster'
+
+/*
+    Explorers: where links to transactions, accounts, blocks and tokens point to.
+
+    Solana Explorer, Solscan and SolanaFM are built in; a self-hosted explorer is
+    described by a URL template. Every link is built for the selected cluster:
+    the public clusters are passed by name, and localnet and custom RPC URLs by
+    their URL. Solscan and SolanaFM can't query an RPC of our choosing, so their
+    links for localnet and custom clusters open Solana Explorer instead.
+
+    A self-hosted template fills in these placeholders:
+        {kind}     tx, address, block or token
+        {value}    the signature, address, slot or mint
+        {cluster}  devnet, testnet, mainnet-beta, localnet or custom
+        {rpc}      the cluster's RPC URL, URL encoded
+*/
+
+export type ExplorerId = 'solana-explorer' | 'solscan' | 'solanafm' | 'self-hosted'
+
+export type ExplorerLinkKind = 'tx' | 'address' | 'block' | 'token'
+
+// what a link points to, e.g. `{ kind: 'tx', target: signature }`; rendered as `undefined` while it's missing
+export interface ExplorerLink {
+    kind: ExplorerLinkKind;
+    target: web3.PublicKey | string | number | null | undefined;
+};
+
+export interface Explorer {
+    id: ExplorerId;
+    name: string;
+    // the template of a self-hosted explorer, empty for the others
+    template: string;
+    tx: (signature: string, cluster: Cluster) => string;
+    address: (address: string, cluster: Cluster) => string;
+    block: (slot: string, cluster: Cluster) => string;
+    token: (mint: string, cluster: Cluster) => string;
+};
+
+export class ExplorerError extends Error {
+    constructor(message: string) {
+        super(message);
+        // restore the prototype chain, which is lost when extending `Error` under an es5 target
+        Object.setPrototypeOf(this, ExplorerError.prototype);
+        this.name = 'ExplorerError';
+    };
+};
+
+// whether the cluster is one every explorer knows by name
+const isPublic = (cluster: Cluster) => cluster.name !== 'localnet' && cluster.name !== 'custom';
+
+const solanaExplorerUrl = (path: string, value: string, cluster: Cluster): string => {
+    const base = `https://explorer.solana.com/${path}/${value}`
+    switch (cluster.name) {
+        case 'mainnet-beta':
+            return base
+        case 'devnet':
+        case 'testnet':
+            return `${base}?cluster=${cluster.name}`
+        case 'localnet':
+        case 'custom':
+            return `${base}?cluster=custom&customUrl=${encodeURIComponent(cluster.endpoint)}`
+    }
+};
+
+export const SOLANA_EXPLORER: Explorer = {
+    id: 'solana-explorer',
+    name: 'Solana Explorer',
+    template: '',
+    tx: (signature, cluster) => solanaExplorerUrl('tx', signature, cluster),
+    address: (address, cluster) => solanaExplorerUrl('address', address, cluster),
+    block: (slot, cluster) => solanaExplorerUrl('block', slot, cluster),
+    // mints are accounts to Solana Explorer, which shows their supply and holders
+    token: (mint, cluster) => solanaExplorerUrl('address', mint, cluster),
+}
+
+const solscanUrl = (path: string, value: string, cluster: Cluster): string =>
+    cluster.name === 'mainnet-beta' ? `https://solscan.io/${path}/${value}` : `https://solscan.io/${path}/${value}?cluster=${cluster.name}`;
+
+export const SOLSCAN: Explorer = {
+    id: 'solscan',
+    name: 'Solscan',
+    template: '',
+    tx: (signature, cluster) => isPublic(cluster) ? solscanUrl('tx', signature, cluster) : SOLANA_EXPLORER.tx(signature, cluster),
+    address: (address, cluster) => isPublic(cluster) ? solscanUrl('account', address, cluster) : SOLANA_EXPLORER.address(address, cluster),
+    block: (slot, cluster) => isPublic(cluster) ? solscanUrl('block', slot, cluster) : SOLANA_EXPLORER.block(slot, cluster),
+    token: (mint, cluster) => isPublic(cluster) ? solscanUrl('token', mint, cluster) : SOLANA_EXPLORER.token(mint, cluster),
+}
+
+// SolanaFM's names for the public clusters
+const SOLANAFM_CLUSTERS: { [name: string]: string } = {
+    'mainnet-beta': 'mainnet-alpha',
+    devnet: 'devnet-solana',
+    testnet: 'testnet-solana',
+}
+
+const solanaFmUrl = (path: string, value: string, cluster: Cluster): string =>
+    `https://solana.fm/${path}/${value}?cluster=${SOLANAFM_CLUSTERS[cluster.name]}`;
+
+export const SOLANAFM: Explorer = {
+    id: 'solanafm',
+    name: 'SolanaFM',
+    template: '',
+    tx: (signature, cluster) => isPublic(cluster) ? solanaFmUrl('tx', signature, cluster) : SOLANA_EXPLORER.tx(signature, cluster),
+    address: (address, cluster) => isPublic(cluster) ? solanaFmUrl('address', address, cluster) : SOLANA_EXPLORER.address(address, cluster),
+    block: (slot, cluster) => isPublic(cluster) ? solanaFmUrl('block', slot, cluster) : SOLANA_EXPLORER.block(slot, cluster),
+    // SolanaFM shows a mint's token page at its address
+    token: (mint, cluster) => isPublic(cluster) ? solanaFmUrl('address', mint, cluster) : SOLANA_EXPLORER.token(mint, cluster),
+}
+
+// every explorer but self-hosted ones, which are created with `selfHostedExplorer`
+export const EXPLORERS: Explorer[] = [SOLANA_EXPLORER, SOLSCAN, SOLANAFM]
+
+export const DEFAULT_EXPLORER = SOLANA_EXPLORER
+
+/**
+ * `selfHostedExplorer` creates an explorer from a URL template.
+ * @param template - The URL with placeholders, e.g. "https://explorer.example.com/{kind}/{value}?rpc={rpc}".
+ * @throws ExplorerError if the template isn't an http or https URL or has no `{value}`.
+ */
+export const selfHostedExplorer = (template: string): Explorer => {
+    const trimmed = template.trim()
+    if (!/^https?:\/\//.test(trimmed)) {
+        throw new ExplorerError('The explorer URL has to start with http:// or https://')
+    }
+    if (!trimmed.includes('{value}')) {
+        throw new ExplorerError('The explorer URL needs a {value} placeholder')
+    }
+
+    const fill = (kind: ExplorerLinkKind, value: string, cluster: Cluster) => trimmed
+        .replace(/\{kind\}/g, kind)
+        .replace(/\{value\}/g, value)
+        .replace(/\{cluster\}/g, cluster.name)
+        .replace(/\{rpc\}/g, encodeURIComponent(cluster.endpoint))
+
+    return {
+        id: 'self-hosted',
+        name: 'Self-hosted',
+        template: trimmed,
+        tx: (signature, cluster) => fill('tx', signature, cluster),
+        address: (address, cluster) => fill('address', address, cluster),
+        block: (slot, cluster) => fill('block', slot, cluster),
+        token: (mint, cluster) => fill('token', mint, cluster),
+    }
+};
+
+/**
+ * `explorerHref` builds the URL of a link.
+ * @param explorer - The explorer to open.
+ * @param cluster - The cluster the link's target is on.
+ * @param link - What to link to.
+ */
+export const explorerHref = (explorer: Explorer, cluster: Cluster, { kind, target }: ExplorerLink): string =>
+    explorer[kind](`${target}`, cluster);
+
+/**
+ * `serializeExplorer` turns an explorer into a string for the browser's storage.
+ * @param explorer - The preferred explorer.
+ */
+export const serializeExplorer = (explorer: Explorer): string =>
+    JSON.stringify(explorer.id === 'self-hosted' ? { id: explorer.id, template: explorer.template } : { id: explorer.id });
+
+/**
+ * `deserializeExplorer` reads back what `serializeExplorer` stored.
+ * @param stored - The stored string, or `null` if nothing was stored.
+ * @returns The stored explorer, or the default one if nothing valid was stored.
+ */
+export const deserializeExplorer = (stored: string | null): Explorer => {
+    if (!stored) { return DEFAULT_EXPLORER }
+    try {
+        const { id, template } = JSON.parse(stored)
+        return id === 'self-hosted' ? selfHostedExplorer(template) : EXPLORERS.find(explorer => explorer.id === id) ?? DEFAULT_EXPLORER
+    } catch (error) {
+        return DEFAULT_EXPLORER
+    }
+};
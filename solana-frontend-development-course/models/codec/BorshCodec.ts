@@ -0,0 +1,230 @@
+import * as borsh from '@project-serum/borsh'
+import * as web3 from '@solana/web3.js'
+
+/*
+    Field Descriptors: A schema is declared once as a list of fields. Every field
+    carries the borsh layout used to encode/decode it and a `sizeOf` function that
+    knows how many bytes a given value occupies once serialized.
+
+    Exact Sizing: Because every field knows its own size, the codec can allocate a
+    buffer of exactly the right length before encoding, instead of guessing with
+    something like `Buffer.alloc(1000)` and slicing the unused bytes off afterwards.
+
+    Instructions vs Accounts: Instruction data is always prefixed with a `u8` variant
+    that tells the program which instruction to run, so `encodeInstruction` takes the
+    variant separately from the data. Variants that send fewer or other fields can
+    list them under `variants`; every other variant uses the `instruction` fields. Account
+    data is decoded with its own schema. The reverse directions (`decodeInstruction` and
+    `encodeAccount`) are what a program does, and are used by the mock programs in `mock/`.
+
+    Typed Fields: A field is named after the key it reads, and a schema only accepts
+    fields whose name is a key of the data and that can encode every value of that
+    key, so a typo or a mismatched field is a compile error rather than a wrong
+    buffer. When the data is a union, one type per variant, each field has to fit
+    one of them.
+
+    Offsets: `accountOffset` finds where a field starts in account data, for
+    `memcmp` filters and `dataSlice` requests. It only works while every field
+    before it has a fixed size, which is checked.
+
+    Errors: Encoding and decoding failures are rethrown as `BorshEncodeError` and
+    `BorshDecodeError` so callers can tell bad data apart from other failures.
+*/
+
+// a field that stores the `V` found under the key `K`
+export interface BorshField<K extends string, V> {
+    name: K;
+    layout: borsh.Layout<V>;
+    sizeOf: (value: V) => number;
+};
+
+// a field that can encode every value found under one of the keys of `T`
+export type BorshFieldOf<T> = T extends unknown ? {
+    [K in keyof T & string]-?: { name: K; layout: borsh.Layout<unknown>; sizeOf: (value: T[K]) => number }
+}[keyof T & string] : never;
+
+const fixed = <K extends string, V>(layout: borsh.Layout<V>, name: K): BorshField<K, V> => ({
+    name,
+    layout,
+    sizeOf: () => layout.span,
+});
+
+const sizeOfField = <T, K extends keyof T & string>(field: { name: K; sizeOf: (value: T[K]) => number }, data: T): number =>
+    field.sizeOf(data[field.name]);
+
+// number of bytes the fields of `data` occupy once encoded
+const sizeOfFields = <T>(fields: BorshFieldOf<T>[], data: T): number =>
+    fields.reduce((size, field) => size + sizeOfField(field, data), 0);
+
+// the field types used by the programs in this repo
+export const field = {
+    u8: <K extends string>(name: K): BorshField<K, number> => fixed(borsh.u8(name), name),
+    u16: <K extends string>(name: K): BorshField<K, number> => fixed(borsh.u16(name), name),
+    u32: <K extends string>(name: K): BorshField<K, number> => fixed(borsh.u32(name), name),
+    bool: <K extends string>(name: K): BorshField<K, boolean> => fixed(borsh.bool(name), name),
+    publicKey: <K extends string>(name: K): BorshField<K, web3.PublicKey> => fixed(borsh.publicKey(name), name),
+    // borsh strings are a `u32` byte length followed by the utf-8 bytes
+    str: <K extends string>(name: K): BorshField<K, string> => ({
+        name,
+        layout: borsh.str(name),
+        sizeOf: (value: string) => 4 + Buffer.byteLength(value, 'utf8'),
+    }),
+    // borsh options are a `u8` tag (0 for none, 1 for some) followed by the value when there is one;
+    // a missing value is written as none too
+    option: <K extends string, V>(inner: BorshField<K, V>): BorshField<K, V | null | undefined> => ({
+        name: inner.name,
+        layout: borsh.option(inner.layout, inner.name),
+        sizeOf: (value: V | null | undefined) => value === null || value === undefined ? 1 : 1 + inner.sizeOf(value),
+    }),
+    // nested structs are their fields back to back, without any prefix
+    struct: <K extends string, T>(name: K, fields: BorshFieldOf<T>[]): BorshField<K, T> => ({
+        name,
+        layout: borsh.struct<T>(fields.map(({ layout }) => layout), name),
+        sizeOf: (value: T) => sizeOfFields(fields, value),
+    }),
+};
+
+export interface BorshSchema<TInstruction, TAccount> {
+    instruction: BorshFieldOf<TInstruction>[];
+    variants?: { [variant: number]: BorshFieldOf<TInstruction>[] };
+    account: BorshFieldOf<TAccount>[];
+};
+
+export class BorshEncodeError extends Error {
+    readonly reason: unknown;
+
+    constructor(message: string, reason?: unknown) {
+        super(message);
+        // restore the prototype chain, which is lost when extending `Error` under an es5 target
+        Object.setPrototypeOf(this, BorshEncodeError.prototype);
+        this.name = 'BorshEncodeError';
+        this.reason = reason;
+    };
+};
+
+export class BorshDecodeError extends Error {
+    readonly reason: unknown;
+    readonly length: number;
+
+    constructor(message: string, length: number, reason?: unknown) {
+        super(message);
+        Object.setPrototypeOf(this, BorshDecodeError.prototype);
+        this.name = 'BorshDecodeError';
+        this.length = length;
+        this.reason = reason;
+    };
+};
+
+export class BorshCodec<TInstruction extends object, TAccount extends object> {
+    private readonly schema: BorshSchema<TInstruction, TAccount>;
+    private readonly accountLayout: borsh.Layout<TAccount>;
+
+    constructor(schema: BorshSchema<TInstruction, TAccount>) {
+        this.schema = schema;
+        this.accountLayout = borsh.struct(schema.account.map(({ layout }) => layout));
+    };
+
+    // the fields sent by an instruction variant, not counting the variant byte
+    private instructionFields(variant: number): BorshFieldOf<TInstruction>[] {
+        return this.schema.variants?.[variant] ?? this.schema.instruction;
+    };
+
+    // number of bytes `data` occupies once encoded, including the variant byte
+    instructionSize(variant: number, data: TInstruction): number {
+        return 1 + sizeOfFields(this.instructionFields(variant), data);
+    };
+
+    // serialize instruction data when we send it to the blockchain
+    encodeInstruction(variant: number, data: TInstruction): Buffer {
+        try {
+            const layout = borsh.struct([
+                borsh.u8('variant'),
+                ...this.instructionFields(variant).map(({ layout }) => layout),
+            ]);
+            const buffer = Buffer.alloc(this.instructionSize(variant, data));
+            layout.encode({ ...data, variant }, buffer);
+            return buffer;
+        } catch (error) {
+            throw new BorshEncodeError(`Failed to encode instruction variant ${variant}`, error);
+        }
+    };
+
+    // deserialize instruction data the way the program reads it, variant byte first
+    decodeInstruction(buffer: Buffer): { variant: number, data: TInstruction } {
+        if (buffer.length === 0) {
+            throw new BorshDecodeError('Instruction data is empty', 0);
+        }
+
+        const variant = buffer[0];
+        const layout = borsh.struct<TInstruction>(this.instructionFields(variant).map(({ layout }) => layout));
+
+        let span: number;
+        try {
+            span = layout.getSpan(buffer, 1);
+        } catch (error) {
+            throw new BorshDecodeError(`Failed to read the layout of instruction variant ${variant}`, buffer.length, error);
+        }
+        if (1 + span > buffer.length) {
+            throw new BorshDecodeError(`Instruction variant ${variant} needs ${1 + span} bytes but only ${buffer.length} were provided`, buffer.length);
+        }
+
+        try {
+            return { variant, data: layout.decode(buffer, 1) };
+        } catch (error) {
+            throw new BorshDecodeError(`Failed to decode instruction variant ${variant}`, buffer.length, error);
+        }
+    };
+
+    // serialize account data the way the program stores it, zero-padded to `size` when the account is larger
+    encodeAccount(data: TAccount, size?: number): Buffer {
+        const length = sizeOfFields(this.schema.account, data);
+        if (size !== undefined && length > size) {
+            throw new BorshEncodeError(`Account data needs ${length} bytes but the account only holds ${size}`);
+        }
+
+        try {
+            const buffer = Buffer.alloc(size ?? length);
+            this.accountLayout.encode(data, buffer);
+            return buffer;
+        } catch (error) {
+            throw new BorshEncodeError('Failed to encode account data', error);
+        }
+    };
+
+    // byte offset of an account field, so filters and slices stay in line with the layout
+    accountOffset(name: keyof TAccount & string): number {
+        let offset = 0;
+        for (const { name: fieldName, layout } of this.schema.account) {
+            if (fieldName === name) {
+                return offset;
+            }
+            // variable-length fields (like strings) have a negative span
+            if (layout.span < 0) {
+                throw new Error(`Offset of '${name}' depends on the length of '${fieldName}'`);
+            }
+            offset += layout.span;
+        }
+        throw new Error(`Account layout has no field '${name}'`);
+    };
+
+    // deserialize account data when we retrieve it from the blockchain
+    decodeAccount(buffer: Buffer): TAccount {
+        let span: number;
+        try {
+            span = this.accountLayout.getSpan(buffer);
+        } catch (error) {
+            throw new BorshDecodeError(`Failed to read the layout of ${buffer.length} bytes of account data`, buffer.length, error);
+        }
+
+        // a string length pointing past the end of the buffer means the data is truncated or not ours
+        if (span > buffer.length) {
+            throw new BorshDecodeError(`Account data needs ${span} bytes but only ${buffer.length} were provided`, buffer.length);
+        }
+
+        try {
+            return this.accountLayout.decode(buffer);
+        } catch (error) {
+            throw new BorshDecodeError(`Failed to decode ${buffer.length} bytes of account data`, buffer.length, error);
+        }
+    };
+};
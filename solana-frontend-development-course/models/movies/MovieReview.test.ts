@@ -0,0 +1,91 @@
+import * as fc from 'fast-check'
+
+import { BorshDecodeError, BorshEncodeError } from '../codec/BorshCodec'
+import { MovieReview, MovieReviewCodec, MovieReviewVariant } from './MovieReview'
+import golden from './__fixtures__/MovieReview.json'
+
+const text = fc.string({ unit: 'grapheme', maxLength: 200 })
+const review = fc.record({ title: text, rating: fc.integer({ min: 0, max: 255 }), description: text })
+
+describe('MovieReviewCodec', () => {
+    it('decodes every Add and Update instruction it encodes', () => {
+        const variant = fc.constantFrom(MovieReviewVariant.Add, MovieReviewVariant.Update)
+        fc.assert(fc.property(variant, review, (variant, data) => {
+            const buffer = MovieReviewCodec.encodeInstruction(variant, data)
+            expect(buffer.length).toBe(MovieReviewCodec.instructionSize(variant, data))
+            expect(MovieReviewCodec.decodeInstruction(buffer)).toEqual({ variant, data })
+        }))
+    })
+
+    it('only sends the title to close a review', () => {
+        fc.assert(fc.property(review, data => {
+            const buffer = MovieReviewCodec.encodeInstruction(MovieReviewVariant.Close, data)
+            expect(buffer.length).toBe(MovieReviewCodec.instructionSize(MovieReviewVariant.Close, data))
+            expect(MovieReviewCodec.decodeInstruction(buffer)).toEqual({ variant: MovieReviewVariant.Close, data: { title: data.title } })
+        }))
+    })
+
+    it('decodes every account it encodes, padded or not', () => {
+        fc.assert(fc.property(review, fc.boolean(), fc.nat(100), (fields, initialized, padding) => {
+            const data = { initialized, ...fields }
+            const exact = MovieReviewCodec.encodeAccount(data)
+            const padded = MovieReviewCodec.encodeAccount(data, exact.length + padding)
+            expect(MovieReviewCodec.decodeAccount(exact)).toEqual(data)
+            expect(MovieReviewCodec.decodeAccount(padded)).toEqual(data)
+        }))
+    })
+
+    it('rejects truncated instructions and accounts', () => {
+        fc.assert(fc.property(review, fc.double({ min: 0, max: 1, maxExcluded: true, noNaN: true }), (data, cut) => {
+            const instruction = MovieReviewCodec.encodeInstruction(MovieReviewVariant.Add, data)
+            const account = MovieReviewCodec.encodeAccount({ initialized: true, ...data })
+            expect(() => MovieReviewCodec.decodeInstruction(instruction.slice(0, Math.floor(cut * instruction.length))))
+                .toThrow(BorshDecodeError)
+            expect(() => MovieReviewCodec.decodeAccount(account.slice(0, Math.floor(cut * account.length))))
+                .toThrow(BorshDecodeError)
+        }))
+    })
+
+    it('refuses to encode a rating that does not fit in a byte', () => {
+        const rating = fc.oneof(fc.integer({ max: -1 }), fc.integer({ min: 256 }))
+        fc.assert(fc.property(review, rating, (data, rating) => {
+            expect(() => MovieReviewCodec.encodeInstruction(MovieReviewVariant.Add, { ...data, rating }))
+                .toThrow(BorshEncodeError)
+        }))
+    })
+
+    it.each(golden.instructions)('matches the golden bytes of the $variant instruction', ({ variant, data, hex }) => {
+        const value = MovieReviewVariant[variant as keyof typeof MovieReviewVariant]
+        // closing only reads the title, the other fields are left out of the fixture
+        const encoded = MovieReviewCodec.encodeInstruction(value, { rating: 0, description: '', ...data })
+        expect(encoded.toString('hex')).toBe(hex)
+        expect(MovieReviewCodec.decodeInstruction(Buffer.from(hex, 'hex'))).toEqual({ variant: value, data })
+    })
+
+    it('matches the golden bytes of the account', () => {
+        const { data, hex } = golden.account
+        expect(MovieReviewCodec.encodeAccount(data).toString('hex')).toBe(hex)
+        expect(MovieReviewCodec.decodeAccount(Buffer.from(hex, 'hex'))).toEqual(data)
+    })
+})
+
+describe('MovieReview', () => {
+    afterEach(() => jest.restoreAllMocks())
+
+    it('reads back the reviews it serializes', () => {
+        fc.assert(fc.property(review, ({ title, rating, description }) => {
+            const account = MovieReviewCodec.encodeAccount({ initialized: true, rating, title, description }, 1000)
+            expect(MovieReview.deserialize(account)).toEqual(new MovieReview(title, rating, description))
+        }))
+    })
+
+    it('returns null instead of throwing for data that is not a review', () => {
+        // every rejected buffer is logged
+        jest.spyOn(console, 'log').mockImplementation(() => {})
+        fc.assert(fc.property(fc.uint8Array({ maxLength: 64 }), bytes => {
+            const decoded = MovieReview.deserialize(Buffer.from(bytes))
+            expect(decoded === null || decoded instanceof MovieReview).toBe(true)
+        }))
+        expect(MovieReview.deserialize(undefined)).toBeNull()
+    })
+})
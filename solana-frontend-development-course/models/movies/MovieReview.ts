@@ -0,0 +1,123 @@
+import { BorshCodec, BorshDecodeError, field } from '../codec/BorshCodec'
+
+/*
+    Class Structure: A movie review has a title, a rating out of 5 and a description.
+
+    Borsh Codec: The instruction layout sends the title before the rating, while
+    the account the program stores puts the `initialized` flag and the rating first.
+    Both layouts are declared once in `MovieReviewCodec`. Closing a review only
+    sends its title.
+
+    Validation: The review is stored at a PDA seeded with the author and the title,
+    and the program allocates a fixed-size account for it. `validate` checks the
+    review fits both limits before anything is sent.
+*/
+
+export enum MovieReviewVariant {
+    Add = 0,
+    Update = 1,
+    Close = 2,
+};
+
+// bytes the program allocates for every review account
+export const MOVIE_REVIEW_ACCOUNT_SIZE = 1000;
+// a single PDA seed can't be longer than this, and the title is one of the seeds
+export const MAX_TITLE_BYTES = 32;
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+
+interface MovieReviewInstruction {
+    title: string;
+    rating: number;
+    description: string;
+};
+
+interface MovieReviewAccount {
+    initialized: boolean;
+    rating: number;
+    title: string;
+    description: string;
+};
+
+export const MovieReviewCodec = new BorshCodec<MovieReviewInstruction, MovieReviewAccount>({
+    instruction: [
+        field.str('title'),
+        field.u8('rating'),
+        field.str('description'),
+    ],
+    variants: {
+        [MovieReviewVariant.Close]: [
+            field.str('title'),
+        ],
+    },
+    account: [
+        field.bool('initialized'),
+        field.u8('rating'),
+        field.str('title'),
+        field.str('description'),
+    ],
+});
+
+export class MovieReview {
+    title: string;
+    rating: number;
+    description: string;
+
+    constructor(title: string, rating: number, description: string) {
+        this.title = title;
+        this.rating = rating;
+        this.description = description;
+    };
+
+    // bytes the review takes up in its account: `initialized`, `rating` and the two borsh strings
+    get accountSize(): number {
+        return 1 + 1 + 4 + Buffer.byteLength(this.title, 'utf8') + 4 + Buffer.byteLength(this.description, 'utf8');
+    };
+
+    // lists everything that would make the program reject this review; empty when it's valid
+    validate(): string[] {
+        const errors: string[] = [];
+
+        if (!Number.isInteger(this.rating) || this.rating < MIN_RATING || this.rating > MAX_RATING) {
+            errors.push(`Rating must be a whole number from ${MIN_RATING} to ${MAX_RATING}`);
+        }
+        if (this.title.length === 0) {
+            errors.push('Title is required');
+        }
+        if (Buffer.byteLength(this.title, 'utf8') > MAX_TITLE_BYTES) {
+            errors.push(`Title can't be longer than ${MAX_TITLE_BYTES} bytes`);
+        }
+        if (this.accountSize > MOVIE_REVIEW_ACCOUNT_SIZE) {
+            errors.push(`Review is ${this.accountSize - MOVIE_REVIEW_ACCOUNT_SIZE} bytes too long, shorten the description`);
+        }
+
+        return errors;
+    };
+
+    // serialize info when we send it to the blockchain
+    serialize(variant: MovieReviewVariant = MovieReviewVariant.Add): Buffer {
+        return MovieReviewCodec.encodeInstruction(variant, {
+            title: this.title,
+            rating: this.rating,
+            description: this.description,
+        });
+    };
+
+    // deserialize info when we retrieve it from the blockchain
+    static deserialize(buffer?: Buffer): MovieReview | null {
+        if (!buffer) {
+            return null;
+        }
+
+        try {
+            const { title, rating, description } = MovieReviewCodec.decodeAccount(buffer);
+            return new MovieReview(title, rating, description);
+        } catch (error) {
+            if (!(error instanceof BorshDecodeError)) {
+                throw error;
+            }
+            console.log('Deserialization error:', error);
+            return null;
+        }
+    };
+};
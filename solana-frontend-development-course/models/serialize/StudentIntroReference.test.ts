@@ -0,0 +1,81 @@
+import * as fc from 'fast-check'
+
+import { BorshDecodeError, BorshEncodeError } from '../codec/BorshCodec'
+import { StudentIntroCodec, StudentIntroReference, StudentIntroVariant } from './StudentIntroReference'
+import golden from './__fixtures__/StudentIntroReference.json'
+
+const text = fc.string({ unit: 'grapheme', maxLength: 200 })
+const intro = fc.record({ name: text, message: text })
+const variant = fc.constantFrom(StudentIntroVariant.Create, StudentIntroVariant.Update)
+
+describe('StudentIntroCodec', () => {
+    it('decodes every instruction it encodes', () => {
+        fc.assert(fc.property(variant, intro, (variant, data) => {
+            const buffer = StudentIntroCodec.encodeInstruction(variant, data)
+            expect(buffer.length).toBe(StudentIntroCodec.instructionSize(variant, data))
+            expect(StudentIntroCodec.decodeInstruction(buffer)).toEqual({ variant, data })
+        }))
+    })
+
+    it('decodes every account it encodes, padded or not', () => {
+        fc.assert(fc.property(intro, fc.nat(100), ({ name, message }, padding) => {
+            const data = { initialized: 1, name, message }
+            const exact = StudentIntroCodec.encodeAccount(data)
+            const padded = StudentIntroCodec.encodeAccount(data, exact.length + padding)
+            expect(StudentIntroCodec.decodeAccount(exact)).toEqual(data)
+            expect(StudentIntroCodec.decodeAccount(padded)).toEqual(data)
+        }))
+    })
+
+    it('rejects truncated instructions and accounts', () => {
+        fc.assert(fc.property(intro, fc.double({ min: 0, max: 1, maxExcluded: true, noNaN: true }), (data, cut) => {
+            const instruction = StudentIntroCodec.encodeInstruction(StudentIntroVariant.Create, data)
+            const account = StudentIntroCodec.encodeAccount({ initialized: 1, ...data })
+            expect(() => StudentIntroCodec.decodeInstruction(instruction.slice(0, Math.floor(cut * instruction.length))))
+                .toThrow(BorshDecodeError)
+            expect(() => StudentIntroCodec.decodeAccount(account.slice(0, Math.floor(cut * account.length))))
+                .toThrow(BorshDecodeError)
+        }))
+    })
+
+    it('refuses to encode an account larger than its size', () => {
+        fc.assert(fc.property(intro, ({ name, message }) => {
+            const data = { initialized: 1, name, message }
+            const length = StudentIntroCodec.encodeAccount(data).length
+            expect(() => StudentIntroCodec.encodeAccount(data, length - 1)).toThrow(BorshEncodeError)
+        }))
+    })
+
+    it.each(golden.instructions)('matches the golden bytes of the $variant instruction', ({ variant, data, hex }) => {
+        const value = StudentIntroVariant[variant as keyof typeof StudentIntroVariant]
+        expect(StudentIntroCodec.encodeInstruction(value, data).toString('hex')).toBe(hex)
+        expect(StudentIntroCodec.decodeInstruction(Buffer.from(hex, 'hex'))).toEqual({ variant: value, data })
+    })
+
+    it('matches the golden bytes of the account', () => {
+        const { data, hex } = golden.account
+        expect(StudentIntroCodec.encodeAccount(data).toString('hex')).toBe(hex)
+        expect(StudentIntroCodec.decodeAccount(Buffer.from(hex, 'hex'))).toEqual(data)
+    })
+})
+
+describe('StudentIntroReference', () => {
+    afterEach(() => jest.restoreAllMocks())
+
+    it('reads back the intros it serializes', () => {
+        fc.assert(fc.property(intro, ({ name, message }) => {
+            const account = StudentIntroCodec.encodeAccount({ initialized: 1, name, message }, 1000)
+            expect(StudentIntroReference.deserialize(account)).toEqual(new StudentIntroReference(name, message))
+        }))
+    })
+
+    it('returns null instead of throwing for data that is not an intro', () => {
+        // every rejected buffer is logged
+        jest.spyOn(console, 'log').mockImplementation(() => {})
+        fc.assert(fc.property(fc.uint8Array({ maxLength: 64 }), bytes => {
+            const decoded = StudentIntroReference.deserialize(Buffer.from(bytes))
+            expect(decoded === null || decoded instanceof StudentIntroReference).toBe(true)
+        }))
+        expect(StudentIntroReference.deserialize(undefined)).toBeNull()
+    })
+})
@@ -1,20 +1,51 @@
-import * as borsh from '@project-serum/borsh'
+import { BorshCodec, BorshDecodeError, field } from '../codec/BorshCodec'
 
 /*
-    Class Structure: It includes two properties, name and message, 
+    Class Structure: It includes two properties, name and message,
     which are strings. The constructor initializes these properties.
 
-    Borsh Schemas: Two Borsh schemas are defined - one for instructions 
-    (borshInstructionSchema) and one for accounts (borshAccountSchema). These schemas 
-    specify the data structure for serialization/deserialization.
+    Borsh Codec: The instruction and account layouts are declared once in
+    `StudentIntroCodec`. The instruction layout is prefixed with a `u8` variant
+    by the codec, and the account layout starts with an `initialized` flag.
 
-    Serialization: The serialize method converts the instance data into a 
-    binary format (buffer) that can be sent to the blockchain. It uses the borshInstructionSchema.
+    Serialization: The serialize method converts the instance data into a
+    binary format (buffer) that can be sent to the blockchain. The buffer is
+    sized exactly to the encoded data. The variant picks the instruction the
+    program runs: create a new intro, or update the one already stored at the
+    author's PDA.
 
-    Deserialization: The deserialize static method converts binary data from 
-    the blockchain back into an instance of StudentIntroReference. It uses the borshAccountSchema.
+    Deserialization: The deserialize static method converts binary data from
+    the blockchain back into an instance of StudentIntroReference.
 */
 
+export enum StudentIntroVariant {
+    Create = 0,
+    Update = 1,
+};
+
+interface StudentIntroInstruction {
+    name: string;
+    message: string;
+};
+
+interface StudentIntroAccount {
+    initialized: number;
+    name: string;
+    message: string;
+};
+
+export const StudentIntroCodec = new BorshCodec<StudentIntroInstruction, StudentIntroAccount>({
+    instruction: [
+        field.str('name'),
+        field.str('message'),
+    ],
+    account: [
+        field.u8('initialized'),
+        field.str('name'),
+        field.str('message'),
+    ],
+});
+
 export class StudentIntroReference {
     name: string;
     message: string;
@@ -24,23 +55,9 @@ export class StudentIntroReference {
         this.message = message;
     };
 
-    borshInstructionSchema = borsh.struct([
-        borsh.u8('variant'),
-        borsh.str('name'),
-        borsh.str('message')
-    ]);
-
-    static borshAccountSchema = borsh.struct([
-        borsh.u8('initialized'),
-        borsh.str('name'),
-        borsh.str('message'),
-    ]);
-
     // serialize info when we send it to the blockchain
-    serialize(): Buffer {
-        const buffer = Buffer.alloc(1000);
-        this.borshInstructionSchema.encode({ ...this, variant: 0 }, buffer);
-        return buffer.slice(0, this.borshInstructionSchema.getSpan(buffer));
+    serialize(variant: StudentIntroVariant = StudentIntroVariant.Create): Buffer {
+        return StudentIntroCodec.encodeInstruction(variant, { name: this.name, message: this.message });
     };
 
     // deserialize info when we retrieve it from the blockchain
@@ -50,11 +67,14 @@ export class StudentIntroReference {
         }
 
         try {
-            const { name, message } = this.borshAccountSchema.decode(buffer);
+            const { name, message } = StudentIntroCodec.decodeAccount(buffer);
             return new StudentIntroReference(name, message);
         } catch (error) {
+            if (!(error instanceof BorshDecodeError)) {
+                throw error;
+            }
             console.log('Deserialization error:', error);
             return null;
         }
     };
-};
\ No newline at end of file
+};
@@ -0,0 +1,100 @@
+import * as fc from 'fast-check'
+import * as token from '@solana/spl-token'
+import * as web3 from '@solana/web3.js'
+
+import { AirdropItem, packInstructions, parseAirdropCsv } from './Airdrop'
+
+const wallet = new web3.PublicKey(1)
+const source = new web3.PublicKey(2)
+// recipients start after the wallet and the source, so every one is a distinct account
+const recipient = (index: number) => new web3.PublicKey(index + 3)
+
+// one transfer per row, each to its own account
+const transfers = (count: number): AirdropItem[] => Array.from({ length: count }, (_, index) => ({
+    line: index + 1,
+    instructions: [token.createTransferInstruction(source, recipient(index), wallet, 1)],
+}))
+
+// the serialized size of a batch, measured the way it will be sent
+const size = (transaction: web3.Transaction, lookupTables: web3.AddressLookupTableAccount[] = []): number => {
+    const message = new web3.TransactionMessage({
+        payerKey: wallet,
+        recentBlockhash: web3.PublicKey.default.toBase58(),
+        instructions: transaction.instructions,
+    }).compileToV0Message(lookupTables)
+    return new web3.VersionedTransaction(message).serialize().length
+}
+
+describe('parseAirdropCsv', () => {
+    const address = recipient(0).toBase58()
+
+    it('skips a header and blank lines, and counts lines from 1', () => {
+        const rows = parseAirdropCsv(`address,amount\n\n${address},1.5\r\n"${address}", "2"\n`, 2)
+        expect(rows.map(({ line, raw, status }) => ({ line, raw, status }))).toEqual([
+            { line: 3, raw: BigInt(150), status: 'pending' },
+            { line: 4, raw: BigInt(200), status: 'pending' },
+        ])
+    })
+
+    it('marks bad rows invalid with the reason, and keeps the others', () => {
+        const rows = parseAirdropCsv(`${address},1\nnope,1\n${address},1,extra\n${address},0.001\n${address},lots`, 2)
+        expect(rows.map(({ status }) => status)).toEqual(['pending', 'invalid', 'invalid', 'invalid', 'invalid'])
+        expect(rows[1].error).toBe('\'nope\' is not a valid address')
+        expect(rows[2].error).toBe('Expected two columns, address and amount')
+        rows.slice(3).forEach(row => expect(row.error).toBeTruthy())
+    })
+
+    it('only takes the first row for a header when it doesn\'t hold a number', () => {
+        expect(parseAirdropCsv(`nope,1\n${address},1`, 0).map(({ status }) => status)).toEqual(['invalid', 'pending'])
+    })
+
+    it('reads back every amount it is given', () => {
+        const amount = fc.tuple(fc.bigUintN(40), fc.nat(999999)).map(([whole, fraction]) => `${whole}.${`${fraction}`.padStart(6, '0')}`)
+        fc.assert(fc.property(fc.array(amount, { minLength: 1, maxLength: 20 }), amounts => {
+            const rows = parseAirdropCsv(amounts.map(amount => `${address},${amount}`).join('\n'), 6)
+            expect(rows.map(({ raw }) => raw)).toEqual(amounts.map(amount => BigInt(amount.replace('.', ''))))
+        }))
+    })
+})
+
+describe('packInstructions', () => {
+    it('keeps every row, in order, in batches that fit in a packet', () => {
+        fc.assert(fc.property(fc.integer({ min: 0, max: 60 }), count => {
+            const batches = packInstructions(transfers(count), wallet)
+            expect(batches.flatMap(batch => batch.lines)).toEqual(transfers(count).map(item => item.line))
+            batches.forEach(batch => {
+                expect(size(batch.transaction)).toBeLessThanOrEqual(web3.PACKET_DATA_SIZE)
+                expect(batch.transaction.recentBlockhash).toBeUndefined()
+            })
+        }), { numRuns: 20 })
+    })
+
+    it('fills each batch before starting the next', () => {
+        const items = transfers(60)
+        const batches = packInstructions(items, wallet)
+        expect(batches.length).toBeGreaterThan(1)
+        batches.slice(0, -1).forEach((batch, index) => {
+            // the first row of the next batch would have pushed this one over the limit
+            const next = items[batches[index + 1].lines[0] - 1]
+            const overfull = new web3.Transaction().add(...batch.transaction.instructions, ...next.instructions)
+            expect(size(overfull)).toBeGreaterThan(web3.PACKET_DATA_SIZE)
+        })
+    })
+
+    it('fits more rows in each batch when lookup tables hold their accounts', () => {
+        const items = transfers(60)
+        const table = new web3.AddressLookupTableAccount({
+            key: new web3.PublicKey(1000),
+            state: {
+                deactivationSlot: BigInt('0xffffffffffffffff'),
+                lastExtendedSlot: 0,
+                lastExtendedSlotStartIndex: 0,
+                addresses: [source, ...items.map((_, index) => recipient(index))],
+            },
+        })
+
+        const withTable = packInstructions(items, wallet, [table])
+        expect(withTable.length).toBeLessThan(packInstructions(items, wallet).length)
+        withTable.forEach(batch => expect(size(batch.transaction, [table])).toBeLessThanOrEqual(web3.PACKET_DATA_SIZE))
+    })
+})
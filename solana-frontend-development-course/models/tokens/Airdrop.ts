@@ -0,0 +1,216 @@
+import * as web3 from '@solana/web3.js'
+
+import { parseTokenAmount, TokenAmountError } from './TokenAmount'
+
+/*
+    Airdrops: sends tokens to every row of a CSV list of `address,amount`.
+
+    1.  `parseAirdropCsv` reads the list and checks every address and amount, so
+        bad rows are reported before anything is sent.
+
+    2.  `packInstructions` fills each transaction with as many transfers as fit
+        in a packet. A transfer to a wallet without an associated token account
+        creates that account first, in the same transaction, so both succeed or
+        fail together. Given lookup tables holding the recipients, each v0
+        transaction fits many more of them.
+
+    3.  The rows that were sent are remembered in the browser's storage, under
+        the mint and the account the tokens come from. Running the same list
+        again, e.g. after a failure or a reload, skips them.
+*/
+
+export type AirdropStatus = 'invalid' | 'pending' | 'sending' | 'done' | 'failed';
+
+export interface AirdropRow {
+    // the line of the CSV, counted from 1
+    line: number;
+    address: string;
+    amount: string;
+    recipient: web3.PublicKey | null;
+    // the amount in the mint's smallest unit
+    raw: bigint | null;
+    status: AirdropStatus;
+    // why the row is invalid or failed
+    error: string | null;
+    signature: string | null;
+};
+
+// splits a CSV line into cells, unquoting the cells that are quoted
+const splitCsvLine = (line: string): string[] => {
+    const cells: string[] = []
+    let cell = ''
+    let quoted = false
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i]
+        if (quoted && char === '"' && line[i + 1] === '"') {
+            cell += '"'
+            i++
+        } else if (char === '"') {
+            quoted = !quoted
+        } else if (char === ',' && !quoted) {
+            cells.push(cell.trim())
+            cell = ''
+        } else {
+            cell += char
+        }
+    }
+    cells.push(cell.trim())
+    return cells
+};
+
+const parseAddress = (address: string): web3.PublicKey | null => {
+    try {
+        return new web3.PublicKey(address)
+    } catch (error) {
+        return null
+    }
+};
+
+/**
+ * `parseAirdropCsv` reads a list of recipients, one `address,amount` row per line.
+ * A first row whose address cell isn't an address, such as `address,amount`, is a header and skipped.
+ * @param text - The CSV as typed or uploaded.
+ * @param decimals - The decimals of the mint, which the amounts may not exceed.
+ * @returns One row per non-empty line, `invalid` ones with the reason.
+ */
+export const parseAirdropCsv = (text: string, decimals: number): AirdropRow[] => {
+    const rows: AirdropRow[] = []
+    text.split(/\r?\n/).forEach((line, index) => {
+        if (!line.trim()) { return }
+
+        const [address = '', amount = '', ...rest] = splitCsvLine(line)
+        const recipient = parseAddress(address)
+        // a header names its columns instead of holding an address and a number
+        if (rows.length === 0 && !recipient && Number.isNaN(Number(amount))) { return }
+
+        let raw: bigint | null = null
+        let error: string | null = null
+        if (!recipient) {
+            error = `'${address}' is not a valid address`
+        } else if (rest.some(cell => cell.length > 0)) {
+            error = 'Expected two columns, address and amount'
+        } else {
+            try {
+                raw = parseTokenAmount(amount, decimals)
+            } catch (amountError) {
+                error = amountError instanceof TokenAmountError ? amountError.message : `'${amount}' is not an amount`
+            }
+        }
+
+        rows.push({
+            line: index + 1,
+            address,
+            amount,
+            recipient,
+            raw,
+            status: error ? 'invalid' : 'pending',
+            error,
+            signature: null,
+        })
+    })
+    return rows
+};
+
+// the instructions that pay one row, which have to land in the same transaction
+export interface AirdropItem {
+    line: number;
+    instructions: web3.TransactionInstruction[];
+};
+
+export interface AirdropBatch {
+    lines: number[];
+    transaction: web3.Transaction;
+};
+
+// serializing is the only exact way to measure a transaction; it throws once the packet limit is passed.
+// Without lookup tables a v0 transaction is two bytes larger than a legacy one, so one that fits goes out as either.
+const fitsInPacket = (transaction: web3.Transaction, lookupTables: web3.AddressLookupTableAccount[]): boolean => {
+    try {
+        const message = new web3.TransactionMessage({
+            payerKey: transaction.feePayer!,
+            recentBlockhash: transaction.recentBlockhash!,
+            instructions: transaction.instructions,
+        }).compileToV0Message(lookupTables)
+        return new web3.VersionedTransaction(message).serialize().length <= web3.PACKET_DATA_SIZE
+    } catch (error) {
+        return false
+    }
+};
+
+/**
+ * `packInstructions` packs rows into as few transactions as fit, keeping their order.
+ * @param items - The instructions of each row.
+ * @param feePayer - Pays for the transactions, and counts towards their size as a signer.
+ * @param lookupTables - The tables the transactions will be sent with, which shrink the accounts they hold.
+ * @returns Transactions without a blockhash; set one just before signing.
+ */
+export const packInstructions = (
+    items: AirdropItem[],
+    feePayer: web3.PublicKey,
+    lookupTables: web3.AddressLookupTableAccount[] = []
+): AirdropBatch[] => {
+    const batches: AirdropBatch[] = []
+    // any blockhash has the same size, the real one is set when the batch is sent
+    const placeholderBlockhash = web3.PublicKey.default.toBase58()
+    const newTransaction = () => {
+        const transaction = new web3.Transaction()
+        transaction.feePayer = feePayer
+        transaction.recentBlockhash = placeholderBlockhash
+        return transaction
+    }
+
+    let current: AirdropBatch = { lines: [], transaction: newTransaction() }
+    items.forEach(item => {
+        const candidate = newTransaction().add(...current.transaction.instructions, ...item.instructions)
+        if (current.lines.length > 0 && !fitsInPacket(candidate, lookupTables)) {
+            batches.push(current)
+            current = { lines: [item.line], transaction: newTransaction().add(...item.instructions) }
+        } else {
+            current = { lines: [...current.lines, item.line], transaction: candidate }
+        }
+    })
+    if (current.lines.length > 0) {
+        batches.push(current)
+    }
+    batches.forEach(batch => { batch.transaction.recentBlockhash = undefined })
+    return batches
+};
+
+/*
+    Progress: the signature of every row sent, by row, so a resumed run can skip them.
+    A row is known by its line, address and amount, so editing a row sends it again.
+    Progress is kept per RPC endpoint, since a signature from one cluster says nothing
+    about another.
+*/
+
+const PROGRESS_KEY_PREFIX = 'token-airdrop'
+
+const progressKey = (endpoint: string, mint: web3.PublicKey, source: web3.PublicKey) =>
+    `${PROGRESS_KEY_PREFIX}:${endpoint}:${mint.toBase58()}:${source.toBase58()}`;
+
+export const rowKey = (row: AirdropRow): string => `${row.line}:${row.address}:${row.amount}`;
+
+/**
+ * `loadAirdropProgress` reads the signatures of the rows already sent from a mint's source account.
+ * @param storage - Where progress is kept, e.g. `window.localStorage`.
+ * @param endpoint - The RPC endpoint the rows were sent to.
+ * @param mint - The mint being sent.
+ * @param source - The token account the tokens come from.
+ */
+export const loadAirdropProgress = (storage: Storage, endpoint: string, mint: web3.PublicKey, source: web3.PublicKey): { [key: string]: string } => {
+    try {
+        return JSON.parse(storage.getItem(progressKey(endpoint, mint, source)) ?? '{}')
+    } catch (error) {
+        return {}
+    }
+};
+
+// remembers rows that were sent, next to the ones remembered before
+export const saveAirdropProgress = (storage: Storage, endpoint: string, mint: web3.PublicKey, source: web3.PublicKey, rows: AirdropRow[]) => {
+    const progress = loadAirdropProgress(storage, endpoint, mint, source)
+    rows.forEach(row => { if (row.signature) { progress[rowKey(row)] = row.signature } })
+    storage.setItem(progressKey(endpoint, mint, source), JSON.stringify(progress))
+};
+
+export const clearAirdropProgress = (storage: Storage, endpoint: string, mint: web3.PublicKey, source: web3.PublicKey) =>
+    storage.removeItem(progressKey(endpoint, mint, source));
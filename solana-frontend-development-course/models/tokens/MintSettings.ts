@@ -0,0 +1,157 @@
+import * as web3 from '@solana/web3.js'
+
+import { MintExtensionConfig } from './TokenExtensions'
+import { DEFAULT_TOKEN_PROGRAM, TokenProgram } from './TokenProgram'
+import { parseTokenAmount, TokenAmountError } from './TokenAmount'
+
+/*
+    The settings a Token Mint is created with. They can't be changed afterwards,
+    except for handing the authorities to someone else.
+
+    Decimals: how many decimal places the token is divided into. A mint with 6
+    decimals counts amounts in millionths, like USDC.
+
+    Mint Authority: the only account allowed to mint new tokens. Left empty, the
+    connected wallet becomes the mint authority.
+
+    Freeze Authority: the account allowed to freeze token accounts of this mint.
+    Left empty, the mint has no freeze authority and accounts can never be frozen.
+
+    Extensions: Token-2022 mints can also be created with extensions. A transfer
+    fee keeps a share of every transfer, an interest rate makes balances grow in
+    wallets, non-transferable tokens can't be moved once minted, and a metadata
+    pointer tells wallets where the token's name and logo are. The mint authority
+    is also the authority of every extension. Mints of the original token program
+    ignore these settings.
+
+    Authorities are kept as typed, so the form can show what's wrong with them.
+    `resolveMintSettings` turns valid settings into the keys the token program needs.
+*/
+
+// amounts are u64s, so at 9 decimals there is still room for ~18 billion whole tokens; wallets expect no more
+export const MAX_DECIMALS = 9
+
+// transfer fees are basis points of the transferred amount, so 10000 takes all of it
+export const MAX_TRANSFER_FEE_BASIS_POINTS = 10000
+// interest rates are stored as an `i16` of basis points per year
+export const MIN_INTEREST_RATE = -32768
+export const MAX_INTEREST_RATE = 32767
+
+export interface MintExtensionSettings {
+    transferFee: boolean;
+    transferFeeBasisPoints: number;
+    // in whole tokens, like every amount typed into the page
+    maximumFee: string;
+    interestBearing: boolean;
+    interestRate: number;
+    nonTransferable: boolean;
+    metadataPointer: boolean;
+    // left empty, the pointer points at the mint itself
+    metadataAddress: string;
+};
+
+export interface MintSettings {
+    decimals: number;
+    mintAuthority: string;
+    freezeAuthority: string;
+    extensions: MintExtensionSettings;
+};
+
+// the settings mints were always created with: whole tokens, minted by the wallet, never frozen, no extensions
+export const DEFAULT_MINT_SETTINGS: MintSettings = {
+    decimals: 0,
+    mintAuthority: '',
+    freezeAuthority: '',
+    extensions: {
+        transferFee: false,
+        transferFeeBasisPoints: 50,
+        maximumFee: '',
+        interestBearing: false,
+        interestRate: 500,
+        nonTransferable: false,
+        metadataPointer: false,
+        metadataAddress: '',
+    },
+};
+
+const isPublicKey = (value: string): boolean => {
+    try {
+        new web3.PublicKey(value)
+        return true
+    } catch (error) {
+        return false
+    }
+};
+
+const validateExtensionSettings = (extensions: MintExtensionSettings, decimals: number): string[] => {
+    const errors: string[] = []
+
+    if (extensions.transferFee) {
+        const basisPoints = extensions.transferFeeBasisPoints
+        if (!Number.isInteger(basisPoints) || basisPoints < 0 || basisPoints > MAX_TRANSFER_FEE_BASIS_POINTS) {
+            errors.push(`Transfer fee must be a whole number of basis points from 0 to ${MAX_TRANSFER_FEE_BASIS_POINTS}`)
+        }
+        try {
+            parseTokenAmount(extensions.maximumFee, decimals)
+        } catch (error) {
+            if (!(error instanceof TokenAmountError)) { throw error }
+            errors.push(`Maximum fee: ${error.message}`)
+        }
+    }
+    if (extensions.interestBearing) {
+        const rate = extensions.interestRate
+        if (!Number.isInteger(rate) || rate < MIN_INTEREST_RATE || rate > MAX_INTEREST_RATE) {
+            errors.push(`Interest rate must be a whole number of basis points from ${MIN_INTEREST_RATE} to ${MAX_INTEREST_RATE}`)
+        }
+    }
+    if (extensions.metadataPointer && extensions.metadataAddress.trim() !== '' && !isPublicKey(extensions.metadataAddress.trim())) {
+        errors.push('Metadata address is not a valid address')
+    }
+
+    return errors
+};
+
+// lists everything that would make the settings unusable; empty when they're valid
+export const validateMintSettings = (settings: MintSettings, program: TokenProgram = DEFAULT_TOKEN_PROGRAM): string[] => {
+    const errors: string[] = []
+
+    if (!Number.isInteger(settings.decimals) || settings.decimals < 0 || settings.decimals > MAX_DECIMALS) {
+        errors.push(`Decimals must be a whole number from 0 to ${MAX_DECIMALS}`)
+    }
+    if (settings.mintAuthority.trim() !== '' && !isPublicKey(settings.mintAuthority.trim())) {
+        errors.push('Mint authority is not a valid address')
+    }
+    if (settings.freezeAuthority.trim() !== '' && !isPublicKey(settings.freezeAuthority.trim())) {
+        errors.push('Freeze authority is not a valid address')
+    }
+    // the maximum fee is checked against the decimals, which have to be valid first
+    if (program.supportsExtensions && errors.length === 0) {
+        errors.push(...validateExtensionSettings(settings.extensions, settings.decimals))
+    }
+
+    return errors
+};
+
+const resolveExtensionSettings = (extensions: MintExtensionSettings, decimals: number): MintExtensionConfig => ({
+    transferFee: extensions.transferFee
+        ? { basisPoints: extensions.transferFeeBasisPoints, maximumFee: parseTokenAmount(extensions.maximumFee, decimals) }
+        : undefined,
+    interestRate: extensions.interestBearing ? extensions.interestRate : undefined,
+    nonTransferable: extensions.nonTransferable,
+    metadataPointer: extensions.metadataPointer
+        ? { metadataAddress: extensions.metadataAddress.trim() ? new web3.PublicKey(extensions.metadataAddress.trim()) : null }
+        : undefined,
+});
+
+/**
+ * `resolveMintSettings` turns the authorities into public keys, filling in the defaults.
+ * @param settings - Settings that passed `validateMintSettings`.
+ * @param wallet - The connected wallet, used as mint authority when none was given.
+ * @param program - The token program the mint is created with; only Token-2022 gets the extensions.
+ */
+export const resolveMintSettings = (settings: MintSettings, wallet: web3.PublicKey, program: TokenProgram = DEFAULT_TOKEN_PROGRAM) => ({
+    decimals: settings.decimals,
+    mintAuthority: settings.mintAuthority.trim() ? new web3.PublicKey(settings.mintAuthority.trim()) : wallet,
+    freezeAuthority: settings.freezeAuthority.trim() ? new web3.PublicKey(settings.freezeAuthority.trim()) : null,
+    extensions: program.supportsExtensions ? resolveExtensionSettings(settings.extensions, settings.decimals) : {},
+});
@@ -0,0 +1,216 @@
+import * as web3 from '@solana/web3.js'
+import * as token from '@solana/spl-token'
+import bs58 from 'bs58'
+
+import { formatTokenAmount } from './TokenAmount'
+import { isTokenProgram } from './TokenProgram'
+
+/*
+    Multisig Authorities: a token program multisig is an account listing up to 11
+    signers and how many of them (M of N) have to sign. It can be the mint or
+    freeze authority of a mint, or the owner of a token account, of the same
+    token program. The multisig itself never signs; instead the instruction names
+    it as the authority and lists the members who sign in its place.
+
+    Members rarely sit at the same computer, so a transaction is assembled once,
+    with its fee payer and blockhash fixed, and passed around: each member adds
+    their signature and hands on the partially signed transaction, until the fee
+    payer sends it. The blockhash expires after about a minute, so the signatures
+    have to be collected within that time.
+*/
+
+export const MIN_MULTISIG_SIGNERS = 1
+export const MAX_MULTISIG_SIGNERS = 11
+
+export class MultisigError extends Error {
+    constructor(message: string) {
+        super(message);
+        // restore the prototype chain, which is lost when extending `Error` under an es5 target
+        Object.setPrototypeOf(this, MultisigError.prototype);
+        this.name = 'MultisigError';
+    };
+};
+
+export interface TokenMultisig {
+    address: web3.PublicKey;
+    // how many signers have to sign
+    m: number;
+    signers: web3.PublicKey[];
+    programId: web3.PublicKey;
+};
+
+// the members and threshold as typed, one address per line
+export interface MultisigSettings {
+    signers: string;
+    m: number;
+};
+
+export const DEFAULT_MULTISIG_SETTINGS: MultisigSettings = {
+    signers: '',
+    m: 2,
+};
+
+// the addresses typed into the settings, skipping empty lines
+const signerLines = (settings: MultisigSettings) =>
+    settings.signers.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+
+/**
+ * `validateMultisigSettings` checks the members and threshold before creating a multisig.
+ * @param settings - The settings as typed.
+ * @returns One message per problem, empty if the settings are valid.
+ */
+export const validateMultisigSettings = (settings: MultisigSettings): string[] => {
+    const errors: string[] = []
+    const lines = signerLines(settings)
+
+    lines.forEach(line => {
+        try {
+            new web3.PublicKey(line)
+        } catch (error) {
+            errors.push(`Signer '${line}' is not a valid address`)
+        }
+    })
+    if (new Set(lines).size !== lines.length) {
+        errors.push('Each signer can only be listed once')
+    }
+    if (lines.length < MIN_MULTISIG_SIGNERS || lines.length > MAX_MULTISIG_SIGNERS) {
+        errors.push(`A multisig has between ${MIN_MULTISIG_SIGNERS} and ${MAX_MULTISIG_SIGNERS} signers`)
+    }
+    if (!Number.isInteger(settings.m) || settings.m < 1 || settings.m > Math.max(lines.length, 1)) {
+        errors.push(`The number of required signatures must be between 1 and the number of signers`)
+    }
+    return errors
+};
+
+// the members of valid settings, see `validateMultisigSettings`
+export const resolveMultisigSigners = (settings: MultisigSettings): web3.PublicKey[] =>
+    signerLines(settings).map(line => new web3.PublicKey(line));
+
+/**
+ * `getTokenMultisig` fetches a multisig of either token program.
+ * @param connection - Connection to the cluster.
+ * @param address - Address of the multisig.
+ * @param commitment - Desired level of commitment for querying the state.
+ */
+export const getTokenMultisig = async (
+    connection: web3.Connection,
+    address: web3.PublicKey,
+    commitment?: web3.Commitment
+): Promise<TokenMultisig> => {
+    const info = await connection.getAccountInfo(address, commitment)
+    if (!info) {
+        throw new token.TokenAccountNotFoundError()
+    }
+    if (!isTokenProgram(info.owner)) {
+        throw new token.TokenInvalidAccountOwnerError()
+    }
+    if (info.data.length !== token.MULTISIG_SIZE) {
+        throw new token.TokenInvalidAccountSizeError()
+    }
+
+    const raw = token.MultisigLayout.decode(info.data)
+    const signers = [
+        raw.signer1, raw.signer2, raw.signer3, raw.signer4, raw.signer5, raw.signer6,
+        raw.signer7, raw.signer8, raw.signer9, raw.signer10, raw.signer11,
+    ]
+    return {
+        address,
+        m: raw.m,
+        signers: signers.slice(0, raw.n),
+        programId: info.owner,
+    }
+};
+
+/**
+ * `withMultisigSigners` makes a multisig the authority of an instruction built for a single
+ * authority, the way the `multiSigners` argument of `@solana/spl-token` does. That argument
+ * takes keypairs, but members who sign elsewhere are only known by their public keys.
+ * @param instruction - An instruction whose last account is the authority, e.g. `MintToChecked` or `TransferChecked`.
+ * @param signers - The members who will sign.
+ */
+export const withMultisigSigners = (instruction: web3.TransactionInstruction, signers: web3.PublicKey[]): web3.TransactionInstruction => {
+    const keys = instruction.keys.slice(0, -1)
+    const authority = instruction.keys[instruction.keys.length - 1]
+    keys.push(
+        { ...authority, isSigner: false },
+        ...signers.map(pubkey => ({ pubkey, isSigner: true, isWritable: false }))
+    )
+    return new web3.TransactionInstruction({ keys, programId: instruction.programId, data: instruction.data })
+};
+
+/**
+ * `parseKeypair` reads a secret key, either as the JSON array of a `solana-keygen` file or as base58.
+ * @param secretKey - The secret key as pasted.
+ * @throws MultisigError if it isn't a secret key.
+ */
+export const parseKeypair = (secretKey: string): web3.Keypair => {
+    const text = secretKey.trim()
+    try {
+        const bytes = text.startsWith('[') ? Uint8Array.from(JSON.parse(text)) : bs58.decode(text)
+        return web3.Keypair.fromSecretKey(bytes)
+    } catch (error) {
+        throw new MultisigError('That is not a secret key')
+    }
+};
+
+// a partially signed transaction as text to hand to the next member
+export const exportPartialTransaction = (transaction: web3.Transaction): string =>
+    transaction.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64');
+
+/**
+ * `importPartialTransaction` reads a transaction exported by `exportPartialTransaction`.
+ * Signatures aren't checked here; the cluster rejects the transaction if one is wrong.
+ * @param text - The exported transaction.
+ * @throws MultisigError if the text isn't a transaction.
+ */
+export const importPartialTransaction = (text: string): web3.Transaction => {
+    try {
+        return web3.Transaction.from(Buffer.from(text.trim(), 'base64'))
+    } catch (error) {
+        throw new MultisigError('That is not an exported transaction')
+    }
+};
+
+export interface SignatureStatus {
+    publicKey: web3.PublicKey;
+    signed: boolean;
+};
+
+/**
+ * `getSignatureStatus` lists who has to sign a transaction, and who already did.
+ * @param transaction - A transaction with its fee payer and blockhash set.
+ */
+export const getSignatureStatus = (transaction: web3.Transaction): SignatureStatus[] => {
+    const message = transaction.compileMessage()
+    return message.accountKeys.slice(0, message.header.numRequiredSignatures).map(publicKey => ({
+        publicKey,
+        signed: transaction.signatures.some(entry => entry.publicKey.equals(publicKey) && entry.signature !== null),
+    }))
+};
+
+/**
+ * `describeTransaction` says what a transaction does, so members know what they're signing.
+ * @param transaction - An assembled or imported transaction.
+ * @returns One line per instruction.
+ */
+export const describeTransaction = (transaction: web3.Transaction): string[] =>
+    transaction.instructions.map(instruction => {
+        if (instruction.programId.equals(token.ASSOCIATED_TOKEN_PROGRAM_ID)) {
+            return `Create the token account ${instruction.keys[1].pubkey.toBase58()}`
+        }
+        let decoded: token.DecodedInstruction
+        try {
+            decoded = token.decodeInstruction(instruction, instruction.programId)
+        } catch (error) {
+            return `Unknown instruction of ${instruction.programId.toBase58()}`
+        }
+        if (token.isMintToCheckedInstruction(decoded)) {
+            const { keys: { destination, authority }, data: { amount, decimals } } = decoded
+            return `Mint ${formatTokenAmount(amount, decimals)} tokens into ${destination.pubkey.toBase58()}, signed for ${authority.pubkey.toBase58()}`
+        }
+        if (token.isTransferCheckedInstruction(decoded)) {
+            const { keys: { source, destination, owner }, data: { amount, decimals } } = decoded
+            return `Transfer ${formatTokenAmount(amount, decimals)} tokens from ${source.pubkey.toBase58()} to ${destination.pubkey.toBase58()}, signed for ${owner.pubkey.toBase58()}`
+        }
+        return `Token instruction ${decoded.data.instruction}`
+    });
@@ -0,0 +1,60 @@
+/*
+    Token amounts are stored on-chain as whole numbers of the mint's smallest unit.
+    A mint with 2 decimals stores 1.5 tokens as 150. These helpers convert between
+    what a user types or reads ("1.5") and the raw `bigint` the token program expects,
+    without going through floating point, which can't hold 9-decimal amounts exactly.
+*/
+
+export class TokenAmountError extends Error {
+    constructor(message: string) {
+        super(message);
+        // restore the prototype chain, which is lost when extending `Error` under an es5 target
+        Object.setPrototypeOf(this, TokenAmountError.prototype);
+        this.name = 'TokenAmountError';
+    };
+};
+
+// the largest amount a token account can hold (u64)
+export const MAX_TOKEN_AMOUNT = BigInt('18446744073709551615');
+
+/**
+ * `parseTokenAmount` converts a decimal string into raw token units.
+ * @param amount - The amount as typed, e.g. "1.5".
+ * @param decimals - The decimals of the mint.
+ * @throws TokenAmountError if the amount isn't a positive number, has more decimals than the mint or doesn't fit in a u64.
+ */
+export const parseTokenAmount = (amount: string, decimals: number): bigint => {
+    const match = /^(\d*)(?:\.(\d*))?$/.exec(amount.trim());
+    if (!match || (match[1] === '' && !match[2])) {
+        throw new TokenAmountError(`'${amount}' is not a number`);
+    }
+
+    const [, whole, fraction = ''] = match;
+    if (fraction.replace(/0+$/, '').length > decimals) {
+        throw new TokenAmountError(`This token only has ${decimals} decimals`);
+    }
+
+    const raw = BigInt((whole || '0') + fraction.padEnd(decimals, '0').slice(0, decimals));
+    if (raw === BigInt(0)) {
+        throw new TokenAmountError('Amount must be greater than zero');
+    }
+    if (raw > MAX_TOKEN_AMOUNT) {
+        throw new TokenAmountError('Amount is too large');
+    }
+    return raw;
+};
+
+/**
+ * `formatTokenAmount` converts raw token units into a decimal string, without trailing zeros.
+ * @param amount - The raw amount, e.g. 150n.
+ * @param decimals - The decimals of the mint.
+ */
+export const formatTokenAmount = (amount: bigint, decimals: number): string => {
+    if (decimals === 0) {
+        return amount.toString();
+    }
+    const digits = amount.toString().padStart(decimals + 1, '0');
+    const whole = digits.slice(0, -decimals);
+    const fraction = digits.slice(-decimals).replace(/0+$/, '');
+    return fraction ? `${whole}.${fraction}` : whole;
+};
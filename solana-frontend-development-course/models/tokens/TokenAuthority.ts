@@ -0,0 +1,163 @@
+import * as web3 from '@solana/web3.js'
+import * as token from '@solana/spl-token'
+
+import { ExtensionType } from './TokenExtensions'
+import { TokenAccount, TokenMint } from './TokenProgram'
+
+/*
+    Token Authorities: each kind of change to a mint or token account can only be
+    signed by one account.
+
+    - the mint authority mints new tokens; without one the supply is fixed for good
+    - the freeze authority freezes and thaws the mint's token accounts; without
+      one they can never be frozen
+    - the owner of a token account moves and burns its tokens
+    - the close authority closes an empty token account and takes its rent; it's
+      the owner unless another account was set
+
+    `SetAuthority` hands any of them to another account, or removes it. The actions
+    below wrap it together with `FreezeAccount`, `ThawAccount` and `CloseAccount`.
+    Each action is checked before it's sent, so the page can say why it's not
+    possible instead of letting the transaction fail.
+*/
+
+export enum AuthorityAction {
+    SetMintAuthority = 'setMintAuthority',
+    SetFreezeAuthority = 'setFreezeAuthority',
+    SetOwner = 'setOwner',
+    SetCloseAuthority = 'setCloseAuthority',
+    Freeze = 'freeze',
+    Thaw = 'thaw',
+    Close = 'close',
+};
+
+export interface AuthorityActionInfo {
+    action: AuthorityAction;
+    label: string;
+    // the action changes a token account rather than the mint
+    needsAccount: boolean;
+    // the action hands an authority to a new account; `required` when it can't be removed
+    newAuthority: 'none' | 'optional' | 'required';
+};
+
+export const AUTHORITY_ACTIONS: AuthorityActionInfo[] = [
+    { action: AuthorityAction.SetMintAuthority, label: 'Change mint authority', needsAccount: false, newAuthority: 'optional' },
+    { action: AuthorityAction.SetFreezeAuthority, label: 'Change freeze authority', needsAccount: false, newAuthority: 'optional' },
+    { action: AuthorityAction.SetOwner, label: 'Change account owner', needsAccount: true, newAuthority: 'required' },
+    { action: AuthorityAction.SetCloseAuthority, label: 'Change close authority', needsAccount: true, newAuthority: 'optional' },
+    { action: AuthorityAction.Freeze, label: 'Freeze account', needsAccount: true, newAuthority: 'none' },
+    { action: AuthorityAction.Thaw, label: 'Thaw account', needsAccount: true, newAuthority: 'none' },
+    { action: AuthorityAction.Close, label: 'Close account', needsAccount: true, newAuthority: 'none' },
+]
+
+export const authorityActionInfo = (action: AuthorityAction): AuthorityActionInfo =>
+    AUTHORITY_ACTIONS.find(info => info.action === action)!;
+
+// the close authority falls back to the owner
+export const closeAuthorityOf = (account: TokenAccount): web3.PublicKey => account.closeAuthority ?? account.owner;
+
+const requireAuthority = (authority: web3.PublicKey, wallet: web3.PublicKey, name: string): string | null =>
+    authority.equals(wallet) ? null : `Only the ${name} (${authority.toBase58()}) can do this`;
+
+/**
+ * `authorityActionBlocker` checks whether the wallet can take an action.
+ * @param action - The action to check.
+ * @param wallet - The connected wallet, which signs the transaction.
+ * @param mint - The mint whose authorities, or whose token account, the action changes.
+ * @param account - The token account to change, for actions on an account.
+ * @returns Why the action isn't possible, or `null` if it is.
+ */
+export const authorityActionBlocker = (
+    action: AuthorityAction,
+    wallet: web3.PublicKey,
+    mint: TokenMint,
+    account?: TokenAccount
+): string | null => {
+    switch (action) {
+        case AuthorityAction.SetMintAuthority:
+            return mint.mintAuthority
+                ? requireAuthority(mint.mintAuthority, wallet, 'mint authority')
+                : 'The mint authority was removed, so the supply is fixed for good'
+        case AuthorityAction.SetFreezeAuthority:
+            return mint.freezeAuthority
+                ? requireAuthority(mint.freezeAuthority, wallet, 'freeze authority')
+                : 'The freeze authority was removed, so it can\'t be set again'
+    }
+
+    if (!account) {
+        return 'Choose a token account'
+    }
+    if (!account.mint.equals(mint.address)) {
+        return 'The token account belongs to another mint'
+    }
+
+    switch (action) {
+        case AuthorityAction.SetOwner:
+            // Token-2022 associated token accounts, and all accounts of non-transferable mints, keep their owner
+            if (account.extensionTypes.includes(ExtensionType.ImmutableOwner)) {
+                return 'The owner of this account can\'t be changed'
+            }
+            if (account.isFrozen) {
+                return 'The account is frozen, so its owner can\'t be changed'
+            }
+            return requireAuthority(account.owner, wallet, 'owner of the account')
+        case AuthorityAction.SetCloseAuthority:
+            if (account.isFrozen) {
+                return 'The account is frozen, so its close authority can\'t be changed'
+            }
+            return requireAuthority(closeAuthorityOf(account), wallet, 'close authority')
+        case AuthorityAction.Freeze:
+        case AuthorityAction.Thaw: {
+            const frozen = action === AuthorityAction.Freeze
+            if (account.isFrozen === frozen) {
+                return frozen ? 'The account is already frozen' : 'The account isn\'t frozen'
+            }
+            return mint.freezeAuthority
+                ? requireAuthority(mint.freezeAuthority, wallet, 'freeze authority')
+                : 'The mint has no freeze authority, so its accounts can\'t be frozen or thawed'
+        }
+        case AuthorityAction.Close:
+            // the rent of wrapped SOL accounts is returned together with the SOL they hold
+            if (!account.isNative && account.amount !== BigInt(0)) {
+                return 'Only empty accounts can be closed; transfer or burn the remaining tokens first'
+            }
+            return requireAuthority(closeAuthorityOf(account), wallet, 'close authority')
+    }
+};
+
+/**
+ * `createAuthorityActionInstruction` builds the instruction for an action the wallet can take.
+ * @param action - The action, already checked with `authorityActionBlocker`.
+ * @param wallet - The connected wallet, which signs as the current authority and receives the rent of a closed account.
+ * @param mint - The mint whose authorities, or whose token account, the action changes.
+ * @param account - The token account to change, for actions on an account.
+ * @param newAuthority - The account to hand the authority to, or `null` to remove it.
+ */
+export const createAuthorityActionInstruction = (
+    action: AuthorityAction,
+    wallet: web3.PublicKey,
+    mint: TokenMint,
+    account: TokenAccount | undefined,
+    newAuthority: web3.PublicKey | null
+): web3.TransactionInstruction => {
+    const programId = mint.programId
+    const setAuthority = (target: web3.PublicKey, authorityType: token.AuthorityType) =>
+        token.createSetAuthorityInstruction(target, wallet, authorityType, newAuthority, [], programId)
+
+    switch (action) {
+        case AuthorityAction.SetMintAuthority:
+            return setAuthority(mint.address, token.AuthorityType.MintTokens)
+        case AuthorityAction.SetFreezeAuthority:
+            return setAuthority(mint.address, token.AuthorityType.FreezeAccount)
+        case AuthorityAction.SetOwner:
+            return setAuthority(account!.address, token.AuthorityType.AccountOwner)
+        case AuthorityAction.SetCloseAuthority:
+            return setAuthority(account!.address, token.AuthorityType.CloseAccount)
+        case AuthorityAction.Freeze:
+            return token.createFreezeAccountInstruction(account!.address, mint.address, wallet, [], programId)
+        case AuthorityAction.Thaw:
+            return token.createThawAccountInstruction(account!.address, mint.address, wallet, [], programId)
+        case AuthorityAction.Close:
+            return token.createCloseAccountInstruction(account!.address, wallet, wallet, [], programId)
+    }
+};
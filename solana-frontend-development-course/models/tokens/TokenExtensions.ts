@@ -0,0 +1,357 @@
+import * as web3 from '@solana/web3.js'
+import * as token from '@solana/spl-token'
+
+/*
+    Token-2022 Extensions: Token-2022 keeps the mint and token account layouts of
+    the original token program, and appends extensions after them. The base state
+    is padded to the size of a token account (165 bytes), followed by one byte
+    telling mints and accounts apart, followed by the extensions. Every extension
+    is stored as a `u16` type, a `u16` length and the extension's data.
+
+    Sizing: an account has to be created with room for every extension it will hold,
+    so the space (and with it the rent) follows from the chosen extensions. Some mint
+    extensions need a matching extension on every token account of the mint, e.g. a
+    transfer fee mint needs room in each account for the fees withheld from it.
+
+    Initialization: mint extensions are initialized by their own instructions, which
+    must run after the account is created and before `InitializeMint`. Unlike the
+    programs in this repo, Token-2022 packs its instruction data by hand rather than
+    with borsh, so the few instructions used here are encoded by hand as well.
+
+    Only the extensions the tokens page can create are decoded. Others are listed
+    by their type number.
+*/
+
+// the Token-2022 program, deployed at the same address on every cluster
+export const TOKEN_2022_PROGRAM_ID = new web3.PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb')
+
+export enum ExtensionType {
+    TransferFeeConfig = 1,
+    TransferFeeAmount = 2,
+    ImmutableOwner = 7,
+    NonTransferable = 9,
+    InterestBearingConfig = 10,
+    NonTransferableAccount = 13,
+    MetadataPointer = 18,
+    // variable-length, written after the mint is initialized (see `TokenMetadata.ts`)
+    TokenMetadata = 19,
+};
+
+// size of each extension's data, without its type and length
+const EXTENSION_SIZES: { [type: number]: number } = {
+    [ExtensionType.TransferFeeConfig]: 108,
+    [ExtensionType.TransferFeeAmount]: 8,
+    [ExtensionType.ImmutableOwner]: 0,
+    [ExtensionType.NonTransferable]: 0,
+    [ExtensionType.InterestBearingConfig]: 52,
+    [ExtensionType.NonTransferableAccount]: 0,
+    [ExtensionType.MetadataPointer]: 64,
+}
+
+// the extensions a token account needs to hold tokens of a mint with the given extensions
+const REQUIRED_ACCOUNT_EXTENSIONS: { [type: number]: ExtensionType[] } = {
+    [ExtensionType.TransferFeeConfig]: [ExtensionType.TransferFeeAmount],
+    [ExtensionType.NonTransferable]: [ExtensionType.NonTransferableAccount, ExtensionType.ImmutableOwner],
+}
+
+const ACCOUNT_TYPE_SIZE = 1
+const TLV_HEADER_SIZE = 4
+// a multisig is 355 bytes, and an account of the same size would be mistaken for one
+const MULTISIG_SIZE = 355
+
+export enum AccountType {
+    Uninitialized = 0,
+    Mint = 1,
+    Account = 2,
+};
+
+const getExtendedSize = (baseSize: number, extensions: ExtensionType[]): number => {
+    if (extensions.length === 0) {
+        return baseSize
+    }
+    const size = extensions.reduce(
+        (accum, extension) => accum + TLV_HEADER_SIZE + EXTENSION_SIZES[extension],
+        token.ACCOUNT_SIZE + ACCOUNT_TYPE_SIZE
+    )
+    // Token-2022 pads such accounts with an empty extension header
+    return size === MULTISIG_SIZE ? size + 2 : size
+};
+
+// the space a mint with the given extensions takes
+export const getMintSize = (extensions: ExtensionType[]): number => getExtendedSize(token.MINT_SIZE, extensions);
+
+// the space a token account of a mint with the given extensions takes
+export const getAccountSize = (mintExtensions: ExtensionType[]): number => {
+    const extensions = mintExtensions.reduce(
+        (accum, extension) => accum.concat(REQUIRED_ACCOUNT_EXTENSIONS[extension] ?? []),
+        [] as ExtensionType[]
+    )
+    return getExtendedSize(token.ACCOUNT_SIZE, extensions)
+};
+
+/*
+    Creating Extensions
+*/
+
+// the extensions a new mint is created with; authorities are filled in when the instructions are built
+export interface MintExtensionConfig {
+    // a fee in basis points of every transfer, capped at `maximumFee` (in the smallest unit)
+    transferFee?: { basisPoints: number; maximumFee: bigint };
+    // the yearly interest rate in basis points, shown in UI amounts but never minted
+    interestRate?: number;
+    // tokens can be minted and burned, but never transferred
+    nonTransferable?: boolean;
+    // where the token's metadata lives; `null` points at the mint itself
+    metadataPointer?: { metadataAddress: web3.PublicKey | null };
+};
+
+// the extension types a config asks for, in the order their instructions are sent
+export const getExtensionTypes = (config: MintExtensionConfig): ExtensionType[] => {
+    const types: ExtensionType[] = []
+    if (config.transferFee) { types.push(ExtensionType.TransferFeeConfig) }
+    if (config.interestRate !== undefined) { types.push(ExtensionType.InterestBearingConfig) }
+    if (config.nonTransferable) { types.push(ExtensionType.NonTransferable) }
+    if (config.metadataPointer) { types.push(ExtensionType.MetadataPointer) }
+    return types
+};
+
+// Token-2022 instructions, numbered after those of the original program
+enum TokenInstruction {
+    TransferFeeExtension = 26,
+    InitializeNonTransferableMint = 32,
+    InterestBearingMintExtension = 33,
+    MetadataPointerExtension = 39,
+};
+
+// extension instructions are followed by the extension's own instruction number; initializing is always 0
+const INITIALIZE = 0
+
+const writePublicKey = (buffer: Buffer, key: web3.PublicKey | null, offset: number): number => {
+    // optional keys of extensions are stored as all zeros when missing
+    (key ?? web3.PublicKey.default).toBuffer().copy(buffer, offset)
+    return offset + 32
+};
+
+const mintInstruction = (mint: web3.PublicKey, data: Buffer, programId: web3.PublicKey) => new web3.TransactionInstruction({
+    keys: [{ pubkey: mint, isSigner: false, isWritable: true }],
+    programId,
+    data,
+});
+
+/**
+ * `createInitializeExtensionInstructions` builds the instructions initializing each extension of a new mint.
+ * @param mint - The created, but not yet initialized, mint account.
+ * @param config - The extensions to initialize.
+ * @param authority - The authority of every extension that has one; usually the mint authority.
+ * @param programId - The Token-2022 program.
+ */
+export const createInitializeExtensionInstructions = (
+    mint: web3.PublicKey,
+    config: MintExtensionConfig,
+    authority: web3.PublicKey,
+    programId = TOKEN_2022_PROGRAM_ID
+): web3.TransactionInstruction[] => {
+    const instructions: web3.TransactionInstruction[] = []
+
+    if (config.transferFee) {
+        // both authorities are options, packed as a tag byte followed by the key when present
+        const data = Buffer.alloc(2 + 33 + 33 + 2 + 8)
+        let offset = data.writeUInt8(TokenInstruction.TransferFeeExtension, 0)
+        offset = data.writeUInt8(INITIALIZE, offset)
+        offset = data.writeUInt8(1, offset)
+        offset = writePublicKey(data, authority, offset) // may change the fee
+        offset = data.writeUInt8(1, offset)
+        offset = writePublicKey(data, authority, offset) // may collect the withheld fees
+        offset = data.writeUInt16LE(config.transferFee.basisPoints, offset)
+        data.writeBigUInt64LE(config.transferFee.maximumFee, offset)
+        instructions.push(mintInstruction(mint, data, programId))
+    }
+
+    if (config.interestRate !== undefined) {
+        const data = Buffer.alloc(2 + 32 + 2)
+        let offset = data.writeUInt8(TokenInstruction.InterestBearingMintExtension, 0)
+        offset = data.writeUInt8(INITIALIZE, offset)
+        offset = writePublicKey(data, authority, offset) // may change the rate
+        data.writeInt16LE(config.interestRate, offset)
+        instructions.push(mintInstruction(mint, data, programId))
+    }
+
+    if (config.nonTransferable) {
+        const data = Buffer.from([TokenInstruction.InitializeNonTransferableMint])
+        instructions.push(mintInstruction(mint, data, programId))
+    }
+
+    if (config.metadataPointer) {
+        const data = Buffer.alloc(2 + 32 + 32)
+        let offset = data.writeUInt8(TokenInstruction.MetadataPointerExtension, 0)
+        offset = data.writeUInt8(INITIALIZE, offset)
+        offset = writePublicKey(data, authority, offset) // may point somewhere else
+        writePublicKey(data, config.metadataPointer.metadataAddress ?? mint, offset)
+        instructions.push(mintInstruction(mint, data, programId))
+    }
+
+    return instructions
+};
+
+/*
+    Decoding Extensions
+*/
+
+export interface TransferFee {
+    epoch: bigint;
+    maximumFee: bigint;
+    basisPoints: number;
+};
+
+export type MintExtension =
+    | {
+        type: 'TransferFeeConfig';
+        transferFeeConfigAuthority: web3.PublicKey | null;
+        withdrawWithheldAuthority: web3.PublicKey | null;
+        withheldAmount: bigint;
+        // a new fee only takes effect two epochs after it's set, so both are kept
+        olderTransferFee: TransferFee;
+        newerTransferFee: TransferFee;
+    }
+    | {
+        type: 'InterestBearingConfig';
+        rateAuthority: web3.PublicKey | null;
+        initializationTimestamp: bigint;
+        preUpdateAverageRate: number;
+        lastUpdateTimestamp: bigint;
+        currentRate: number;
+    }
+    | { type: 'NonTransferable' }
+    | {
+        type: 'MetadataPointer';
+        authority: web3.PublicKey | null;
+        metadataAddress: web3.PublicKey | null;
+    }
+    | {
+        type: 'TokenMetadata';
+        updateAuthority: web3.PublicKey | null;
+        mint: web3.PublicKey;
+        name: string;
+        symbol: string;
+        uri: string;
+        additionalMetadata: [string, string][];
+    }
+    | { type: 'Unknown'; extensionType: number; length: number };
+
+const readPublicKey = (data: Buffer, offset: number): web3.PublicKey | null => {
+    const key = new web3.PublicKey(data.slice(offset, offset + 32))
+    return key.equals(web3.PublicKey.default) ? null : key
+};
+
+const readTransferFee = (data: Buffer, offset: number): TransferFee => ({
+    epoch: data.readBigUInt64LE(offset),
+    maximumFee: data.readBigUInt64LE(offset + 8),
+    basisPoints: data.readUInt16LE(offset + 16),
+});
+
+// strings are stored the borsh way, as a `u32` byte length followed by the utf-8 bytes
+const readString = (data: Buffer, offset: number): [string, number] => {
+    const length = data.readUInt32LE(offset)
+    const end = offset + 4 + length
+    return [data.slice(offset + 4, end).toString('utf8'), end]
+};
+
+const decodeTokenMetadata = (data: Buffer): MintExtension => {
+    const [name, symbolOffset] = readString(data, 64)
+    const [symbol, uriOffset] = readString(data, symbolOffset)
+    const [uri, countOffset] = readString(data, uriOffset)
+
+    const additionalMetadata: [string, string][] = []
+    let offset = countOffset + 4
+    for (let i = 0; i < data.readUInt32LE(countOffset); i++) {
+        const [key, valueOffset] = readString(data, offset)
+        const [value, nextOffset] = readString(data, valueOffset)
+        additionalMetadata.push([key, value])
+        offset = nextOffset
+    }
+
+    return {
+        type: 'TokenMetadata',
+        updateAuthority: readPublicKey(data, 0),
+        mint: new web3.PublicKey(data.slice(32, 64)),
+        name,
+        symbol,
+        uri,
+        additionalMetadata,
+    }
+};
+
+const decodeExtension = (type: number, data: Buffer): MintExtension => {
+    switch (type) {
+        case ExtensionType.TransferFeeConfig:
+            return {
+                type: 'TransferFeeConfig',
+                transferFeeConfigAuthority: readPublicKey(data, 0),
+                withdrawWithheldAuthority: readPublicKey(data, 32),
+                withheldAmount: data.readBigUInt64LE(64),
+                olderTransferFee: readTransferFee(data, 72),
+                newerTransferFee: readTransferFee(data, 90),
+            }
+        case ExtensionType.InterestBearingConfig:
+            return {
+                type: 'InterestBearingConfig',
+                rateAuthority: readPublicKey(data, 0),
+                initializationTimestamp: data.readBigInt64LE(32),
+                preUpdateAverageRate: data.readInt16LE(40),
+                lastUpdateTimestamp: data.readBigInt64LE(42),
+                currentRate: data.readInt16LE(50),
+            }
+        case ExtensionType.NonTransferable:
+            return { type: 'NonTransferable' }
+        case ExtensionType.MetadataPointer:
+            return {
+                type: 'MetadataPointer',
+                authority: readPublicKey(data, 0),
+                metadataAddress: readPublicKey(data, 32),
+            }
+        case ExtensionType.TokenMetadata:
+            return decodeTokenMetadata(data)
+        default:
+            return { type: 'Unknown', extensionType: type, length: data.length }
+    }
+};
+
+// the type and data of each extension stored after the base state of a mint or an account
+const readExtensions = (data: Buffer, accountType: AccountType): [number, Buffer][] => {
+    const entries: [number, Buffer][] = []
+    if (data.length <= token.ACCOUNT_SIZE || data[token.ACCOUNT_SIZE] !== accountType) {
+        return entries
+    }
+
+    let offset = token.ACCOUNT_SIZE + ACCOUNT_TYPE_SIZE
+    while (offset + TLV_HEADER_SIZE <= data.length) {
+        const type = data.readUInt16LE(offset)
+        const length = data.readUInt16LE(offset + 2)
+        // the rest of the account is unused once an empty type shows up
+        if (type === 0) { break }
+
+        const start = offset + TLV_HEADER_SIZE
+        entries.push([type, data.slice(start, start + length)])
+        offset = start + length
+    }
+    return entries
+};
+
+/**
+ * `decodeMintExtensions` reads the extensions stored after a mint's base state.
+ * @param data - The mint's account data; mints without extensions have none.
+ */
+export const decodeMintExtensions = (data: Buffer): MintExtension[] =>
+    readExtensions(data, AccountType.Mint).map(([type, extension]) => decodeExtension(type, extension));
+
+/**
+ * `getAccountExtensionTypes` lists the extensions of a token account, e.g. to tell
+ * whether its owner can be changed.
+ * @param data - The token account's data; accounts without extensions have none.
+ */
+export const getAccountExtensionTypes = (data: Buffer): ExtensionType[] =>
+    readExtensions(data, AccountType.Account).map(([type]) => type);
+
+// the on-chain type of a decoded extension, e.g. to size the token accounts of a mint
+export const extensionTypeOf = (extension: MintExtension): ExtensionType =>
+    extension.type === 'Unknown' ? extension.extensionType : ExtensionType[extension.type];
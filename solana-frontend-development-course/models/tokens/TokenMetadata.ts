@@ -0,0 +1,459 @@
+import * as web3 from '@solana/web3.js'
+
+import { BorshCodec, field } from '../codec/BorshCodec'
+import { MAX_ACCOUNTS_PER_REQUEST, TokenMint } from './TokenProgram'
+
+/*
+    Token Metadata: the name, symbol and logo wallets show for a token. There are
+    two places it can live:
+
+    Metadata Accounts: mints of the original token program get their metadata from
+    the Metaplex Token Metadata program, in an account at a PDA of the mint. Only
+    the name, symbol and URI are on-chain. The image is part of a JSON file hosted
+    at the URI, the way NFTs describe themselves.
+
+    Metadata Extension: Token-2022 mints can hold their metadata themselves, when
+    they're created with a metadata pointer to the mint itself. Besides the name,
+    symbol and URI, the extension holds any other key/value pairs, so the image is
+    stored on-chain as well. The mint grows to fit, and the rent for the extra space
+    has to be in the mint before the metadata is written. Token-2022 mints without
+    such a pointer get a metadata account, which Metaplex supports for both programs.
+
+    Creating metadata needs the mint authority's signature. Afterwards only the
+    update authority (the wallet that created it) can change it.
+*/
+
+// the Metaplex Token Metadata program, deployed at the same address on every cluster
+export const TOKEN_METADATA_PROGRAM_ID = new web3.PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s')
+
+// limits of the Metaplex program, which wallets also expect from Token-2022 metadata
+export const MAX_NAME_BYTES = 32
+export const MAX_SYMBOL_BYTES = 10
+export const MAX_URI_BYTES = 200
+
+// the additional metadata key the image is stored under in the Token-2022 extension
+export const IMAGE_KEY = 'image'
+
+export type MetadataStandard = 'metadata-account' | 'metadata-extension';
+
+export interface TokenMetadataFields {
+    name: string;
+    symbol: string;
+    // where the JSON describing the token is hosted
+    uri: string;
+    image: string;
+};
+
+export const EMPTY_METADATA_FIELDS: TokenMetadataFields = {
+    name: '',
+    symbol: '',
+    uri: '',
+    image: '',
+};
+
+export interface TokenMetadata extends TokenMetadataFields {
+    standard: MetadataStandard;
+    // the metadata account, or the mint itself for the extension
+    address: web3.PublicKey;
+    updateAuthority: web3.PublicKey | null;
+};
+
+// Token-2022 mints pointing at themselves hold their own metadata; every other mint gets a metadata account
+export const metadataStandardOf = (mint: TokenMint): MetadataStandard =>
+    mint.extensions.some(extension => extension.type === 'MetadataPointer' && extension.metadataAddress?.equals(mint.address))
+        ? 'metadata-extension'
+        : 'metadata-account';
+
+// lists everything that would make the metadata unusable; empty when it's valid
+export const validateTokenMetadata = (fields: TokenMetadataFields): string[] => {
+    const errors: string[] = []
+
+    if (fields.name.trim() === '') {
+        errors.push('Name is required')
+    }
+    if (Buffer.byteLength(fields.name.trim(), 'utf8') > MAX_NAME_BYTES) {
+        errors.push(`Name can't be longer than ${MAX_NAME_BYTES} bytes`)
+    }
+    if (Buffer.byteLength(fields.symbol.trim(), 'utf8') > MAX_SYMBOL_BYTES) {
+        errors.push(`Symbol can't be longer than ${MAX_SYMBOL_BYTES} bytes`)
+    }
+    if (Buffer.byteLength(fields.uri.trim(), 'utf8') > MAX_URI_BYTES) {
+        errors.push(`URI can't be longer than ${MAX_URI_BYTES} bytes`)
+    }
+
+    return errors
+};
+
+// the JSON to host at the URI; wallets read the image from here
+export const toMetadataJson = (fields: TokenMetadataFields): string => JSON.stringify({
+    name: fields.name.trim(),
+    symbol: fields.symbol.trim(),
+    image: fields.image.trim(),
+}, null, 2);
+
+/*
+    Metadata Accounts
+*/
+
+export enum MetadataVariant {
+    UpdateMetadataAccountV2 = 15,
+    CreateMetadataAccountV3 = 33,
+};
+
+interface DataV2 {
+    name: string;
+    symbol: string;
+    uri: string;
+    sellerFeeBasisPoints: number;
+    creators: null;
+    collection: null;
+    uses: null;
+};
+
+interface CreateMetadataAccountArgs {
+    data: DataV2;
+    isMutable: boolean;
+    collectionDetails: null;
+};
+
+// `null` leaves a field as it is
+interface UpdateMetadataAccountArgs {
+    data: DataV2 | null;
+    updateAuthority: web3.PublicKey | null;
+    primarySaleHappened: boolean | null;
+    isMutable: boolean | null;
+};
+
+type MetadataInstruction = CreateMetadataAccountArgs | UpdateMetadataAccountArgs
+
+interface MetadataAccount {
+    key: number;
+    updateAuthority: web3.PublicKey;
+    mint: web3.PublicKey;
+    name: string;
+    symbol: string;
+    uri: string;
+    sellerFeeBasisPoints: number;
+};
+
+const DATA_V2 = field.struct<'data', DataV2>('data', [
+    field.str('name'),
+    field.str('symbol'),
+    field.str('uri'),
+    field.u16('sellerFeeBasisPoints'),
+    // creators, collections and uses are for NFTs, so only their `none` tag is ever written
+    field.option(field.u8('creators')),
+    field.option(field.u8('collection')),
+    field.option(field.u8('uses')),
+])
+
+export const MetadataCodec = new BorshCodec<MetadataInstruction, MetadataAccount>({
+    // CreateMetadataAccountV3
+    instruction: [
+        DATA_V2,
+        field.bool('isMutable'),
+        field.option(field.u8('collectionDetails')),
+    ],
+    variants: {
+        // every field is optional, and left alone when missing
+        [MetadataVariant.UpdateMetadataAccountV2]: [
+            field.option(DATA_V2),
+            field.option(field.publicKey('updateAuthority')),
+            field.option(field.bool('primarySaleHappened')),
+            field.option(field.bool('isMutable')),
+        ],
+    },
+    // only the start of the account; creators and the rest follow
+    account: [
+        field.u8('key'),
+        field.publicKey('updateAuthority'),
+        field.publicKey('mint'),
+        field.str('name'),
+        field.str('symbol'),
+        field.str('uri'),
+        field.u16('sellerFeeBasisPoints'),
+    ],
+})
+
+/**
+ * `findMetadataAddress` derives the metadata account of a mint of the original token program.
+ * @param mint - The mint the metadata describes.
+ */
+export const findMetadataAddress = (mint: web3.PublicKey): web3.PublicKey => {
+    const [pda] = web3.PublicKey.findProgramAddressSync(
+        [Buffer.from('metadata'), TOKEN_METADATA_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+        TOKEN_METADATA_PROGRAM_ID
+    );
+    return pda;
+};
+
+const toDataV2 = (fields: TokenMetadataFields): DataV2 => ({
+    name: fields.name.trim(),
+    symbol: fields.symbol.trim(),
+    uri: fields.uri.trim(),
+    // royalties only apply to NFT sales
+    sellerFeeBasisPoints: 0,
+    creators: null,
+    collection: null,
+    uses: null,
+});
+
+/**
+ * `createMetadataAccountInstruction` creates the metadata account of a mint, with the wallet as update authority.
+ * @param mint - The mint the metadata describes.
+ * @param mintAuthority - The mint authority, who has to sign.
+ * @param payer - Pays the rent of the metadata account and becomes its update authority.
+ * @param fields - The metadata; the image isn't stored in the account.
+ */
+export const createMetadataAccountInstruction = (
+    mint: web3.PublicKey,
+    mintAuthority: web3.PublicKey,
+    payer: web3.PublicKey,
+    fields: TokenMetadataFields
+) => new web3.TransactionInstruction({
+    keys: [
+        { pubkey: findMetadataAddress(mint), isSigner: false, isWritable: true },
+        { pubkey: mint, isSigner: false, isWritable: false },
+        { pubkey: mintAuthority, isSigner: true, isWritable: false },
+        { pubkey: payer, isSigner: true, isWritable: true },
+        { pubkey: payer, isSigner: true, isWritable: false }, // update authority
+        { pubkey: web3.SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    programId: TOKEN_METADATA_PROGRAM_ID,
+    data: MetadataCodec.encodeInstruction(MetadataVariant.CreateMetadataAccountV3, {
+        data: toDataV2(fields),
+        // keeps the metadata updatable
+        isMutable: true,
+        collectionDetails: null,
+    }),
+});
+
+/**
+ * `updateMetadataAccountInstruction` replaces the name, symbol and URI in a metadata account.
+ * @param mint - The mint the metadata describes.
+ * @param updateAuthority - The update authority of the metadata, who has to sign.
+ * @param fields - The new metadata; the image isn't stored in the account.
+ */
+export const updateMetadataAccountInstruction = (
+    mint: web3.PublicKey,
+    updateAuthority: web3.PublicKey,
+    fields: TokenMetadataFields
+) => new web3.TransactionInstruction({
+    keys: [
+        { pubkey: findMetadataAddress(mint), isSigner: false, isWritable: true },
+        { pubkey: updateAuthority, isSigner: true, isWritable: false },
+    ],
+    programId: TOKEN_METADATA_PROGRAM_ID,
+    data: MetadataCodec.encodeInstruction(MetadataVariant.UpdateMetadataAccountV2, {
+        data: toDataV2(fields),
+        updateAuthority: null,
+        primarySaleHappened: null,
+        isMutable: null,
+    }),
+});
+
+/*
+    Metadata Extension
+
+    The Token-2022 metadata instructions start with 8 bytes of a hash of their
+    name instead of a variant, so they're packed by hand like the extension
+    instructions in `TokenExtensions.ts`.
+*/
+
+const INITIALIZE_DISCRIMINATOR = Buffer.from([210, 225, 30, 162, 88, 184, 77, 141])
+const UPDATE_FIELD_DISCRIMINATOR = Buffer.from([221, 233, 49, 45, 181, 202, 220, 200])
+const REMOVE_KEY_DISCRIMINATOR = Buffer.from([234, 18, 32, 56, 89, 141, 37, 181])
+
+// the fields `UpdateField` can change; any other key is additional metadata
+export enum MetadataField {
+    Name = 0,
+    Symbol = 1,
+    Uri = 2,
+    Key = 3,
+};
+
+const encodeString = (value: string): Buffer => {
+    const bytes = Buffer.from(value, 'utf8')
+    const length = Buffer.alloc(4)
+    length.writeUInt32LE(bytes.length)
+    return Buffer.concat([length, bytes])
+};
+
+const stringSize = (value: string): number => 4 + Buffer.byteLength(value, 'utf8');
+
+/**
+ * `getMetadataExtensionSize` computes how much room the metadata extension takes in the mint.
+ * @param fields - The metadata; a non-empty image is stored as additional metadata.
+ */
+export const getMetadataExtensionSize = (fields: TokenMetadataFields): number => {
+    const image = fields.image.trim()
+    // type and length, update authority and mint, then the strings and the additional metadata
+    return 4 + 32 + 32
+        + stringSize(fields.name.trim()) + stringSize(fields.symbol.trim()) + stringSize(fields.uri.trim())
+        + 4 + (image ? stringSize(IMAGE_KEY) + stringSize(image) : 0)
+};
+
+/**
+ * `createInitializeMetadataInstruction` writes the name, symbol and URI into a Token-2022 mint.
+ * @param mint - A mint with a metadata pointer to itself, funded for the extra space.
+ * @param updateAuthority - Who may update the metadata afterwards.
+ * @param mintAuthority - The mint authority, who has to sign.
+ * @param fields - The metadata; the image is added with `createUpdateMetadataFieldInstruction`.
+ * @param programId - The Token-2022 program.
+ */
+export const createInitializeMetadataInstruction = (
+    mint: web3.PublicKey,
+    updateAuthority: web3.PublicKey,
+    mintAuthority: web3.PublicKey,
+    fields: TokenMetadataFields,
+    programId: web3.PublicKey
+) => new web3.TransactionInstruction({
+    keys: [
+        { pubkey: mint, isSigner: false, isWritable: true }, // the metadata lives in the mint
+        { pubkey: updateAuthority, isSigner: false, isWritable: false },
+        { pubkey: mint, isSigner: false, isWritable: false },
+        { pubkey: mintAuthority, isSigner: true, isWritable: false },
+    ],
+    programId,
+    data: Buffer.concat([
+        INITIALIZE_DISCRIMINATOR,
+        encodeString(fields.name.trim()),
+        encodeString(fields.symbol.trim()),
+        encodeString(fields.uri.trim()),
+    ]),
+});
+
+/**
+ * `createUpdateMetadataFieldInstruction` sets one field of the metadata in a Token-2022 mint.
+ * @param mint - The mint holding the metadata.
+ * @param updateAuthority - The update authority of the metadata, who has to sign.
+ * @param metadataField - The field to set; `Key` sets (or adds) the additional metadata under `key`.
+ * @param value - The new value.
+ * @param programId - The Token-2022 program.
+ * @param key - The additional metadata key, only for `MetadataField.Key`.
+ */
+export const createUpdateMetadataFieldInstruction = (
+    mint: web3.PublicKey,
+    updateAuthority: web3.PublicKey,
+    metadataField: MetadataField,
+    value: string,
+    programId: web3.PublicKey,
+    key = ''
+) => new web3.TransactionInstruction({
+    keys: [
+        { pubkey: mint, isSigner: false, isWritable: true },
+        { pubkey: updateAuthority, isSigner: true, isWritable: false },
+    ],
+    programId,
+    data: Buffer.concat([
+        UPDATE_FIELD_DISCRIMINATOR,
+        Buffer.from([metadataField]),
+        metadataField === MetadataField.Key ? encodeString(key) : Buffer.alloc(0),
+        encodeString(value),
+    ]),
+});
+
+/**
+ * `createRemoveMetadataKeyInstruction` removes additional metadata from a Token-2022 mint.
+ * @param mint - The mint holding the metadata.
+ * @param updateAuthority - The update authority of the metadata, who has to sign.
+ * @param key - The additional metadata key to remove; missing keys are ignored.
+ * @param programId - The Token-2022 program.
+ */
+export const createRemoveMetadataKeyInstruction = (
+    mint: web3.PublicKey,
+    updateAuthority: web3.PublicKey,
+    key: string,
+    programId: web3.PublicKey
+) => new web3.TransactionInstruction({
+    keys: [
+        { pubkey: mint, isSigner: false, isWritable: true },
+        { pubkey: updateAuthority, isSigner: true, isWritable: false },
+    ],
+    programId,
+    data: Buffer.concat([
+        REMOVE_KEY_DISCRIMINATOR,
+        Buffer.from([1]), // idempotent
+        encodeString(key),
+    ]),
+});
+
+/*
+    Reading Metadata
+*/
+
+const fromMetadataExtension = (mint: TokenMint): TokenMetadata | null => {
+    for (const extension of mint.extensions) {
+        if (extension.type === 'TokenMetadata') {
+            const image = extension.additionalMetadata.find(([key]) => key === IMAGE_KEY)
+            return {
+                standard: 'metadata-extension',
+                address: mint.address,
+                updateAuthority: extension.updateAuthority,
+                name: extension.name,
+                symbol: extension.symbol,
+                uri: extension.uri,
+                image: image ? image[1] : '',
+            }
+        }
+    }
+    return null
+};
+
+const fromMetadataAccount = (address: web3.PublicKey, info: web3.AccountInfo<Buffer> | null): TokenMetadata | null => {
+    if (!info) {
+        return null
+    }
+
+    const account = MetadataCodec.decodeAccount(info.data)
+    // the program pads every string to its maximum length with null bytes
+    const unpad = (value: string) => value.replace(/\0/g, '')
+    return {
+        standard: 'metadata-account',
+        address,
+        updateAuthority: account.updateAuthority,
+        name: unpad(account.name),
+        symbol: unpad(account.symbol),
+        uri: unpad(account.uri),
+        // only in the JSON at the URI
+        image: '',
+    }
+};
+
+/**
+ * `getTokenMetadataOfMints` reads the metadata of many mints, fetching their metadata accounts together.
+ * @param connection - Connection to the cluster.
+ * @param mints - The mints, fetched with `getTokenMint` or `getTokenMints`.
+ * @returns The metadata in the same order, `null` for mints without any.
+ */
+export const getTokenMetadataOfMints = async (connection: web3.Connection, mints: TokenMint[]): Promise<(TokenMetadata | null)[]> => {
+    const addresses = mints
+        .filter(mint => metadataStandardOf(mint) === 'metadata-account')
+        .map(mint => findMetadataAddress(mint.address))
+
+    const accounts = new Map<string, web3.AccountInfo<Buffer> | null>()
+    for (let start = 0; start < addresses.length; start += MAX_ACCOUNTS_PER_REQUEST) {
+        const batch = addresses.slice(start, start + MAX_ACCOUNTS_PER_REQUEST)
+        const infos = await connection.getMultipleAccountsInfo(batch)
+        infos.forEach((info, index) => accounts.set(batch[index].toBase58(), info))
+    }
+
+    return mints.map(mint => {
+        if (metadataStandardOf(mint) === 'metadata-extension') {
+            return fromMetadataExtension(mint)
+        }
+        const address = findMetadataAddress(mint.address)
+        return fromMetadataAccount(address, accounts.get(address.toBase58()) ?? null)
+    })
+};
+
+/**
+ * `getTokenMetadata` reads a mint's metadata from wherever its standard keeps it.
+ * @param connection - Connection to the cluster.
+ * @param mint - The mint, fetched with `getTokenMint`.
+ * @returns The metadata, or `null` if the mint has none yet.
+ */
+export const getTokenMetadata = async (connection: web3.Connection, mint: TokenMint): Promise<TokenMetadata | null> => {
+    const [metadata] = await getTokenMetadataOfMints(connection, [mint])
+    return metadata
+};
@@ -0,0 +1,155 @@
+import * as web3 from '@solana/web3.js'
+import * as token from '@solana/spl-token'
+
+import { AccountType, decodeMintExtensions, ExtensionType, getAccountExtensionTypes, MintExtension, TOKEN_2022_PROGRAM_ID } from './TokenExtensions'
+
+/*
+    Token Programs: tokens are either owned by the original token program, or by
+    Token-2022, which does everything the original does and adds extensions. Which
+    program a mint belongs to is chosen when it's created. Every account and
+    instruction for the mint's tokens has to go to that same program.
+
+    `getMint` and `getAccount` of `@solana/spl-token` only accept accounts of the
+    original sizes, so accounts with extensions are fetched with the functions below.
+    They accept both programs and remember which one owns the account.
+*/
+
+export interface TokenProgram {
+    name: string;
+    programId: web3.PublicKey;
+    // only Token-2022 mints can have extensions
+    supportsExtensions: boolean;
+};
+
+export const TOKEN_PROGRAMS: TokenProgram[] = [
+    { name: 'Token Program', programId: token.TOKEN_PROGRAM_ID, supportsExtensions: false },
+    { name: 'Token-2022', programId: TOKEN_2022_PROGRAM_ID, supportsExtensions: true },
+]
+
+export const DEFAULT_TOKEN_PROGRAM = TOKEN_PROGRAMS[0]
+
+// `getMultipleAccountsInfo` takes at most this many addresses per request
+export const MAX_ACCOUNTS_PER_REQUEST = 100
+
+export const isTokenProgram = (programId: web3.PublicKey): boolean =>
+    TOKEN_PROGRAMS.some(program => program.programId.equals(programId));
+
+export interface TokenMint extends token.Mint {
+    programId: web3.PublicKey;
+    extensions: MintExtension[];
+};
+
+export interface TokenAccount extends token.Account {
+    programId: web3.PublicKey;
+    extensionTypes: ExtensionType[];
+};
+
+const checkTokenAccountInfo = (info: web3.AccountInfo<Buffer> | null, size: number, type: AccountType) => {
+    if (!info) {
+        throw new token.TokenAccountNotFoundError()
+    }
+    if (!isTokenProgram(info.owner)) {
+        throw new token.TokenInvalidAccountOwnerError()
+    }
+    // only Token-2022 accounts may be longer than the base state, and then they say whether they're a mint or an account
+    const extended = info.owner.equals(TOKEN_2022_PROGRAM_ID)
+        && info.data.length > token.ACCOUNT_SIZE
+        && info.data[token.ACCOUNT_SIZE] === type
+    if (info.data.length !== size && !extended) {
+        throw new token.TokenInvalidAccountSizeError()
+    }
+    return info
+};
+
+/**
+ * `unpackTokenMint` decodes a mint of either token program, with its extensions.
+ * @param address - Address of the mint.
+ * @param accountInfo - The mint account, as fetched.
+ */
+export const unpackTokenMint = (address: web3.PublicKey, accountInfo: web3.AccountInfo<Buffer> | null): TokenMint => {
+    const info = checkTokenAccountInfo(accountInfo, token.MINT_SIZE, AccountType.Mint)
+    const rawMint = token.MintLayout.decode(info.data.slice(0, token.MINT_SIZE))
+
+    return {
+        address,
+        mintAuthority: rawMint.mintAuthorityOption ? rawMint.mintAuthority : null,
+        supply: rawMint.supply,
+        decimals: rawMint.decimals,
+        isInitialized: rawMint.isInitialized,
+        freezeAuthority: rawMint.freezeAuthorityOption ? rawMint.freezeAuthority : null,
+        programId: info.owner,
+        extensions: decodeMintExtensions(info.data),
+    }
+};
+
+/**
+ * `getTokenMint` fetches a mint of either token program, with its extensions.
+ * @param connection - Connection to the cluster.
+ * @param address - Address of the mint.
+ * @param commitment - Desired level of commitment for querying the state.
+ */
+export const getTokenMint = async (
+    connection: web3.Connection,
+    address: web3.PublicKey,
+    commitment?: web3.Commitment
+): Promise<TokenMint> => unpackTokenMint(address, await connection.getAccountInfo(address, commitment));
+
+/**
+ * `getTokenMints` fetches many mints at once, in as few requests as possible.
+ * @param connection - Connection to the cluster.
+ * @param addresses - Addresses of the mints.
+ * @returns The mints in the same order, `null` where an address isn't a mint.
+ */
+export const getTokenMints = async (connection: web3.Connection, addresses: web3.PublicKey[]): Promise<(TokenMint | null)[]> => {
+    const mints: (TokenMint | null)[] = []
+    for (let start = 0; start < addresses.length; start += MAX_ACCOUNTS_PER_REQUEST) {
+        const batch = addresses.slice(start, start + MAX_ACCOUNTS_PER_REQUEST)
+        const infos = await connection.getMultipleAccountsInfo(batch)
+        infos.forEach((info, index) => {
+            try {
+                mints.push(unpackTokenMint(batch[index], info))
+            } catch (error) {
+                mints.push(null)
+            }
+        })
+    }
+    return mints
+};
+
+/**
+ * `unpackTokenAccount` decodes a token account of either token program.
+ * @param address - Address of the token account.
+ * @param accountInfo - The token account, as fetched.
+ */
+export const unpackTokenAccount = (address: web3.PublicKey, accountInfo: web3.AccountInfo<Buffer> | null): TokenAccount => {
+    const info = checkTokenAccountInfo(accountInfo, token.ACCOUNT_SIZE, AccountType.Account)
+    const rawAccount = token.AccountLayout.decode(info.data.slice(0, token.ACCOUNT_SIZE))
+
+    return {
+        address,
+        mint: rawAccount.mint,
+        owner: rawAccount.owner,
+        amount: rawAccount.amount,
+        delegate: rawAccount.delegateOption ? rawAccount.delegate : null,
+        delegatedAmount: rawAccount.delegatedAmount,
+        isInitialized: rawAccount.state !== token.AccountState.Uninitialized,
+        isFrozen: rawAccount.state === token.AccountState.Frozen,
+        isNative: !!rawAccount.isNativeOption,
+        rentExemptReserve: rawAccount.isNativeOption ? rawAccount.isNative : null,
+        closeAuthority: rawAccount.closeAuthorityOption ? rawAccount.closeAuthority : null,
+        programId: info.owner,
+        extensionTypes: getAccountExtensionTypes(info.data),
+    }
+};
+
+/**
+ * `getTokenAccount` fetches a token account of either token program.
+ * @param connection - Connection to the cluster.
+ * @param address - Address of the token account.
+ * @param commitment - Desired level of commitment for querying the state.
+ */
+export const getTokenAccount = async (
+    connection: web3.Connection,
+    address: web3.PublicKey,
+    commitment?: web3.Commitment
+): Promise<TokenAccount> => unpackTokenAccount(address, await connection.getAccountInfo(address, commitment));
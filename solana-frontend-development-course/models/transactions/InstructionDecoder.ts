@@ -0,0 +1,135 @@
+import * as web3 from '@solana/web3.js'
+import * as token from '@solana/spl-token'
+
+import { MovieReviewCodec, MovieReviewVariant } from '../movies/MovieReview'
+import { StudentIntroCodec, StudentIntroVariant } from '../serialize/StudentIntroReference'
+import { formatTokenAmount } from '../tokens/TokenAmount'
+import { TOKEN_PROGRAMS } from '../tokens/TokenProgram'
+import { MOVIE_REVIEW_PROGRAM_ID } from '../../scripts/movies/MovieReviewCoordinator'
+import { STUDENT_INTRO_PROGRAM_ID } from '../../scripts/serialize/StudentIntroCoordinatorReference'
+
+/*
+    Instruction Decoding: says what an instruction does, so it can be shown before
+    the wallet is asked to sign it.
+
+    The system program, both token programs, the associated token account program
+    and the student intro and movie review programs are decoded into a name and
+    the accounts and values they're given. Instructions of other programs only
+    show their program and the size of their data.
+*/
+
+export interface DecodedInstruction {
+    // the program's name, or its address if it isn't known
+    program: string;
+    name: string;
+    // label and value of every account and argument
+    details: [string, string][];
+};
+
+// "MintToChecked" as "Mint To Checked"
+const spaceWords = (name: string) => name.replace(/([a-z0-9])([A-Z])/g, '$1 $2');
+
+const formatValue = (label: string, value: unknown): string => {
+    if (value instanceof web3.PublicKey) { return value.toBase58() }
+    // lamports are SOL with 9 decimals
+    if (label === 'lamports') { return `${formatTokenAmount(BigInt(String(value)), 9)} SOL` }
+    if (value === null || value === undefined) { return 'none' }
+    return String(value)
+};
+
+// every field of a decoded instruction, in the order they're declared
+const detailsOf = (fields: { [label: string]: unknown }): [string, string][] =>
+    Object.keys(fields).map(label => [label, formatValue(label, fields[label])]);
+
+// what a known program's instruction does, without the program
+type InstructionDecoder = (instruction: web3.TransactionInstruction) => Omit<DecodedInstruction, 'program'>;
+
+const decodeSystemInstruction: InstructionDecoder = instruction => {
+    const type = web3.SystemInstruction.decodeInstructionType(instruction)
+    // the decoders are static methods that use `this`, so they're called through `SystemInstruction`
+    const decoders: { [type: string]: (instruction: web3.TransactionInstruction) => object } = {
+        Create: instruction => web3.SystemInstruction.decodeCreateAccount(instruction),
+        Transfer: instruction => web3.SystemInstruction.decodeTransfer(instruction),
+        Assign: instruction => web3.SystemInstruction.decodeAssign(instruction),
+        Allocate: instruction => web3.SystemInstruction.decodeAllocate(instruction),
+    }
+    const decode = decoders[type]
+    return {
+        name: type === 'Create' ? 'Create Account' : spaceWords(type),
+        details: decode ? detailsOf(decode(instruction) as { [label: string]: unknown }) : [],
+    }
+};
+
+const decodeTokenInstruction: InstructionDecoder = instruction => {
+    const decoded = token.decodeInstruction(instruction, instruction.programId)
+    const details: [string, string][] = []
+    const keys = decoded.keys as { [label: string]: web3.AccountMeta | web3.AccountMeta[] | null }
+    Object.keys(keys).forEach(label => {
+        const meta = keys[label]
+        if (Array.isArray(meta)) {
+            meta.forEach((signer, index) => details.push([`${label} ${index + 1}`, signer.pubkey.toBase58()]))
+        } else if (meta) {
+            details.push([label, meta.pubkey.toBase58()])
+        }
+    })
+    const data = decoded.data as { [label: string]: unknown }
+    Object.keys(data)
+        .filter(label => label !== 'instruction')
+        .forEach(label => details.push([label, formatValue(label, data[label])]))
+
+    return { name: spaceWords(token.TokenInstruction[decoded.data.instruction]), details }
+};
+
+const decodeAssociatedTokenInstruction: InstructionDecoder = instruction => ({
+    name: 'Create Associated Token Account',
+    details: ['payer', 'account', 'owner', 'mint']
+        .filter((_, index) => index < instruction.keys.length)
+        .map((label, index): [string, string] => [label, instruction.keys[index].pubkey.toBase58()]),
+});
+
+const decodeStudentIntroInstruction: InstructionDecoder = instruction => {
+    const { variant, data } = StudentIntroCodec.decodeInstruction(instruction.data)
+    return {
+        name: `${StudentIntroVariant[variant] ?? variant} Intro`,
+        details: [['author', instruction.keys[0].pubkey.toBase58()], ...detailsOf({ ...data })],
+    }
+};
+
+const decodeMovieReviewInstruction: InstructionDecoder = instruction => {
+    const { variant, data } = MovieReviewCodec.decodeInstruction(instruction.data)
+    return {
+        name: `${MovieReviewVariant[variant] ?? variant} Review`,
+        details: [['author', instruction.keys[0].pubkey.toBase58()], ...detailsOf({ ...data })],
+    }
+};
+
+const KNOWN_PROGRAMS: { programId: web3.PublicKey, name: string, decode: InstructionDecoder }[] = [
+    { programId: web3.SystemProgram.programId, name: 'System Program', decode: decodeSystemInstruction },
+    ...TOKEN_PROGRAMS.map(({ programId, name }) => ({ programId, name, decode: decodeTokenInstruction })),
+    { programId: token.ASSOCIATED_TOKEN_PROGRAM_ID, name: 'Associated Token Account Program', decode: decodeAssociatedTokenInstruction },
+    { programId: new web3.PublicKey(STUDENT_INTRO_PROGRAM_ID), name: 'Student Intro Program', decode: decodeStudentIntroInstruction },
+    { programId: new web3.PublicKey(MOVIE_REVIEW_PROGRAM_ID), name: 'Movie Review Program', decode: decodeMovieReviewInstruction },
+]
+
+/**
+ * `decodeInstruction` says what an instruction does.
+ * @param instruction - An instruction of any program.
+ * @returns Its program and name, and its accounts and arguments if the program is known.
+ */
+export const decodeInstruction = (instruction: web3.TransactionInstruction): DecodedInstruction => {
+    const known = KNOWN_PROGRAMS.find(({ programId }) => programId.equals(instruction.programId))
+    const program = known?.name ?? instruction.programId.toBase58()
+
+    if (known) {
+        try {
+            return { program, ...known.decode(instruction) }
+        } catch (error) {
+            // data the decoder doesn't understand, e.g. an instruction added after the library was released
+        }
+    }
+    return {
+        program,
+        name: 'Unknown instruction',
+        details: [['data', `${instruction.data.length} bytes`]],
+    }
+};
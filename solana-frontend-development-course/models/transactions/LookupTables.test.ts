@@ -0,0 +1,85 @@
+import * as fc from 'fast-check'
+import * as web3 from '@solana/web3.js'
+
+import {
+    LookupTableAction,
+    lookupTableActionBlocker,
+    LookupTableError,
+    lookupTableStatus,
+    MAX_LOOKUP_TABLE_ADDRESSES,
+    parseAddressList,
+} from './LookupTables'
+
+// what a table stores as its deactivation slot while it's active
+const ACTIVE = BigInt('0xffffffffffffffff')
+
+const tableWith = (deactivationSlot: bigint, addresses: web3.PublicKey[] = []) => new web3.AddressLookupTableAccount({
+    key: web3.PublicKey.default,
+    state: { deactivationSlot, lastExtendedSlot: 0, lastExtendedSlotStartIndex: 0, authority: undefined, addresses },
+})
+
+// compared as strings, since a key made from a number and the same key parsed from text differ inside
+const base58 = (addresses: web3.PublicKey[]) => addresses.map(address => address.toBase58())
+
+// `count` distinct addresses, counting up from `first`
+const addresses = (count: number, first: number = 1) => Array.from({ length: count }, (_, index) => new web3.PublicKey(first + index))
+
+describe('parseAddressList', () => {
+    it('reads addresses separated by commas, spaces and new lines, dropping repeats', () => {
+        const [a, b, c] = addresses(3)
+        const text = ` ${a.toBase58()},${b.toBase58()}\n\n${a.toBase58()}   ${c.toBase58()},, `
+        expect(base58(parseAddressList(text))).toEqual(base58([a, b, c]))
+    })
+
+    it('drops the addresses already in the table', () => {
+        const [a, b] = addresses(2)
+        expect(base58(parseAddressList(`${a.toBase58()} ${b.toBase58()}`, [a]))).toEqual(base58([b]))
+    })
+
+    it('reads nothing from a blank list', () => {
+        expect(parseAddressList(' \n, ')).toEqual([])
+    })
+
+    it('names the entry that isn\'t an address', () => {
+        expect(() => parseAddressList(`${addresses(1)[0].toBase58()}, nope`)).toThrow(new LookupTableError('\'nope\' is not a valid address'))
+    })
+
+    it('refuses more addresses than a table holds', () => {
+        fc.assert(fc.property(fc.integer({ min: 0, max: 20 }), fc.integer({ min: 0, max: 20 }), (extra, existing) => {
+            const table = addresses(MAX_LOOKUP_TABLE_ADDRESSES - existing)
+            const text = base58(addresses(existing + extra, 1000)).join(',')
+            if (extra === 0) {
+                expect(parseAddressList(text, table)).toHaveLength(existing)
+            } else {
+                expect(() => parseAddressList(text, table)).toThrow(LookupTableError)
+            }
+        }), { numRuns: 20 })
+    })
+})
+
+describe('lookupTableStatus', () => {
+    it('tells active tables from cooling down and closable ones', () => {
+        fc.assert(fc.property(fc.nat(1000000), fc.nat(2000), (deactivated, elapsed) => {
+            const slot = deactivated + elapsed
+            expect(lookupTableStatus(tableWith(ACTIVE), slot)).toBe('active')
+            expect(lookupTableStatus(tableWith(BigInt(deactivated)), slot)).toBe(elapsed > 513 ? 'deactivated' : 'deactivating')
+        }))
+    })
+
+    it('only allows the actions the status permits', () => {
+        const active = tableWith(ACTIVE)
+        const full = tableWith(ACTIVE, addresses(MAX_LOOKUP_TABLE_ADDRESSES))
+        const deactivated = tableWith(BigInt(0))
+
+        expect(lookupTableActionBlocker(LookupTableAction.Create)).toBeNull()
+        expect(lookupTableActionBlocker(LookupTableAction.Extend)).toBe('Choose a table')
+        expect(lookupTableActionBlocker(LookupTableAction.Extend, active, 'active')).toBeNull()
+        expect(lookupTableActionBlocker(LookupTableAction.Extend, full, 'active')).toBe('The table is full')
+        expect(lookupTableActionBlocker(LookupTableAction.Extend, deactivated, 'deactivating')).not.toBeNull()
+        expect(lookupTableActionBlocker(LookupTableAction.Deactivate, active, 'active')).toBeNull()
+        expect(lookupTableActionBlocker(LookupTableAction.Deactivate, deactivated, 'deactivated')).not.toBeNull()
+        expect(lookupTableActionBlocker(LookupTableAction.Close, active, 'active')).toBe('Deactivate the table first')
+        expect(lookupTableActionBlocker(LookupTableAction.Close, deactivated, 'deactivating')).not.toBeNull()
+        expect(lookupTableActionBlocker(LookupTableAction.Close, deactivated, 'deactivated')).toBeNull()
+    })
+})
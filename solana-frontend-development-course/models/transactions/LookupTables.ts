@@ -0,0 +1,208 @@
+import * as web3 from '@solana/web3.js'
+
+/*
+    Address Lookup Tables: on-chain lists of addresses that a v0 transaction can
+    refer to by a one-byte index instead of the whole 32-byte address, so it fits
+    many more accounts than a legacy transaction.
+
+    1.  A table is created at an address derived from its authority and a recent
+        slot, then extended with up to 256 addresses. Addresses added in a slot
+        can only be looked up from the next slot on.
+
+    2.  A table that isn't needed anymore is deactivated. Once the deactivation
+        has cooled down, about 513 slots later, it can be closed, which returns
+        its rent.
+
+    `findLookupTables` lists the tables a wallet is the authority of, and
+    `fetchLookupTables` loads the tables a transaction should use. Every change
+    to a table is signed by its authority, which also pays for it and gets the
+    rent back.
+*/
+
+export type LookupTableStatus = 'active' | 'deactivating' | 'deactivated';
+
+export class LookupTableError extends Error {
+    constructor(message: string) {
+        super(message);
+        // restore the prototype chain, which is lost when extending `Error` under an es5 target
+        Object.setPrototypeOf(this, LookupTableError.prototype);
+        this.name = 'LookupTableError';
+    };
+};
+
+export enum LookupTableAction {
+    Create = 'create',
+    Extend = 'extend',
+    Deactivate = 'deactivate',
+    Close = 'close',
+};
+
+export const LOOKUP_TABLE_ACTIONS: { action: LookupTableAction, label: string }[] = [
+    { action: LookupTableAction.Create, label: 'Create table' },
+    { action: LookupTableAction.Extend, label: 'Add addresses' },
+    { action: LookupTableAction.Deactivate, label: 'Deactivate table' },
+    { action: LookupTableAction.Close, label: 'Close table' },
+]
+
+// the most addresses a table can hold
+export const MAX_LOOKUP_TABLE_ADDRESSES = 256
+
+// addresses added per extend instruction, so a transaction holding one stays within a packet
+export const ADDRESSES_PER_EXTEND = 20
+
+// a deactivated table can be closed once its deactivation slot has left the recent slot hashes
+const DEACTIVATION_COOLDOWN_SLOTS = 513
+
+// the authority follows the type (4 bytes), the deactivation slot (8), the last extended slot (8),
+// the index that slot started at (1) and the authority's option tag (1)
+const AUTHORITY_OFFSET = 22
+
+/**
+ * `lookupTableStatus` tells whether a table can still be used, is cooling down, or can be closed.
+ * @param table - The table, as loaded from the cluster.
+ * @param slot - The cluster's current slot.
+ */
+export const lookupTableStatus = (table: web3.AddressLookupTableAccount, slot: number): LookupTableStatus => {
+    if (table.isActive()) { return 'active' }
+    return BigInt(slot) > table.state.deactivationSlot + BigInt(DEACTIVATION_COOLDOWN_SLOTS) ? 'deactivated' : 'deactivating'
+};
+
+/**
+ * `lookupTableActionBlocker` checks whether an action can be taken on a table.
+ * @param action - The action to check.
+ * @param table - The table to change, for every action but creating one.
+ * @param status - The table's status.
+ * @returns Why the action isn't possible, or `null` if it is.
+ */
+export const lookupTableActionBlocker = (
+    action: LookupTableAction,
+    table?: web3.AddressLookupTableAccount,
+    status?: LookupTableStatus
+): string | null => {
+    if (action === LookupTableAction.Create) { return null }
+    if (!table || !status) { return 'Choose a table' }
+    switch (action) {
+        case LookupTableAction.Extend:
+            if (status !== 'active') { return 'Deactivated tables can\'t be extended' }
+            return table.state.addresses.length < MAX_LOOKUP_TABLE_ADDRESSES ? null : 'The table is full'
+        case LookupTableAction.Deactivate:
+            return status === 'active' ? null : 'The table was already deactivated'
+        case LookupTableAction.Close:
+            return status === 'deactivated' ? null
+                : status === 'active' ? 'Deactivate the table first'
+                : 'The table can be closed once its deactivation has cooled down'
+    }
+};
+
+/**
+ * `findLookupTables` lists every lookup table a wallet is the authority of.
+ * @param connection - The cluster to look on.
+ * @param authority - The wallet that created the tables.
+ */
+export const findLookupTables = async (connection: web3.Connection, authority: web3.PublicKey): Promise<web3.AddressLookupTableAccount[]> => {
+    const accounts = await connection.getProgramAccounts(web3.AddressLookupTableProgram.programId, {
+        filters: [{ memcmp: { offset: AUTHORITY_OFFSET, bytes: authority.toBase58() } }],
+    })
+    return accounts.map(({ pubkey, account }) => new web3.AddressLookupTableAccount({
+        key: pubkey,
+        state: web3.AddressLookupTableAccount.deserialize(account.data),
+    }))
+};
+
+/**
+ * `fetchLookupTables` loads the tables a v0 transaction should look its accounts up in.
+ * @param connection - The cluster the tables are on.
+ * @param addresses - The addresses of the tables.
+ * @throws LookupTableError if a table doesn't exist or was deactivated.
+ */
+export const fetchLookupTables = async (connection: web3.Connection, addresses: web3.PublicKey[]): Promise<web3.AddressLookupTableAccount[]> => {
+    const tables = await Promise.all(addresses.map(address => connection.getAddressLookupTable(address)))
+    return tables.map(({ value }, index) => {
+        if (!value) {
+            throw new LookupTableError(`There is no lookup table at ${addresses[index].toBase58()}`)
+        }
+        if (!value.isActive()) {
+            throw new LookupTableError(`The lookup table at ${addresses[index].toBase58()} was deactivated`)
+        }
+        return value
+    })
+};
+
+/**
+ * `createLookupTableInstruction` creates an empty table owned by the authority, who pays its rent.
+ * @param authority - The wallet that may extend, deactivate and close the table.
+ * @param recentSlot - A recent slot, which the table's address is derived from.
+ */
+export const createLookupTableInstruction = (authority: web3.PublicKey, recentSlot: number) => {
+    const [instruction, address] = web3.AddressLookupTableProgram.createLookupTable({ authority, payer: authority, recentSlot })
+    return { address, instruction }
+};
+
+/**
+ * `extendLookupTableInstructions` adds addresses to a table, `ADDRESSES_PER_EXTEND` per instruction.
+ * Send each instruction in its own transaction.
+ * @param table - The table to extend.
+ * @param authority - The table's authority, who also pays for the extra space.
+ * @param addresses - The addresses to add.
+ */
+export const extendLookupTableInstructions = (
+    table: web3.PublicKey,
+    authority: web3.PublicKey,
+    addresses: web3.PublicKey[]
+): web3.TransactionInstruction[] => {
+    const instructions: web3.TransactionInstruction[] = []
+    for (let start = 0; start < addresses.length; start += ADDRESSES_PER_EXTEND) {
+        instructions.push(web3.AddressLookupTableProgram.extendLookupTable({
+            lookupTable: table,
+            authority,
+            payer: authority,
+            addresses: addresses.slice(start, start + ADDRESSES_PER_EXTEND),
+        }))
+    }
+    return instructions
+};
+
+/**
+ * `deactivateLookupTableInstruction` stops a table from being used, so it can be closed later.
+ * @param table - The table to deactivate.
+ * @param authority - The table's authority.
+ */
+export const deactivateLookupTableInstruction = (table: web3.PublicKey, authority: web3.PublicKey) => {
+    return web3.AddressLookupTableProgram.deactivateLookupTable({ lookupTable: table, authority })
+};
+
+/**
+ * `closeLookupTableInstruction` closes a deactivated table, returning its rent to the authority.
+ * @param table - The table to close.
+ * @param authority - The table's authority.
+ */
+export const closeLookupTableInstruction = (table: web3.PublicKey, authority: web3.PublicKey) => {
+    return web3.AddressLookupTableProgram.closeLookupTable({ lookupTable: table, authority, recipient: authority })
+};
+
+/**
+ * `parseAddressList` reads addresses separated by commas, spaces or new lines, dropping repeats.
+ * @param text - The list as typed.
+ * @param existing - Addresses already in the table, which are dropped too.
+ * @throws LookupTableError if an entry isn't an address or the table would hold too many.
+ */
+export const parseAddressList = (text: string, existing: web3.PublicKey[] = []): web3.PublicKey[] => {
+    const seen = new Set(existing.map(address => address.toBase58()))
+    const addresses: web3.PublicKey[] = []
+    text.split(/[\s,]+/).filter(entry => entry.length > 0).forEach(entry => {
+        let address: web3.PublicKey
+        try {
+            address = new web3.PublicKey(entry)
+        } catch (error) {
+            throw new LookupTableError(`'${entry}' is not a valid address`)
+        }
+        if (!seen.has(address.toBase58())) {
+            seen.add(address.toBase58())
+            addresses.push(address)
+        }
+    })
+    if (existing.length + addresses.length > MAX_LOOKUP_TABLE_ADDRESSES) {
+        throw new LookupTableError(`A lookup table holds at most ${MAX_LOOKUP_TABLE_ADDRESSES} addresses`)
+    }
+    return addresses
+};
@@ -0,0 +1,141 @@
+import * as web3 from '@solana/web3.js'
+
+import { decodeInstruction, DecodedInstruction } from './InstructionDecoder'
+import { getTokenMints, unpackTokenAccount, unpackTokenMint, TokenAccount } from '../tokens/TokenProgram'
+
+/*
+    Transaction Preview: what a transaction would do, worked out before the wallet
+    is asked to sign it.
+
+    The transaction is simulated with a snapshot of every account it writes to,
+    and each snapshot is compared with the account as it is now. Accounts a v0
+    transaction looks up in address lookup tables count too, which is why the
+    tables it uses are needed to preview it. Lamports that
+    move show up as SOL changes, token accounts whose amount moves show up as token
+    changes, in the units of their mint. The decoded instructions, the program logs
+    and the compute units the cluster reports come along, so the preview can be
+    shown as it is.
+*/
+
+export interface SolBalanceChange {
+    address: web3.PublicKey;
+    // lamports before and after the transaction
+    before: number;
+    after: number;
+};
+
+export interface TokenBalanceChange {
+    // the token account whose amount changes
+    account: web3.PublicKey;
+    mint: web3.PublicKey;
+    owner: web3.PublicKey;
+    decimals: number;
+    // raw amounts before and after the transaction
+    before: bigint;
+    after: bigint;
+};
+
+export interface TransactionPreview {
+    instructions: DecodedInstruction[];
+    solChanges: SolBalanceChange[];
+    tokenChanges: TokenBalanceChange[];
+    // `null` when the cluster doesn't report it
+    unitsConsumed: number | null;
+    logs: string[];
+    // why the simulation failed, `null` if it succeeded
+    err: web3.TransactionError | string | null;
+};
+
+// the token account in `info`, or `null` if it isn't one
+const tryUnpackTokenAccount = (address: web3.PublicKey, info: web3.AccountInfo<Buffer> | null): TokenAccount | null => {
+    try {
+        return unpackTokenAccount(address, info)
+    } catch (error) {
+        return null
+    }
+};
+
+// a simulated account in the shape `getAccountInfo` returns
+const toAccountInfo = (account: web3.SimulatedTransactionAccountInfo | null): web3.AccountInfo<Buffer> | null => account && {
+    executable: account.executable,
+    owner: new web3.PublicKey(account.owner),
+    lamports: account.lamports,
+    data: Buffer.from(account.data[0], 'base64'),
+    rentEpoch: account.rentEpoch,
+};
+
+/**
+ * `previewTransaction` simulates a transaction and works out what it would change.
+ * @param connection - The cluster to simulate it on.
+ * @param transaction - A transaction with its fee payer set; it doesn't have to be signed.
+ * @param lookupTables - The tables a v0 transaction looks its accounts up in.
+ * @returns Its decoded instructions, the balances it would change, its logs and the simulation's outcome.
+ */
+export const previewTransaction = async (
+    connection: web3.Connection,
+    transaction: web3.Transaction | web3.VersionedTransaction,
+    lookupTables: web3.AddressLookupTableAccount[] = [],
+): Promise<TransactionPreview> => {
+    const versioned = transaction instanceof web3.VersionedTransaction
+        ? transaction
+        : new web3.VersionedTransaction(transaction.compileMessage())
+    const { message } = versioned
+    // only writable accounts can change
+    const accountKeys = message.getAccountKeys({ addressLookupTableAccounts: lookupTables })
+    const writable = accountKeys.keySegments().flat().filter((_, index) => message.isAccountWritable(index))
+
+    const accountsBefore = await connection.getMultipleAccountsInfo(writable)
+    const { value: simulation } = await connection.simulateTransaction(versioned, {
+        sigVerify: false,
+        accounts: { encoding: 'base64', addresses: writable.map(address => address.toBase58()) },
+    })
+    const accountsAfter = (simulation.accounts ?? []).map(toAccountInfo)
+
+    const solChanges: SolBalanceChange[] = []
+    const tokenAccounts: { before: TokenAccount | null, after: TokenAccount }[] = []
+    // a failed simulation changes nothing
+    if (!simulation.err) {
+        writable.forEach((address, index) => {
+            const lamportsBefore = accountsBefore[index]?.lamports ?? 0
+            const lamportsAfter = accountsAfter[index]?.lamports ?? 0
+            if (lamportsBefore !== lamportsAfter) {
+                solChanges.push({ address, before: lamportsBefore, after: lamportsAfter })
+            }
+
+            const tokenAccount = tryUnpackTokenAccount(address, accountsAfter[index] ?? null)
+            const previous = tryUnpackTokenAccount(address, accountsBefore[index])
+            if (tokenAccount && tokenAccount.amount !== (previous?.amount ?? BigInt(0))) {
+                tokenAccounts.push({ before: previous, after: tokenAccount })
+            }
+        })
+    }
+
+    const mints = await getTokenMints(connection, tokenAccounts.map(({ after }) => after.mint))
+    // a mint created by this same transaction doesn't exist yet, but it's among the simulated accounts
+    const decimalsOf = (mint: web3.PublicKey, index: number): number => {
+        const position = writable.findIndex(address => address.equals(mint))
+        if (mints[index] || position < 0) { return mints[index]?.decimals ?? 0 }
+        try {
+            return unpackTokenMint(mint, accountsAfter[position] ?? null).decimals
+        } catch (error) {
+            return 0
+        }
+    }
+    const tokenChanges = tokenAccounts.map(({ before, after }, index): TokenBalanceChange => ({
+        account: after.address,
+        mint: after.mint,
+        owner: after.owner,
+        decimals: decimalsOf(after.mint, index),
+        before: before?.amount ?? BigInt(0),
+        after: after.amount,
+    }))
+
+    return {
+        instructions: web3.TransactionMessage.decompile(message, { addressLookupTableAccounts: lookupTables }).instructions.map(decodeInstruction),
+        solChanges,
+        tokenChanges,
+        unitsConsumed: simulation.unitsConsumed ?? null,
+        logs: simulation.logs ?? [],
+        err: simulation.err,
+    }
+};
@@ -0,0 +1,172 @@
+import bs58 from 'bs58'
+import * as web3 from '@solana/web3.js'
+
+import { MockConnection } from '../../mock/MockConnection'
+import { MockWalletAdapter } from '../../mock/MockWalletAdapter'
+import { MAX_SEND_ATTEMPTS, sendWithRetries, TransactionSendError, TransactionStatus, waitForCommitment } from './TransactionSender'
+
+// a connected mock wallet with enough SOL to pay for new accounts
+const fundedWallet = async (connection: MockConnection): Promise<MockWalletAdapter> => {
+    const keypair = web3.Keypair.generate()
+    connection.ledger.credit(keypair.publicKey, 10 * web3.LAMPORTS_PER_SOL)
+    const wallet = new MockWalletAdapter(keypair)
+    await wallet.connect()
+    return wallet
+}
+
+// moves lamports out of the wallet, one SOL unless said otherwise
+const transferFrom = (wallet: MockWalletAdapter, lamports: number = web3.LAMPORTS_PER_SOL): web3.Transaction =>
+    new web3.Transaction().add(web3.SystemProgram.transfer({
+        fromPubkey: wallet.publicKey!,
+        toPubkey: web3.Keypair.generate().publicKey,
+        lamports,
+    }))
+
+// a signature the cluster has never seen
+const unknownSignature = (seed: number): string => bs58.encode(Buffer.alloc(64, seed))
+
+// stands in for a wallet whose transaction is dropped: the cluster never sees it and its blockhash expires
+const dropped = (connection: MockConnection, attempt: number): string => {
+    connection.ledger.slot += 1000
+    return unknownSignature(attempt)
+}
+
+describe('waitForCommitment', () => {
+    it('reports the confirmation status and resolves once the commitment is reached', async () => {
+        const connection = new MockConnection()
+        const wallet = await fundedWallet(connection)
+        const transaction = transferFrom(wallet)
+        const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash()
+        transaction.recentBlockhash = blockhash
+        transaction.feePayer = wallet.publicKey!
+        const signature = await wallet.sendTransaction(transaction, connection)
+
+        const reported: web3.TransactionConfirmationStatus[] = []
+        expect(await waitForCommitment(connection, signature, lastValidBlockHeight, 'confirmed', status => reported.push(status))).toBe(true)
+        expect(reported).toEqual(['finalized'])
+    })
+
+    it('gives up once the blockhash expired before the cluster saw the transaction', async () => {
+        const connection = new MockConnection()
+        const { lastValidBlockHeight } = await connection.getLatestBlockhash()
+        connection.ledger.slot = lastValidBlockHeight + 1
+
+        expect(await waitForCommitment(connection, unknownSignature(1), lastValidBlockHeight, 'confirmed', () => {})).toBe(false)
+    })
+
+    it('stops polling when it is cancelled', async () => {
+        const connection = new MockConnection()
+        const statuses = jest.spyOn(connection, 'getSignatureStatuses')
+
+        expect(await waitForCommitment(connection, unknownSignature(1), 1000, 'confirmed', () => {}, () => true)).toBe(false)
+        expect(statuses).not.toHaveBeenCalled()
+    })
+
+    it('throws when the transaction landed but failed', async () => {
+        const connection = new MockConnection()
+        jest.spyOn(connection, 'getSignatureStatuses').mockResolvedValue({
+            context: { slot: 1 },
+            value: [{ slot: 1, confirmations: null, err: { InstructionError: [0, { Custom: 1 }] }, confirmationStatus: 'confirmed' }],
+        })
+
+        const waiting = waitForCommitment(connection, unknownSignature(1), 1000, 'confirmed', () => {})
+        await expect(waiting).rejects.toMatchObject({ reason: 'failed', message: 'Instruction 0 failed: custom program error 1' })
+    })
+})
+
+describe('sendWithRetries', () => {
+    it.each([['v0', 0], ['legacy', 'legacy']] as [string, web3.TransactionVersion][])('signs %s transactions with the extra signers', async (_, version) => {
+        const connection = new MockConnection()
+        const wallet = await fundedWallet(connection)
+        const account = web3.Keypair.generate()
+        const signers = [account]
+        const transaction = new web3.Transaction().add(web3.SystemProgram.createAccount({
+            fromPubkey: wallet.publicKey!,
+            newAccountPubkey: account.publicKey,
+            lamports: web3.LAMPORTS_PER_SOL,
+            space: 0,
+            programId: web3.SystemProgram.programId,
+        }))
+
+        const { signature } = await sendWithRetries(connection, transaction, {
+            feePayer: wallet.publicKey!,
+            send: prepared => wallet.sendTransaction(prepared, connection, { signers }),
+            signers,
+            version,
+            onStatus: () => {},
+        })
+
+        expect(signature).toBeTruthy()
+        expect(await connection.getBalance(account.publicKey)).toBe(web3.LAMPORTS_PER_SOL)
+    })
+    it('signs again with a fresh blockhash when an attempt expires', async () => {
+        const connection = new MockConnection()
+        const wallet = await fundedWallet(connection)
+        const statuses: TransactionStatus[] = []
+        const blockhashes: string[] = []
+
+        const { attempt } = await sendWithRetries(connection, transferFrom(wallet), {
+            feePayer: wallet.publicKey!,
+            send: async prepared => {
+                blockhashes.push((prepared as web3.VersionedTransaction).message.recentBlockhash)
+                return blockhashes.length === 1 ? dropped(connection, 1) : wallet.sendTransaction(prepared, connection)
+            },
+            onStatus: status => statuses.push(status),
+        })
+
+        expect(attempt).toBe(2)
+        expect(new Set(blockhashes).size).toBe(2)
+        expect(statuses).toContainEqual({ stage: 'signing', attempt: 2 })
+    })
+
+    it('throws once every attempt expired', async () => {
+        const connection = new MockConnection()
+        const wallet = await fundedWallet(connection)
+        let attempts = 0
+
+        const sending = sendWithRetries(connection, transferFrom(wallet), {
+            feePayer: wallet.publicKey!,
+            send: async () => dropped(connection, ++attempts),
+            onStatus: () => {},
+        })
+
+        await expect(sending).rejects.toMatchObject({ reason: 'expired' })
+        expect(attempts).toBe(MAX_SEND_ATTEMPTS)
+    })
+
+    it('never asks the wallet to sign a transaction that fails simulation', async () => {
+        const connection = new MockConnection()
+        const wallet = await fundedWallet(connection)
+        const send = jest.fn()
+
+        const sending = sendWithRetries(connection, transferFrom(wallet, 100 * web3.LAMPORTS_PER_SOL), {
+            feePayer: wallet.publicKey!,
+            send,
+            onStatus: () => {},
+        })
+
+        await expect(sending).rejects.toMatchObject({ reason: 'simulation' })
+        expect(send).not.toHaveBeenCalled()
+    })
+
+    it('throws instead of resolving when polling is cancelled', async () => {
+        const connection = new MockConnection()
+        const wallet = await fundedWallet(connection)
+        const transaction = transferFrom(wallet)
+        // cancelled as soon as it's sent, like a page that's left while the transaction is in flight
+        let sent = false
+
+        const sending = sendWithRetries(connection, transaction, {
+            feePayer: wallet.publicKey!,
+            send: async prepared => {
+                sent = true
+                return wallet.sendTransaction(prepared, connection)
+            },
+            onStatus: () => {},
+            isCancelled: () => sent,
+        })
+
+        await expect(sending).rejects.toThrow(TransactionSendError)
+        await expect(sending).rejects.toMatchObject({ reason: 'cancelled' })
+    })
+})
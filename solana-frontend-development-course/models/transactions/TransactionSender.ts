@@ -0,0 +1,260 @@
+import * as web3 from '@solana/web3.js'
+
+import { previewTransaction, TransactionPreview } from './TransactionPreview'
+
+/*
+    Sending a transaction, the same way on every page:
+
+    1.  The transaction is simulated first, so a transaction that would fail is
+        reported with the program's logs before the wallet asks to sign it. A
+        transaction that would succeed can be shown for review, with the balances
+        it changes, and only goes on once it's approved.
+
+    2.  A recent blockhash and the fee payer are set, then the wallet signs and
+        sends it.
+
+    3.  Its status is polled through processed, confirmed and finalized. A
+        transaction that isn't seen before its blockhash expires can't land
+        anymore, so it's signed again with a fresh blockhash, a few times at
+        most.
+
+    Every step is reported as a `TransactionStatus`, which pages render as they
+    like, e.g. with `TransactionProgress`.
+
+    Transactions are sent as v0 transactions, whose message can look accounts up
+    in address lookup tables and so fit many more of them; see `LookupTables.ts`.
+    Wallets that can't sign v0 transactions are sent legacy ones instead, which
+    can't use lookup tables.
+*/
+
+export const MAX_SEND_ATTEMPTS = 3
+
+// how long to wait between status polls
+const POLL_INTERVAL_MS = 1000
+
+export type TransactionStatus =
+    | { stage: 'idle' }
+    | { stage: 'simulating' }
+    // the preview is shown, waiting to be approved or cancelled
+    | { stage: 'reviewing' }
+    // the wallet is asked to sign; attempts after the first use a fresh blockhash
+    | { stage: 'signing'; attempt: number }
+    // `confirmationStatus` stays `null` until the cluster has seen the transaction
+    | { stage: 'sent'; attempt: number; signature: string; confirmationStatus: web3.TransactionConfirmationStatus | null }
+    | { stage: 'failed'; message: string; signature: string | null; logs: string[] };
+
+export type SendFailure = 'simulation' | 'cancelled' | 'failed' | 'expired';
+
+export class TransactionSendError extends Error {
+    // why the transaction didn't land: it failed simulation, was cancelled in review or while polling, failed on-chain, or expired every attempt
+    readonly reason: SendFailure
+    readonly signature: string | null
+    readonly logs: string[]
+
+    constructor(reason: SendFailure, message: string, signature: string | null = null, logs: string[] = []) {
+        super(message);
+        // restore the prototype chain, which is lost when extending `Error` under an es5 target
+        Object.setPrototypeOf(this, TransactionSendError.prototype);
+        this.name = 'TransactionSendError';
+        this.reason = reason;
+        this.signature = signature;
+        this.logs = logs;
+    };
+};
+
+export interface SendOptions {
+    // the wallet that pays the fee and signs
+    feePayer: web3.PublicKey;
+    // signs and sends a prepared transaction, e.g. the wallet adapter's `sendTransaction`
+    send: (transaction: web3.Transaction | web3.VersionedTransaction) => Promise<string>;
+    // keypairs that sign next to the wallet; v0 transactions are signed with them before `send`, legacy ones are left to it
+    signers?: web3.Signer[];
+    // v0 by default; 'legacy' for wallets that can't sign v0 transactions
+    version?: web3.TransactionVersion;
+    // tables the v0 message looks its accounts up in
+    lookupTables?: web3.AddressLookupTableAccount[];
+    // sending resolves once the transaction reaches this commitment
+    commitment?: web3.Commitment;
+    onStatus: (status: TransactionStatus) => void;
+    // shows what the transaction would do and resolves whether to go on; without it every transaction goes on
+    review?: (preview: TransactionPreview) => Promise<boolean>;
+    // stops polling, e.g. when the page is left
+    isCancelled?: () => boolean;
+};
+
+/**
+ * `describeTransactionError` turns the error of a failed transaction into a sentence.
+ * @param err - The error reported by the cluster, e.g. `{ InstructionError: [0, { Custom: 1 }] }`.
+ */
+export const describeTransactionError = (err: web3.TransactionError | string): string => {
+    if (typeof err === 'string') { return err }
+
+    const instructionError = (err as { InstructionError?: [number, unknown] }).InstructionError
+    if (Array.isArray(instructionError)) {
+        const [index, cause] = instructionError
+        const reason = typeof cause === 'string' ? cause
+            : cause && typeof cause === 'object' && 'Custom' in cause ? `custom program error ${(cause as { Custom: number }).Custom}`
+            : JSON.stringify(cause)
+        return `Instruction ${index} failed: ${reason}`
+    }
+    return JSON.stringify(err)
+};
+
+const COMMITMENT_ORDER: web3.TransactionConfirmationStatus[] = ['processed', 'confirmed', 'finalized']
+
+// whether a transaction at `status` has reached `commitment`; the older commitment names count as their modern ones
+const hasReached = (status: web3.TransactionConfirmationStatus | null | undefined, commitment: web3.Commitment): boolean => {
+    if (!status) { return false }
+    const target = commitment === 'max' || commitment === 'root' ? 'finalized'
+        : commitment === 'single' || commitment === 'singleGossip' || commitment === 'recent' ? 'processed'
+        : commitment
+    return COMMITMENT_ORDER.indexOf(status) >= COMMITMENT_ORDER.indexOf(target as web3.TransactionConfirmationStatus)
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * `waitForCommitment` polls a sent transaction until it reaches a commitment, reporting each one it passes.
+ * @param connection - The cluster it was sent to.
+ * @param signature - The signature of the transaction.
+ * @param lastValidBlockHeight - The block height after which its blockhash expires.
+ * @param commitment - The commitment to wait for.
+ * @param onStatus - Called with the transaction's confirmation status whenever it advances.
+ * @param isCancelled - Stops polling when it returns true.
+ * @returns `true` once the commitment is reached, `false` if the blockhash expired before the cluster saw the transaction or polling was cancelled.
+ * @throws TransactionSendError if the transaction landed but failed.
+ */
+export const waitForCommitment = async (
+    connection: web3.Connection,
+    signature: string,
+    lastValidBlockHeight: number,
+    commitment: web3.Commitment,
+    onStatus: (confirmationStatus: web3.TransactionConfirmationStatus) => void,
+    isCancelled: () => boolean = () => false,
+): Promise<boolean> => {
+    let reported: web3.TransactionConfirmationStatus | undefined
+    while (!isCancelled()) {
+        const { value: [status] } = await connection.getSignatureStatuses([signature])
+        if (status?.err) {
+            throw new TransactionSendError('failed', describeTransactionError(status.err), signature)
+        }
+        if (status?.confirmationStatus && status.confirmationStatus !== reported) {
+            reported = status.confirmationStatus
+            onStatus(reported)
+        }
+        if (hasReached(status?.confirmationStatus, commitment)) {
+            return true
+        }
+        // a transaction the cluster has seen can still land, one it hasn't can't once the blockhash is too old
+        if (!status && await connection.getBlockHeight('confirmed') > lastValidBlockHeight) {
+            return false
+        }
+        await sleep(POLL_INTERVAL_MS)
+    }
+    return false
+};
+
+// the transaction's instructions with the fee payer and a fresh blockhash, ready for the wallet to sign
+const prepare = async (
+    connection: web3.Connection,
+    transaction: web3.Transaction,
+    feePayer: web3.PublicKey,
+    version: web3.TransactionVersion,
+    lookupTables: web3.AddressLookupTableAccount[],
+): Promise<{ prepared: web3.Transaction | web3.VersionedTransaction, lastValidBlockHeight: number }> => {
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed')
+    if (version === 'legacy') {
+        return { prepared: new web3.Transaction({ feePayer, blockhash, lastValidBlockHeight }).add(...transaction.instructions), lastValidBlockHeight }
+    }
+    const message = new web3.TransactionMessage({ payerKey: feePayer, recentBlockhash: blockhash, instructions: transaction.instructions })
+    return { prepared: new web3.VersionedTransaction(message.compileToV0Message(lookupTables)), lastValidBlockHeight }
+};
+
+/**
+ * `sendWithRetries` simulates, signs, sends and confirms a transaction, signing it again with a
+ * fresh blockhash when the previous one expired before the transaction landed.
+ * @param connection - The cluster to send it to.
+ * @param transaction - The instructions to send; its blockhash, fee payer and signatures are replaced.
+ * @param options - Who pays, how it's signed and sent, which version and lookup tables it uses, and where the status goes.
+ * @returns The signature of the transaction that landed, the attempt that landed it, and the block height its blockhash is valid until.
+ * @throws TransactionSendError if simulation fails, the review or polling is cancelled, the transaction fails, or every attempt expired.
+ * @throws Error if lookup tables are given for a legacy transaction.
+ */
+export const sendWithRetries = async (
+    connection: web3.Connection,
+    transaction: web3.Transaction,
+    options: SendOptions,
+): Promise<{ signature: string, attempt: number, lastValidBlockHeight: number }> => {
+    const { feePayer, send, signers = [], version = 0, lookupTables = [], commitment = 'confirmed', onStatus, review, isCancelled } = options
+    if (version === 'legacy' && lookupTables.length > 0) {
+        throw new Error('Only v0 transactions can use lookup tables')
+    }
+
+    onStatus({ stage: 'simulating' })
+    let { prepared, lastValidBlockHeight } = await prepare(connection, transaction, feePayer, version, lookupTables)
+    // simulated without signatures, which the cluster doesn't check when simulating
+    const preview = await previewTransaction(connection, prepared, lookupTables)
+    if (preview.err) {
+        throw new TransactionSendError('simulation', describeTransactionError(preview.err), null, preview.logs)
+    }
+    if (review) {
+        onStatus({ stage: 'reviewing' })
+        if (!await review(preview)) {
+            throw new TransactionSendError('cancelled', 'The transaction was cancelled', null, preview.logs)
+        }
+    }
+
+    for (let attempt = 1; attempt <= MAX_SEND_ATTEMPTS; attempt++) {
+        if (attempt > 1) {
+            ({ prepared, lastValidBlockHeight } = await prepare(connection, transaction, feePayer, version, lookupTables))
+        }
+
+        // wallet adapters only add the other signatures to legacy transactions
+        if (prepared instanceof web3.VersionedTransaction && signers.length > 0) {
+            prepared.sign(signers)
+        }
+
+        onStatus({ stage: 'signing', attempt })
+        const signature = await send(prepared)
+        onStatus({ stage: 'sent', attempt, signature, confirmationStatus: null })
+
+        const landed = await waitForCommitment(
+            connection, signature, lastValidBlockHeight, commitment,
+            confirmationStatus => onStatus({ stage: 'sent', attempt, signature, confirmationStatus }),
+            isCancelled
+        )
+        if (landed) {
+            return { signature, attempt, lastValidBlockHeight }
+        }
+        // the transaction may still land, but nobody is waiting for it anymore
+        if (isCancelled?.()) {
+            throw new TransactionSendError('cancelled', 'Stopped waiting for the transaction before it was confirmed', signature)
+        }
+    }
+    throw new TransactionSendError('expired', `The transaction expired ${MAX_SEND_ATTEMPTS} times before it landed`)
+};
+
+/**
+ * `describeStatus` says where a transaction is, for showing next to the form that sends it.
+ * @param status - The status reported while sending.
+ */
+export const describeStatus = (status: TransactionStatus): string => {
+    switch (status.stage) {
+        case 'idle':
+            return ''
+        case 'simulating':
+            return 'Simulating...'
+        case 'reviewing':
+            return 'Waiting for you to review the transaction...'
+        case 'signing':
+            return status.attempt > 1
+                ? `The blockhash expired, sign again (attempt ${status.attempt} of ${MAX_SEND_ATTEMPTS})...`
+                : 'Waiting for your wallet to sign...'
+        case 'sent':
+            return status.confirmationStatus === 'finalized' ? 'Finalized'
+                : status.confirmationStatus ? `${status.confirmationStatus === 'processed' ? 'Processed' : 'Confirmed'}, waiting until it's finalized...`
+                : 'Sent, waiting for the cluster...'
+        case 'failed':
+            return status.message
+    }
+};
@@ -0,0 +1,158 @@
+import * as web3 from '@solana/web3.js'
+
+/*
+    Step Wizards: a page made of steps, where each step fills in outputs that
+    later steps build on, e.g. creating a mint produces the mint's address, which
+    creating a token account depends on.
+
+    Each step declares what the user fills in on its card, which outputs it
+    produces and which outputs of earlier steps it depends on. From that alone:
+
+    - a step is locked until the outputs it depends on exist, and says which
+      steps it's waiting for
+    - producing an output again clears whatever was built on the old one, e.g.
+      a new mint forgets the token account of the previous mint
+    - the outputs can be saved and restored, so a half finished setup can be
+      picked up after a reload
+
+    Outputs are addresses or text, like transaction signatures.
+*/
+
+export type OutputKind = 'address' | 'text';
+
+export type WizardOutputs<Names extends string> = { [name in Names]?: web3.PublicKey | string };
+
+// how each output is saved
+export type OutputSchema<Names extends string> = { [name in Names]: OutputKind };
+
+export interface StepDefinition<Names extends string> {
+    id: string;
+    title: string;
+    // what the user fills in on the step's card
+    inputs: string[];
+    // outputs of earlier steps that have to exist first
+    dependsOn: Names[];
+    produces: Names[];
+    // optional steps can be skipped; later steps only wait for the outputs they depend on
+    optional?: boolean;
+};
+
+export type StepStatus = 'locked' | 'ready' | 'done';
+
+export interface StepState {
+    // counted from 1, in the order the steps are declared
+    number: number;
+    status: StepStatus;
+    optional: boolean;
+    // titles of the steps producing the missing outputs
+    waitingFor: string[];
+};
+
+const isSet = (value: web3.PublicKey | string | undefined) => value !== undefined && value !== '';
+
+/**
+ * `getStepStates` works out which steps are done, ready or still waiting for earlier ones.
+ * @param steps - The steps, in order.
+ * @param outputs - The outputs produced so far.
+ * @returns The state of each step, in the same order.
+ */
+export const getStepStates = <Names extends string>(steps: StepDefinition<Names>[], outputs: WizardOutputs<Names>): StepState[] =>
+    steps.map((step, index) => {
+        const missing = step.dependsOn.filter(name => !isSet(outputs[name]))
+        const waitingFor = steps
+            .filter(producer => producer.produces.some(name => missing.includes(name)))
+            .map(producer => producer.title)
+        const done = step.produces.some(name => isSet(outputs[name]))
+
+        return {
+            number: index + 1,
+            status: missing.length > 0 ? 'locked' : done ? 'done' : 'ready',
+            optional: !!step.optional,
+            waitingFor,
+        }
+    });
+
+// the outputs built, directly or through other steps, on the given ones
+const dependentOutputs = <Names extends string>(steps: StepDefinition<Names>[], changed: Names[]): Names[] => {
+    const dependents = new Set<Names>()
+    let frontier = changed
+    while (frontier.length > 0) {
+        const next: Names[] = []
+        steps
+            .filter(step => step.dependsOn.some(name => frontier.includes(name)))
+            .forEach(step => step.produces.forEach(name => {
+                if (!dependents.has(name)) {
+                    dependents.add(name)
+                    next.push(name)
+                }
+            }))
+        frontier = next
+    }
+    return Array.from(dependents)
+};
+
+/**
+ * `applyOutputs` records what a step produced, and clears the outputs that were built on
+ * the ones it changed.
+ * @param steps - The steps, in order.
+ * @param outputs - The outputs so far.
+ * @param values - The new outputs; `undefined` clears one.
+ */
+export const applyOutputs = <Names extends string>(
+    steps: StepDefinition<Names>[],
+    outputs: WizardOutputs<Names>,
+    values: WizardOutputs<Names>
+): WizardOutputs<Names> => {
+    const names = Object.keys(values) as Names[]
+    const changed = names.filter(name => outputs[name]?.toString() !== values[name]?.toString())
+    const cleared = dependentOutputs(steps, changed).filter(name => !names.includes(name))
+
+    const next: WizardOutputs<Names> = { ...outputs, ...values }
+    cleared.forEach(name => { delete next[name] })
+    return next
+};
+
+/**
+ * `serializeOutputs` turns outputs into text for storage.
+ * @param schema - How each output is saved.
+ * @param outputs - The outputs to save.
+ */
+export const serializeOutputs = <Names extends string>(schema: OutputSchema<Names>, outputs: WizardOutputs<Names>): string => {
+    const saved: { [name: string]: string } = {}
+    ;(Object.keys(schema) as Names[]).forEach(name => {
+        const value = outputs[name]
+        if (isSet(value)) { saved[name] = value!.toString() }
+    })
+    return JSON.stringify(saved)
+};
+
+/**
+ * `deserializeOutputs` reads outputs saved by `serializeOutputs`. Outputs that are missing
+ * from the schema or don't parse are left out, so a changed schema can't break a page.
+ * @param schema - How each output is saved.
+ * @param text - The saved text.
+ */
+export const deserializeOutputs = <Names extends string>(schema: OutputSchema<Names>, text: string | null): WizardOutputs<Names> => {
+    const outputs: WizardOutputs<Names> = {}
+    let saved: { [name: string]: unknown }
+    try {
+        saved = JSON.parse(text ?? '{}')
+    } catch (error) {
+        return outputs
+    }
+
+    (Object.keys(schema) as Names[]).forEach(name => {
+        const value = saved[name]
+        if (typeof value !== 'string') { return }
+        if (schema[name] === 'text') {
+            outputs[name] = value
+            return
+        }
+        try {
+            outputs[name] = new web3.PublicKey(value)
+        } catch (error) {
+            // an address that doesn't parse is dropped
+        }
+    })
+    return outputs
+};
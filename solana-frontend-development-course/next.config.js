@@ -1,4 +1,9 @@
 /** @type {import('next').NextConfig} */
 module.exports = {
   reactStrictMode: true,
+  experimental: {
+    // the wallet adapters ship ES modules that Node can't import as they are, e.g. Ledger's
+    // extensionless imports, so the server loads their CommonJS builds instead
+    esmExternals: false,
+  },
 }
@@ -5,8 +5,11 @@ import 'react-toastify/dist/ReactToastify.css';
 
 import Navbar from '../components/Navbar';
 
+import ClusterContextProvider from '../contexts/ClusterContextProvider';
+import ExplorerContextProvider from '../contexts/ExplorerContextProvider';
 import WalletContextProvider from '../contexts/WalletContextProvider';
 import TransitionContextProvider from '../contexts/TransitionContextProvider';
+import TransactionPreviewContextProvider from '../contexts/TransactionPreviewContextProvider';
 import Head from 'next/head';
 
 function MyApp({ Component, pageProps }: AppProps) {
@@ -16,13 +19,19 @@ function MyApp({ Component, pageProps }: AppProps) {
         <title>Helius</title>
         <link rel="icon" href="data:image/svg+xml,<svg xmlns=%22http://www.w3.org/2000/svg%22 viewBox=%220 0 100 100%22><text y=%22.9em%22 font-size=%2290%22>🔨</text></svg>" />
       </Head>
-      <WalletContextProvider>
-        <Navbar />
-        <ToastContainer />
-        <TransitionContextProvider>
-          <Component {...pageProps} />
-        </TransitionContextProvider>
-      </WalletContextProvider>
+      <ClusterContextProvider>
+        <ExplorerContextProvider>
+          <WalletContextProvider>
+            <TransactionPreviewContextProvider>
+              <Navbar />
+              <ToastContainer />
+              <TransitionContextProvider>
+                <Component {...pageProps} />
+              </TransitionContextProvider>
+            </TransactionPreviewContextProvider>
+          </WalletContextProvider>
+        </ExplorerContextProvider>
+      </ClusterContextProvider>
     </>
   );
 }
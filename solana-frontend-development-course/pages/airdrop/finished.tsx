@@ -0,0 +1,53 @@
+import * as React from "react";
+import * as web3 from "@solana/web3.js";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { useRouter } from "next/router";
+
+import { toast } from "react-toastify";
+
+import Airdrop from '../../components/tokens/Airdrop';
+
+/*
+    Sends a token to a whole list of wallets at once, e.g. test tokens to a team.
+    The `mint` query parameter starts the page on a mint, so links can choose
+    the token.
+*/
+
+const Finished = () => {
+    const [mintAddr, setMintAddr] = React.useState<web3.PublicKey | undefined>(undefined);
+
+    const { connection } = useConnection();
+    const { publicKey } = useWallet();
+
+    // the query is only known once the router is ready
+    const router = useRouter();
+    React.useEffect(() => {
+        if (!router.isReady || typeof router.query.mint !== 'string') { return; }
+        try {
+            setMintAddr(new web3.PublicKey(router.query.mint));
+        } catch (err) {
+            console.log('error', err);
+        }
+    }, [router.isReady, router.query.mint]);
+
+    // error handling; is wallet connected?
+    const connectionErr = () => {
+        if (!publicKey || !connection) {
+            toast.error("Please connect your wallet");
+            return true;
+        } else { return false; }
+    };
+
+    return (
+        <main className="max-w-7xl grid grid-cols-1 sm:grid-cols-6 gap-4 p-4 text-white">
+            <Airdrop
+                mintAddr={mintAddr}
+                connection={connection}
+                publicKey={publicKey}
+                connectionErr={connectionErr}
+            />
+        </main>
+    );
+};
+
+export default Finished;
@@ -8,33 +8,43 @@ import { useConnection, useWallet } from '@solana/wallet-adapter-react'
 import { ExternalLinkIcon } from '@heroicons/react/outline';
 // library we use to interact with the solana json rpc api
 import * as web3 from '@solana/web3.js';
+// simulates, sends and confirms transactions
+import { useTransactionSender } from '../../hooks/useTransactionSender';
+// shows where the transaction is
+import TransactionProgress from '../../components/TransactionProgress';
+// links to the preferred explorer
+import { useExplorer } from '../../hooks/useExplorer';
 
 const Finished = () => {
+    const explorer = useExplorer();
     // allocate state to hold transaction signature
     const [txSig, setTxSig] = React.useState<string>('');
 
     // get user info from wallet provider
     const { connection } = useConnection();
-    const { publicKey, sendTransaction } = useWallet();
+    const { publicKey } = useWallet();
+    const { status, send } = useTransactionSender();
 
     // function to send sol 
     const fundWallet = async (event: { preventDefault: () => void }) => {
         // prevent page from refreshing when this function runs
         event.preventDefault();
 
-        // if user is not connected, throw an error
+        // if user is not connected, show an error
         if (!publicKey || !connection) {
             toast.error('Please connect your wallet');
-            throw 'Please connect your wallet';
+            return;
         }
 
         // generate a new keypair 
         const sender = web3.Keypair.generate();
 
         // check the balance of the keypair and send funds if needed
+            // the transfer is simulated before it's sent, so the airdrop has to land first
         const balance = await connection.getBalance(sender.publicKey);
         if (balance < web3.LAMPORTS_PER_SOL) {
-            await connection.requestAirdrop(sender.publicKey, web3.LAMPORTS_PER_SOL * 1);
+            const airdrop = await connection.requestAirdrop(sender.publicKey, web3.LAMPORTS_PER_SOL * 1);
+            await connection.confirmTransaction(airdrop, 'confirmed');
         }
 
         // create a new transaction and add the instruction to transfer tokens
@@ -46,15 +56,15 @@ const Finished = () => {
             }),
         );
 
-        // send the transaction to the network
+        // simulate the transaction, send it to the network and wait until it's confirmed
         try {
-            const signature = await sendTransaction(transaction, connection, {
+            const signature = await send(transaction, {
                 signers: [sender]
             });
             setTxSig(signature); // if tx lands, set state w/ tx signature
         } catch (error) {
-            toast.error('Error funding wallet'); // if tx fails, throw error notification
-            throw error;
+            toast.error('Error funding wallet'); // if tx fails, show an error notification
+            console.log('error', error);
         }
     };
 
@@ -63,7 +73,7 @@ const Finished = () => {
         {
             title: 'Transaction Signature...',
             dependency: txSig,
-            href: `https://explorer.solana.com/tx/${txSig}?cluster=devnet`,
+            href: explorer.tx(txSig),
         }
     ];
 
@@ -81,7 +91,7 @@ const Finished = () => {
                         Fund
                     </button>
                 </div>
-                
+                <TransactionProgress status={status} />
                 <div className='text-sm font-semibold mt-8 bg-[#222524] border-2 border-gray-500 rounded-lg p-2'>
                     <ul className='p-2'>
                         {outputs.map(({ title, dependency, href }, index) => (
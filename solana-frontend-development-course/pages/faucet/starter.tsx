@@ -3,8 +3,12 @@ import { toast } from 'react-toastify';
 import { useConnection, useWallet } from '@solana/wallet-adapter-react'
 import { ExternalLinkIcon } from '@heroicons/react/outline';
 import * as web3 from '@solana/web3.js';
+import { useCluster } from '../../hooks/useCluster';
+import { useExplorer } from '../../hooks/useExplorer';
 
 const Starter = () => {
+    const { cluster } = useCluster();
+    const explorer = useExplorer();
     // ========================================
     // STATE MANAGEMENT
     // ========================================
@@ -205,7 +209,7 @@ const Starter = () => {
                 </p>
                 {connection && (
                     <p className="text-xs text-green-400 mt-1">
-                        Network: {connection.rpcEndpoint.includes('devnet') ? 'Devnet' : 'Unknown'}
+                        Network: {cluster.label}
                     </p>
                 )}
             </div>
@@ -297,7 +301,7 @@ const Starter = () => {
                             <div className="flex items-center justify-between">
                                 <span className="text-sm text-green-300">Transaction Signature:</span>
                                 <a
-                                    href={`https://explorer.solana.com/tx/${txSig}?cluster=devnet`}
+                                    href={explorer.tx(txSig)}
                                     target="_blank"
                                     rel="noopener noreferrer"
                                     className="flex items-center text-green-200 hover:text-white transition-colors duration-200"
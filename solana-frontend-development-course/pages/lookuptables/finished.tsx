@@ -0,0 +1,36 @@
+import * as React from "react";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+
+import { toast } from "react-toastify";
+
+import LookupTableManager from '../../components/tokens/LookupTableManager';
+
+/*
+    Manages the wallet's address lookup tables, which v0 transactions use to fit
+    more accounts, e.g. the recipients of an airdrop.
+*/
+
+const Finished = () => {
+    const { connection } = useConnection();
+    const { publicKey } = useWallet();
+
+    // error handling; is wallet connected?
+    const connectionErr = () => {
+        if (!publicKey || !connection) {
+            toast.error("Please connect your wallet");
+            return true;
+        } else { return false; }
+    };
+
+    return (
+        <main className="max-w-7xl grid grid-cols-1 sm:grid-cols-6 gap-4 p-4 text-white">
+            <LookupTableManager
+                connection={connection}
+                publicKey={publicKey}
+                connectionErr={connectionErr}
+            />
+        </main>
+    );
+};
+
+export default Finished;
@@ -0,0 +1,7 @@
+import BoilerPlate from '../../components/BoilerPlate';
+
+const Starter = () => (
+    <BoilerPlate />
+)
+
+export default Starter;
\ No newline at end of file
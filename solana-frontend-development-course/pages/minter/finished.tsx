@@ -6,11 +6,14 @@ import { toast } from 'react-toastify';
 import { useConnection, useWallet } from '@solana/wallet-adapter-react'
 // imports icons
 import { ExternalLinkIcon } from '@heroicons/react/outline';
+// links to the preferred explorer
+import { useExplorer } from '../../hooks/useExplorer';
 
 const nftImageUrl = "https://nathan-galindo.vercel.app/_next/image?url=%2F_next%2Fstatic%2Fmedia%2Fimage-2.614ae0c9.jpg&w=640&q=75";
 const nftExternalUrl = "https://nathan-galindo.vercel.app/";
 
 const Finished = () => {
+    const explorer = useExplorer();
     const [apiUrl, setApiUrl] = React.useState<string>("");
     const [nft, setNft] = React.useState<string>("");
     const [nftImage, setNftImage] = React.useState<string>("");
@@ -102,7 +105,7 @@ const Finished = () => {
         {
             title: 'Asset ID...',
             dependency: nft,
-            href: `https://xray.helius.xyz/token/${nft}?network=devnet`,
+            href: explorer.token(nft),
         }
     ];
 
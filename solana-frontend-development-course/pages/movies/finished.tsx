@@ -1,31 +1,54 @@
 import * as React from 'react';
 import * as web3 from '@solana/web3.js';
-import * as borsh from '@project-serum/borsh';
 import { toast } from 'react-toastify';
 import { useConnection, useWallet } from '@solana/wallet-adapter-react';
 import { ExternalLinkIcon } from '@heroicons/react/outline';
 
+import { MAX_RATING, MIN_RATING, MovieReview, MovieReviewVariant } from '../../models/movies/MovieReview';
+import {
+    MovieReviewEntry,
+    findReviewAddress,
+    MOVIE_REVIEW_PROGRAM_ID,
+    MovieReviewCoordinator,
+    MovieReviewSort
+} from '../../scripts/movies/MovieReviewCoordinator';
+import { useProgramAccountChanges } from '../../hooks/useProgramAccountChanges';
+import { useExplorer } from '../../hooks/useExplorer';
+import { useTransactionSender } from '../../hooks/useTransactionSender';
+import { movieReviewExportSource } from '../../scripts/export/AccountExport';
+import ExportButtons from '../../components/ExportButtons';
+import TransactionProgress from '../../components/TransactionProgress';
+
 const Finished = () => {
+    const explorer = useExplorer();
     // react state variables
     const [rating, setRating] = React.useState<number>(0);
     const [description, setDescription] = React.useState<string>("");
     const [title, setTitle] = React.useState<string>("");
     const [txSig, setTxSig] = React.useState<string>("");
+    // the review being edited; `null` while writing a new one
+    const [editing, setEditing] = React.useState<MovieReviewEntry | null>(null);
+
+    // review list state variables
+    const [reviews, setReviews] = React.useState<MovieReviewEntry[]>([]);
+    const [page, setPage] = React.useState<number>(1);
+    const [search, setSearch] = React.useState<string>("");
+    const [sort, setSort] = React.useState<MovieReviewSort>('title');
+    const [hasNextPage, setHasNextPage] = React.useState<boolean>(false);
+    // bumped after our own submissions so the list is fetched again
+    const [revision, setRevision] = React.useState<number>(0);
+
+    // "my reviews" state variables
+    const [showMine, setShowMine] = React.useState<boolean>(false);
+    const [myReviews, setMyReviews] = React.useState<MovieReviewEntry[]>([]);
 
     // custom on-chain program we are interacting with
-    const programId = new web3.PublicKey('GWenWxNqXEEM4Cue4jRoYrGuyGb3FTAGu4fZGSwpMU5P');
+    const programId = new web3.PublicKey(MOVIE_REVIEW_PROGRAM_ID);
 
     // grab user's wallet details
     const { connection } = useConnection();
-    const { publicKey, sendTransaction } = useWallet();
-
-    // define schema of data we're serializing and sending to the blockchain
-    const movieReviewLayout = borsh.struct([
-        borsh.u8('variant'),
-        borsh.str('title'),
-        borsh.u8('rating'),
-        borsh.str('description')
-    ]);
+    const { publicKey } = useWallet();
+    const { status, send } = useTransactionSender();
 
     // function to send our input to the on-chain program
     const sendMovieReview = async (event: { preventDefault: () => void; }) => {
@@ -35,31 +58,45 @@ const Finished = () => {
         // check if user's wallet is connected
         if (!publicKey || !connection) {
             toast.error('Please connect your wallet');
-            throw 'Please connect your wallet';
+            return;
         };
 
-        // create a buffer to store user input | note: a solana account can store up to 10MB (10,485,760 bytes)
-        let buffer = Buffer.alloc(1000);
+        // the title seeds the review's address, so an edited review keeps its original title
+        const review = new MovieReview(editing ? editing.review.title : title, rating, description);
 
-        // create unique movie title
-        const movieTitle = `${title} - (${(Math.random() * 1000000).toString().slice(0, 4)})`;
+        // check the review fits what the program accepts before asking the wallet to sign
+        const errors = review.validate();
+        if (errors.length > 0) {
+            errors.forEach(error => toast.error(error));
+            return;
+        }
 
-        // encodes the provided data into a binary format according to the movieInstructionLayout's schema and writes the encoded data into the buffer.
-        movieReviewLayout.encode({
-            variant: 0,
-            title: movieTitle,
-            rating: rating,
-            description: description
-        }, buffer);
+        // derive the address of the account we will store this info in on-chain
+        const pda = findReviewAddress(publicKey, review.title);
 
-        // adjust the buffer size in case our data has any unused space (to avoid paying hire rent / bloating blockchain space)
-        buffer = buffer.slice(0, movieReviewLayout.getSpan(buffer));
+        // a wallet can only review a title once; the existing review has to be edited instead
+        if (!editing && await connection.getAccountInfo(pda)) {
+            toast.error('You already reviewed this movie. Edit it from "My reviews" instead.');
+            return;
+        }
 
-        // derive the address of the account we will store this info in on-chain
-        const [pda] = await web3.PublicKey.findProgramAddress(
-            [publicKey!.toBuffer(), Buffer.from(movieTitle)],  
-            programId
-        );
+        await submitReviewInstruction(review, editing ? MovieReviewVariant.Update : MovieReviewVariant.Add, pda);
+    };
+
+    // close one of our reviews, returning its rent to the wallet
+    const deleteMovieReview = async ({ pubkey, review }: MovieReviewEntry) => {
+        if (!publicKey || !connection) {
+            toast.error('Please connect your wallet');
+            return;
+        };
+
+        await submitReviewInstruction(review, MovieReviewVariant.Close, pubkey);
+    };
+
+    // build, sign and send an instruction for the review stored at `pda`
+    const submitReviewInstruction = async (review: MovieReview, variant: MovieReviewVariant, pda: web3.PublicKey) => {
+        // encode the review into a buffer sized exactly to the data (to avoid paying higher rent / bloating blockchain space)
+        const buffer = review.serialize(variant);
 
         // initialize a transaction object (empty)
         const transaction = new web3.Transaction();
@@ -72,7 +109,7 @@ const Finished = () => {
                 {
                     pubkey: publicKey!,
                     isSigner: true,
-                    isWritable: false,
+                    isWritable: variant === MovieReviewVariant.Close,
                 },
                 {
                     pubkey: pda,
@@ -90,27 +127,109 @@ const Finished = () => {
         // add instruction to transaction object
         transaction.add(instruction);
 
-
-        try { // send transaction to blockchain
-            const signature = await sendTransaction(transaction, connection);
+        try { // simulate the transaction, send it to the blockchain and wait until it's confirmed
+            const signature = await send(transaction);
             setTxSig(signature);
-            toast.success("Movie review sent to blockchain!")
-            console.log(`https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+            toast.success(
+                variant === MovieReviewVariant.Close ? "Movie review deleted!"
+                    : variant === MovieReviewVariant.Update ? "Movie review updated!"
+                    : "Movie review sent to blockchain!"
+            );
+            console.log(explorer.tx(signature));
+            // drop the cached pages so the lists pick up our change
+            MovieReviewCoordinator.invalidate(connection);
+            setRevision(revision => revision + 1);
+            resetForm();
         } catch (error) { // throw error messages if request fails
+            toast.error('Transaction failed!');
             console.error(error);
-        } finally { // reset state variables in any case
-            setDescription("");
-            setRating(0);
-            setTitle("");
         }
     };
 
+    // start editing one of our reviews in the form
+    const editMovieReview = (authored: MovieReviewEntry) => {
+        setEditing(authored);
+        setTitle(authored.review.title);
+        setRating(authored.review.rating);
+        setDescription(authored.review.description);
+    };
+
+    // reset state variables
+    const resetForm = () => {
+        setEditing(null);
+        setDescription("");
+        setRating(0);
+        setTitle("");
+    };
+
+    // a review being edited belongs to the wallet that was connected when editing started
+    React.useEffect(() => {
+        resetForm();
+    }, [connection, publicKey]);
+
+    // load the connected wallet's reviews when the "my reviews" view is open
+    React.useEffect(() => {
+        setMyReviews([]);
+
+        if (!publicKey || !showMine) {
+            return;
+        }
+
+        let cancelled = false;
+        MovieReviewCoordinator.fetchReviewsBy(connection, publicKey).then(authored => {
+            if (!cancelled) {
+                setMyReviews(authored);
+            }
+        }).catch(error => console.error(error));
+
+        return () => { cancelled = true; };
+    }, [connection, publicKey, showMine, revision]);
+
+    // load the current page of reviews whenever the search, sort or page changes
+    React.useEffect(() => {
+        const coordinator = MovieReviewCoordinator.forConnection(connection, search);
+        let cancelled = false;
+
+        coordinator.fetchEntries(page, 5, sort).then(reviews => {
+            // ignore pages that arrive after the search or cluster already changed
+            if (cancelled) {
+                return;
+            }
+            setReviews(reviews);
+            setHasNextPage(coordinator.hasNextPage(page, 5));
+        }).catch(error => console.error(error));
+
+        return () => { cancelled = true; };
+    }, [connection, page, search, sort, revision]);
+
+    // live updates: reviews on screen are updated in place; reviews we haven't listed yet are counted when they match the search
+    const { updated, newCount, reset } = useProgramAccountChanges({
+        programId: MOVIE_REVIEW_PROGRAM_ID,
+        deserialize: MovieReview.deserialize,
+        visible: (showMine ? myReviews : reviews).map(entry => entry.pubkey),
+        isKnown: pubkey => MovieReviewCoordinator.forConnection(connection, search).includes(pubkey),
+        matches: review => MovieReviewCoordinator.forConnection(connection, search).matches(review),
+    });
+
+    // show the latest version of a review
+    const latest = ({ pubkey, review }: MovieReviewEntry): MovieReviewEntry => ({
+        pubkey,
+        review: updated[pubkey.toBase58()] ?? review,
+    });
+
+    // reload the lists so they include the reviews that arrived since they were fetched
+    const showNewEntries = () => {
+        MovieReviewCoordinator.invalidate(connection);
+        reset();
+        setRevision(revision => revision + 1);
+    };
+
     // define repetitive ui elements
     const outputs = [
         {
             title: 'Transaction Signature...',
             dependency: txSig,
-            href: `https://explorer.solana.com/tx/${txSig}?cluster=devnet`
+            href: explorer.tx(txSig)
         }
     ];
 
@@ -120,15 +239,27 @@ const Finished = () => {
                 <form className='rounded-lg min-h-content p-4 bg-[#2a302f] sm:col-span-6 lg:col-start-2 lg:col-end-6'>
                     <div className='flex justify-between items-center'>
                         <h2 className='font-bold text-2xl text-helius-orange'>
-                            Movie Review 🎬
+                            {editing ? 'Edit Review ✏️' : 'Movie Review 🎬'}
                         </h2>
-                        <button
-                            disabled={!title || !description || !rating}
-                            onClick={event => sendMovieReview(event)}
-                            className='disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-helius-orange bg-helius-orange rounded-lg w-24 py-1 font-semibold transition-all duration-200 hover:bg-transparent border-2 border-transparent hover:border-helius-orange'
-                        >
-                            Submit
-                        </button>
+                        <div className='flex gap-2'>
+                            {
+                                editing &&
+                                <button
+                                    type='button'
+                                    onClick={resetForm}
+                                    className='rounded-lg w-24 py-1 font-semibold transition-all duration-200 border-2 border-helius-orange hover:bg-helius-orange'
+                                >
+                                    Cancel
+                                </button>
+                            }
+                            <button
+                                disabled={!title || !description || !rating}
+                                onClick={event => sendMovieReview(event)}
+                                className='disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-helius-orange bg-helius-orange rounded-lg w-24 py-1 font-semibold transition-all duration-200 hover:bg-transparent border-2 border-transparent hover:border-helius-orange'
+                            >
+                                {editing ? 'Update' : 'Submit'}
+                            </button>
+                        </div>
                     </div>
 
                     <div className='mt-6'>
@@ -139,9 +270,11 @@ const Finished = () => {
                             id='title'
                             type="text"
                             placeholder='Movie title'
-                            className='text-[#9e80ff] py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white'
+                            className='text-[#9e80ff] py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white disabled:opacity-50'
                             onChange={event => setTitle(event.target.value)}
                             value={title}
+                            // the title seeds the review's address, so it can't change once the review exists
+                            disabled={editing !== null}
                         />
                     </div>
 
@@ -166,14 +299,15 @@ const Finished = () => {
                         <input
                             id='rating'
                             type="number"
-                            max={5}
-                            min={0}
+                            max={MAX_RATING}
+                            min={MIN_RATING}
                             placeholder='Movie rating'
                             className='text-[#9e80ff] py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white'
                             onChange={event => setRating(parseInt(event.target.value))}
                             value={rating}
                         />
                     </div>
+                    <TransactionProgress status={status} />
                     <div className='text-sm font-semibold mt-8 bg-[#222524] border-2 border-gray-500 rounded-lg p-2'>
                         <ul className='p-2'>
                             {outputs.map(({ title, dependency, href }, index) => (
@@ -197,8 +331,156 @@ const Finished = () => {
                     </div>
                 </form>
             </section>
+
+            {/* LIST OF REVIEWS */}
+            <section className='mb-4 grid grid-cols-1 sm:grid-cols-6 gap-4 px-4'>
+                <div className='rounded-lg min-h-content p-4 bg-[#2a302f] sm:col-span-6 lg:col-start-2 lg:col-end-6'>
+                    <div className='flex justify-between items-center mb-6'>
+                        <h2 className='font-bold text-2xl text-helius-orange'>
+                            {showMine ? 'My Reviews 📝' : 'Reviews 🍿'}
+                        </h2>
+                        <div className='flex gap-2'>
+                            {
+                                !showMine &&
+                                <ExportButtons
+                                    source={() => movieReviewExportSource(
+                                        MovieReviewCoordinator.forConnection(connection, search),
+                                        sort,
+                                        publicKey ? [publicKey] : []
+                                    )}
+                                />
+                            }
+                            {
+                                !showMine &&
+                                <select
+                                    className='bg-[#222524] border-2 border-gray-500 rounded-lg px-2 py-1 text-sm'
+                                    onChange={event => {
+                                        setSort(event.target.value as MovieReviewSort);
+                                        setPage(1);
+                                    }}
+                                    value={sort}
+                                >
+                                    <option value='title'>Sort by title</option>
+                                    <option value='rating'>Sort by rating</option>
+                                </select>
+                            }
+                            <button
+                                disabled={!publicKey}
+                                onClick={() => setShowMine(!showMine)}
+                                className='disabled:opacity-50 disabled:cursor-not-allowed bg-[#222524] border-2 border-gray-500 rounded-lg px-2 py-1 text-sm transition-all duration-200 hover:border-helius-orange'
+                            >
+                                {showMine ? 'All reviews' : 'My reviews'}
+                            </button>
+                        </div>
+                    </div>
+                    {
+                        newCount > 0 &&
+                        <button
+                            onClick={showNewEntries}
+                            className='mb-6 w-full bg-[#222524] border-2 border-helius-orange rounded-lg py-2 text-sm font-semibold transition-all duration-200 hover:bg-helius-orange'
+                        >
+                            {newCount} new {newCount === 1 ? 'entry' : 'entries'}, click to show
+                        </button>
+                    }
+                    {
+                        showMine ?
+                        <div>
+                            {myReviews.length === 0 && <p className='text-sm italic'>You haven't reviewed any movies yet.</p>}
+                            {
+                                myReviews.map(latest).map(authored => (
+                                    <ReviewCard key={authored.pubkey.toBase58()} review={authored.review}>
+                                        <div className='mt-4 flex gap-2'>
+                                            <button
+                                                onClick={() => editMovieReview(authored)}
+                                                className='bg-helius-orange rounded-lg w-24 py-1 text-sm font-semibold transition-all duration-200 hover:bg-transparent border-2 border-transparent hover:border-helius-orange'
+                                            >
+                                                Edit
+                                            </button>
+                                            <button
+                                                onClick={() => deleteMovieReview(authored)}
+                                                className='rounded-lg w-24 py-1 text-sm font-semibold transition-all duration-200 border-2 border-helius-orange hover:bg-helius-orange'
+                                            >
+                                                Delete
+                                            </button>
+                                        </div>
+                                    </ReviewCard>
+                                ))
+                            }
+                        </div>
+                        :
+                        <div>
+                            <input
+                                id='search'
+                                type="text"
+                                placeholder='Search titles'
+                                className='text-[#9e80ff] py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white'
+                                onChange={event => {
+                                    setSearch(event.target.value);
+                                    setPage(1);
+                                }}
+                                value={search}
+                            />
+                            <div className='mt-6'>
+                                {
+                                    reviews.map(latest).map(({ pubkey, review }) => (
+                                        <ReviewCard key={pubkey.toBase58()} review={review} />
+                                    ))
+                                }
+                            </div>
+                            <div className='mt-6 flex justify-between'>
+                                <div>
+                                    {
+                                        page > 1 &&
+                                        <button
+                                            onClick={() => setPage(page - 1)}
+                                            className='bg-helius-orange rounded-lg w-24 py-1 font-semibold transition-all duration-200 hover:bg-transparent border-2 border-transparent hover:border-helius-orange'
+                                        >
+                                            Previous
+                                        </button>
+                                    }
+                                </div>
+                                <div>
+                                    {
+                                        hasNextPage &&
+                                        <button
+                                            onClick={() => setPage(page + 1)}
+                                            className='bg-helius-orange rounded-lg w-24 py-1 font-semibold transition-all duration-200 hover:bg-transparent border-2 border-transparent hover:border-helius-orange'
+                                        >
+                                            Next
+                                        </button>
+                                    }
+                                </div>
+                            </div>
+                        </div>
+                    }
+                </div>
+            </section>
         </main>
     );
 };
 
+type ReviewCardProps = {
+    review: MovieReview;
+    children?: React.ReactNode;
+};
+
+const ReviewCard: React.FC<ReviewCardProps> = ({ review, children }) => {
+    return (
+        <div className='bg-[#222524] border-2 border-gray-500 my-4 p-4 rounded-lg'>
+            <div className='flex justify-between items-center'>
+                <h4 className='text-[#80ebff] font-semibold tracking-wide italic text-lg'>
+                    {review.title}
+                </h4>
+                <span className='text-sm font-semibold'>
+                    {'⭐'.repeat(review.rating)} {review.rating}/5
+                </span>
+            </div>
+            <p className='text-sm mt-2'>
+                {review.description}
+            </p>
+            {children}
+        </div>
+    );
+};
+
 export default Finished;
\ No newline at end of file
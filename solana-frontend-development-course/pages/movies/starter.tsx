@@ -5,8 +5,10 @@ import { toast } from "react-toastify";
 import { useConnection, useWallet } from "@solana/wallet-adapter-react";
 import { ExternalLinkIcon } from "@heroicons/react/outline";
 import { transcode } from "buffer";
+import { useExplorer } from "../../hooks/useExplorer";
 
 const Starter = () => {
+    const explorer = useExplorer();
     const [rating, setRating] = React.useState<number>(0);
     const [description, setDescription] = React.useState<string>("");
     const [title, setTitle] = React.useState<string>("");
@@ -85,7 +87,7 @@ const Starter = () => {
             const signature = await sendTransaction(transaction, connection);
             setTxSig(signature);
             toast.success("Succesful!");
-            console.log(`https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+            console.log(explorer.tx(signature));
         } catch (error) {
             console.error("error", error);
             toast.error("Request failed!");
@@ -100,7 +102,7 @@ const Starter = () => {
         {
             title: "Transaction Signature...",
             dependency: txSig,
-            href: `https://explorer.solana.com/tx/${txSig}?cluster=devnet`
+            href: explorer.tx(txSig)
         },
     ];
 
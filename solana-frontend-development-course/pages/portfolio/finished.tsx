@@ -0,0 +1,133 @@
+import * as React from "react";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { ExternalLinkIcon, RefreshIcon } from '@heroicons/react/outline';
+
+import { PortfolioAccount, useTokenPortfolio } from '../../hooks/useTokenPortfolio';
+import { TOKEN_PROGRAMS } from '../../models/tokens/TokenProgram';
+import { useExplorer } from '../../hooks/useExplorer';
+
+/*
+    Every token account of the connected wallet, of the original token program
+    and of Token-2022, with what's in it. The list reloads by itself whenever one
+    of the accounts changes.
+
+    Send and Burn open the tokens page with the mint and the account filled in.
+*/
+
+const shorten = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+const programName = (account: PortfolioAccount) =>
+    TOKEN_PROGRAMS.find(({ programId }) => programId.equals(account.programId))?.name ?? account.programId.toBase58();
+
+type AccountRowProps = {
+    account: PortfolioAccount;
+};
+
+const AccountRow: React.FC<AccountRowProps> = ({ account }) => {
+    const explorer = useExplorer();
+    const actionLink = (card: string) => `/tokens/finished?mint=${account.mint}&account=${account.address}#${card}`;
+
+    return (
+        <li className='bg-[#222524] border-2 border-gray-500 rounded-lg p-4'>
+            <div className='flex justify-between items-center'>
+                <div>
+                    <p className='font-semibold'>
+                        {account.metadata ? `${account.metadata.name} (${account.metadata.symbol})` : 'Unknown Token'}
+                    </p>
+                    <a
+                        href={explorer.token(account.mint)}
+                        target='_blank'
+                        rel='noopener noreferrer'
+                        className='flex text-sm text-[#80ebff] italic hover:text-white transition-all duration-200'
+                    >
+                        {shorten(account.mint.toBase58())}
+                        <ExternalLinkIcon className='w-4 ml-1' />
+                    </a>
+                </div>
+                <p className='text-lg font-semibold'>
+                    {account.amount.uiAmountString}
+                </p>
+            </div>
+            <dl className='mt-4 grid grid-cols-2 gap-2 text-sm'>
+                <dt className='italic'>Token Account</dt>
+                <dd className='text-right'>
+                    <a
+                        href={explorer.address(account.address)}
+                        target='_blank'
+                        rel='noopener noreferrer'
+                        className='inline-flex text-[#80ebff] italic hover:text-white transition-all duration-200'
+                    >
+                        {shorten(account.address.toBase58())}
+                        <ExternalLinkIcon className='w-4 ml-1' />
+                    </a>
+                </dd>
+                <dt className='italic'>Decimals</dt>
+                <dd className='text-right'>{account.amount.decimals}</dd>
+                <dt className='italic'>Delegate</dt>
+                <dd className='text-right'>
+                    {account.delegate ? `${shorten(account.delegate.toBase58())} (${account.delegatedAmount?.uiAmountString ?? '0'})` : 'None'}
+                </dd>
+                <dt className='italic'>Frozen</dt>
+                <dd className='text-right'>{account.isFrozen ? 'Yes' : 'No'}</dd>
+                <dt className='italic'>Token Program</dt>
+                <dd className='text-right'>{programName(account)}</dd>
+            </dl>
+            <div className='mt-4 flex justify-end gap-2 text-sm font-semibold'>
+                <a
+                    href={actionLink('transfer')}
+                    className='bg-helius-orange rounded-lg py-1 px-4 transition-all duration-200 border-2 border-transparent hover:border-helius-orange hover:bg-transparent'
+                >
+                    Send
+                </a>
+                <a
+                    href={actionLink('burn')}
+                    className='bg-[#2a302f] rounded-lg py-1 px-4 transition-all duration-200 border-2 border-gray-500 hover:border-helius-orange'
+                >
+                    Burn
+                </a>
+            </div>
+        </li>
+    );
+};
+
+const Finished = () => {
+    const { publicKey } = useWallet();
+    const { accounts, loading, refresh } = useTokenPortfolio(publicKey);
+
+    return (
+        <main className="max-w-7xl grid grid-cols-1 sm:grid-cols-6 gap-4 p-4 text-white">
+            <div className='rounded-lg min-h-content bg-[#2a302f] p-4 sm:col-span-6 lg:col-start-2 lg:col-end-6'>
+                <div className='flex justify-between items-center'>
+                    <h2 className='text-lg sm:text-2xl font-semibold'>
+                        Token Portfolio 💼
+                    </h2>
+                    <button
+                        type='button'
+                        onClick={refresh}
+                        disabled={!publicKey || loading}
+                        className='flex items-center bg-helius-orange rounded-lg py-1 sm:py-2 px-4 font-semibold transition-all duration-200 border-2 border-transparent hover:border-helius-orange disabled:opacity-50 disabled:hover:bg-helius-orange hover:bg-transparent disabled:cursor-not-allowed'
+                    >
+                        Refresh
+                        <RefreshIcon className={`w-5 ml-1 ${loading ? 'animate-spin' : ''}`} />
+                    </button>
+                </div>
+                {
+                    !publicKey &&
+                    <p className='mt-6 text-sm italic'>Connect your wallet to see its tokens.</p>
+                }
+                {
+                    publicKey && !loading && accounts.length === 0 &&
+                    <p className='mt-6 text-sm italic'>This wallet has no token accounts yet.</p>
+                }
+                {
+                    accounts.length > 0 &&
+                    <ul className='mt-6 flex flex-col gap-4'>
+                        {accounts.map(account => <AccountRow key={account.address.toBase58()} account={account} />)}
+                    </ul>
+                }
+            </div>
+        </main>
+    );
+};
+
+export default Finished;
@@ -3,8 +3,12 @@ import * as web3 from '@solana/web3.js';
 import { toast } from 'react-toastify';
 import { useConnection, useWallet } from '@solana/wallet-adapter-react';
 import { ExternalLinkIcon } from '@heroicons/react/outline';
+import { useExplorer } from '../../hooks/useExplorer';
+import { useTransactionSender } from '../../hooks/useTransactionSender';
+import TransactionProgress from '../../components/TransactionProgress';
 
 const Finished = () => {
+    const explorer = useExplorer();
 
     const [account, setAccount] = useState('');
     const [amount, setAmount] = useState(0);
@@ -12,7 +16,8 @@ const Finished = () => {
     const [txSig, setTxSig] = useState('');
 
     const { connection } = useConnection();
-    const { publicKey, sendTransaction } = useWallet();
+    const { publicKey } = useWallet();
+    const { status, send } = useTransactionSender();
 
     const handleTransaction = async () => {
         if (!connection || !publicKey) {
@@ -30,7 +35,8 @@ const Finished = () => {
         transaction.add(instruction);
         
         try {
-            const signature = await sendTransaction(transaction, connection);
+            // resolves once the transfer is confirmed, so the balance below is already spent
+            const signature = await send(transaction);
             setTxSig(signature)
 
             const newBalance = balance - amount;
@@ -66,7 +72,7 @@ const Finished = () => {
         {
             title: 'Transaction Signature...',
             dependency: txSig,
-            href: `https://explorer.solana.com/tx/${txSig}?cluster=devnet`
+            href: explorer.tx(txSig)
         },
     ];
 
@@ -111,6 +117,7 @@ const Finished = () => {
                             onChange={event => setAmount(event.target.value)}
                         />
                     </div>
+                    <TransactionProgress status={status} />
                     <div className='text-sm font-semibold mt-8 bg-[#222524] border-2 border-gray-500 rounded-lg p-2'>
                         <ul className='p-2'>
                             {outputs.map(({ title, dependency, href }, index) => (
@@ -3,8 +3,10 @@ import * as web3 from '@solana/web3.js';
 import { toast } from 'react-toastify';
 import { useConnection, useWallet } from '@solana/wallet-adapter-react';
 import { ExternalLinkIcon, CheckCircleIcon, ExclamationCircleIcon } from '@heroicons/react/outline';
+import { useExplorer } from '../../hooks/useExplorer';
 
 const Starter = () => {
+    const explorer = useExplorer();
     // ========================================
     // STATE MANAGEMENT
     // ========================================
@@ -438,7 +440,7 @@ const Starter = () => {
                                 <div className="flex items-center justify-between">
                                     <span className="text-sm text-green-300">Transaction Signature:</span>
                                     <a
-                                        href={`https://explorer.solana.com/tx/${txSig}?cluster=devnet`}
+                                        href={explorer.tx(txSig)}
                                         target="_blank"
                                         rel="noopener noreferrer"
                                         className="flex items-center text-green-200 hover:text-white transition-colors duration-200"
@@ -3,8 +3,15 @@ import * as web3 from '@solana/web3.js';
 import { useConnection, useWallet } from '@solana/wallet-adapter-react';
 import { toast } from 'react-toastify';
 
-import { StudentIntroReference } from '../../models/serialize/StudentIntroReference';
-import { StudentIntroCoordinatorReference } from '../../scripts/serialize/StudentIntroCoordinatorReference'
+import { StudentIntroReference, StudentIntroVariant } from '../../models/serialize/StudentIntroReference';
+import { StudentIntroCoordinatorReference, findIntroAddress } from '../../scripts/serialize/StudentIntroCoordinatorReference'
+import { StudentIntroEntry } from '../../scripts/serialize/StudentIntroSearchIndex';
+import { useProgramAccountChanges } from '../../hooks/useProgramAccountChanges';
+import { useExplorer } from '../../hooks/useExplorer';
+import { useTransactionSender } from '../../hooks/useTransactionSender';
+import { studentIntroExportSource } from '../../scripts/export/AccountExport';
+import ExportButtons from '../../components/ExportButtons';
+import TransactionProgress from '../../components/TransactionProgress';
 
 /* 
     account data needs to be deserialized using the same 
@@ -23,22 +30,31 @@ import { StudentIntroCoordinatorReference } from '../../scripts/serialize/Studen
 */
 
 const Finished: FC = () => {
+    const explorer = useExplorer();
 
     // REACT VARIABLES
     const [name, setName] = React.useState('');
     const [thoughts, setThoughts] = React.useState('');
 
+    // the intro already stored at the wallet's PDA, if any; submitting then updates it instead of creating one
+    const [existingIntro, setExistingIntro] = React.useState<StudentIntroReference | null>(null);
+
     // INTRO LIST STATE VARIABLES
-    const [studentIntros, setStudentIntros] = React.useState<StudentIntroReference[]>([]);
+    const [studentIntros, setStudentIntros] = React.useState<StudentIntroEntry[]>([]);
     const [page, setPage] = React.useState(1)
     const [search, setSearch] = React.useState('')
+    const [fullText, setFullText] = React.useState(false)
+    const [hasNextPage, setHasNextPage] = React.useState(false)
+    // bumped after our own submissions so the list is fetched again
+    const [revision, setRevision] = React.useState(0)
 
     // SOLANA PROGRAM WE ARE INTERACTING WITH
     const TARGET_PROGRAM_ID = 'HdE95RSVsdb315jfJtaykXhXY478h53X6okDupVfY9yf';
 
     // WALLET VARIABLES
     const { connection } = useConnection();
-    const { publicKey, sendTransaction } = useWallet();
+    const { publicKey } = useWallet();
+    const { status, send } = useTransactionSender();
 
     // SUBMIT A NEW INTRO
     const createSubmission = async (event: { preventDefault: () => void }) => {
@@ -56,16 +72,16 @@ const Finished: FC = () => {
         }
 
         // call `serialize` on `StudentIntro` to get buffer byte data
-        const buffer = studentIntro.serialize();
+            // a wallet can only hold one intro, so if it already has one we send the update variant
+        const buffer = studentIntro.serialize(
+            existingIntro ? StudentIntroVariant.Update : StudentIntroVariant.Create
+        );
 
         // create a new `Transaction` object
         const transaction = new web3.Transaction();
 
         // get all accounts that the transaction will interact with
-        const [ pda ] = web3.PublicKey.findProgramAddressSync(
-            [ publicKey.toBuffer() ],
-            new web3.PublicKey(TARGET_PROGRAM_ID)
-        );
+        const pda = findIntroAddress(publicKey);
 
         // create a new `Instruction` object containing `keys`, `programId`, `buffer byte data`
             // `keys` is an array of accounts that the transaction will interact with
@@ -98,30 +114,78 @@ const Finished: FC = () => {
         // add the `Instruction` to the `Transaction`
         transaction.add(instruction);
 
-        // use `sendTransaction`, passing in the `Transaction` and `connection` objects
+        // use `send`, which simulates the `Transaction`, asks the wallet to sign it and waits until it's confirmed
         try {
-            const response = await sendTransaction(transaction, connection);
-            console.log(`Transaction submitted: https://explorer.solana.com/tx/${response}?cluster=devnet`)
-            toast.success('Transaction was successful!');
+            const response = await send(transaction);
+            console.log(`Transaction submitted: ${explorer.tx(response)}`)
+            toast.success(existingIntro ? 'Your intro was updated!' : 'Transaction was successful!');
+            // the form now edits the intro we just stored
+            setExistingIntro(studentIntro);
+            // drop the cached pages so the list picks up our intro
+            StudentIntroCoordinatorReference.invalidate(connection);
+            setRevision(revision => revision + 1);
         } catch (error: any) {
-            toast.error('Transaction failed!');
+            toast.error(existingIntro ? 'Updating your intro failed!' : 'Transaction failed!');
             console.log('Error:', error);
-        } finally {
-            // reset react state variables
-            setName('');
-            setThoughts('');
         };
     };
 
+    // look up the connected wallet's intro and prefill the form with it
     React.useEffect(() => {
-        StudentIntroCoordinatorReference.fetchPage(
-            connection,
-            page,
-            5,
-            search,
-            search !== ''
-        ).then(setStudentIntros)
-    }, [page, search]);
+        setExistingIntro(null);
+        setName('');
+        setThoughts('');
+
+        if (!publicKey) {
+            return;
+        }
+
+        connection.getAccountInfo(findIntroAddress(publicKey)).then(account => {
+            const intro = StudentIntroReference.deserialize(account?.data);
+            if (!intro || !intro.name) {
+                return;
+            }
+            setExistingIntro(intro);
+            setName(intro.name);
+            setThoughts(intro.message);
+        }).catch(error => console.log('Error:', error));
+    }, [connection, publicKey]);
+
+    React.useEffect(() => {
+        const coordinator = StudentIntroCoordinatorReference.forConnection(connection, search, fullText);
+        let cancelled = false;
+
+        coordinator.fetchEntries(page, 5).then(intros => {
+            // ignore pages that arrive after the search or cluster already changed
+            if (cancelled) {
+                return;
+            }
+            setStudentIntros(intros);
+            setHasNextPage(coordinator.hasNextPage(page, 5));
+        }).catch(error => console.log('Error:', error));
+
+        return () => { cancelled = true; };
+    }, [connection, page, search, fullText, revision]);
+
+    // LIVE UPDATES
+        // intros on this page are updated in place; intros we haven't listed yet are counted when they match the search
+    const { updated, newCount, reset } = useProgramAccountChanges({
+        programId: TARGET_PROGRAM_ID,
+        deserialize: StudentIntroReference.deserialize,
+        visible: studentIntros.map(entry => entry.pubkey),
+        isKnown: pubkey => StudentIntroCoordinatorReference.forConnection(connection, search, fullText).includes(pubkey),
+        matches: intro => StudentIntroCoordinatorReference.forConnection(connection, search, fullText).matches(intro),
+    });
+
+    // show the latest version of every intro on the page
+    const displayedIntros = studentIntros.map(({ pubkey, intro }) => updated[pubkey.toBase58()] ?? intro);
+
+    // reload the list so it includes the intros that arrived since it was fetched
+    const showNewEntries = () => {
+        StudentIntroCoordinatorReference.invalidate(connection);
+        reset();
+        setRevision(revision => revision + 1);
+    };
 
     return (
         <main className='min-h-screen text-white'>
@@ -130,16 +194,25 @@ const Finished: FC = () => {
                 <form className='rounded-lg min-h-content p-4 bg-[#2a302f] sm:col-span-6 lg:col-start-2 lg:col-end-6'>
                     <div className='flex justify-between items-center'>
                         <h2 className='font-bold text-2xl text-helius-orange'>
-                            Introduce yourself ✌️
+                            {existingIntro ? 'Edit your intro ✏️' : 'Introduce yourself ✌️'}
                         </h2>
                         <button
-                            disabled={name === '' || thoughts === ''}
+                            disabled={
+                                name === '' || thoughts === '' ||
+                                (existingIntro !== null && name === existingIntro.name && thoughts === existingIntro.message)
+                            }
                             onClick={event => createSubmission(event)}
                             className='disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-helius-orange bg-helius-orange rounded-lg w-24 py-1 font-semibold transition-all duration-200 hover:bg-transparent border-2 border-transparent hover:border-helius-orange'
                         >
-                            Submit
+                            {existingIntro ? 'Update' : 'Submit'}
                         </button>
                     </div>
+                    {
+                        existingIntro &&
+                        <p className='mt-4 text-sm bg-[#222524] border-2 border-gray-500 rounded-lg p-2'>
+                            You already have an intro. Each wallet can only have one, so submitting will update it.
+                        </p>
+                    }
                     <div className='pb-2'>
                         <div className='mt-4'>
                             <h3 className='italic text-sm'>
@@ -168,19 +241,62 @@ const Finished: FC = () => {
                             />
                         </div>
                     </div>
+                    <TransactionProgress status={status} />
                 </form>
             </section>
 
             {/* LIST OF RESPONSES */}
             <section className='mb-4 grid grid-cols-1 sm:grid-cols-6 gap-4 px-4'>
                 <div className='rounded-lg min-h-content p-4 bg-[#2a302f] sm:col-span-6 lg:col-start-2 lg:col-end-6'>
-                    <h2 className='font-bold text-2xl text-helius-orange mb-6'>
-                        Meet the students
-                    </h2>
+                    <div className='flex justify-between items-center mb-6'>
+                        <h2 className='font-bold text-2xl text-helius-orange'>
+                            Meet the students
+                        </h2>
+                        <ExportButtons
+                            source={() => studentIntroExportSource(
+                                StudentIntroCoordinatorReference.forConnection(connection, search, fullText),
+                                publicKey ? [publicKey] : []
+                            )}
+                        />
+                    </div>
+                    <div>
+                        <input
+                            id='search'
+                            type="text"
+                            placeholder={fullText ? 'Search names and messages' : 'Search names'}
+                            className='py-1 w-full bg-transparent outline-none resize-none border-2 border-transparent border-b-white'
+                            onChange={event => {
+                                setSearch(event.target.value);
+                                setPage(1);
+                            }}
+                            value={search}
+                        />
+                        <label className='flex items-center mt-2 text-sm italic'>
+                            <input
+                                type='checkbox'
+                                className='mr-2 accent-helius-orange'
+                                onChange={event => {
+                                    setFullText(event.target.checked);
+                                    setPage(1);
+                                }}
+                                checked={fullText}
+                            />
+                            Full-text search (ignores case and searches messages, loads every intro once)
+                        </label>
+                    </div>
+                    {
+                        newCount > 0 &&
+                        <button
+                            onClick={showNewEntries}
+                            className='mt-6 w-full bg-[#222524] border-2 border-helius-orange rounded-lg py-2 text-sm font-semibold transition-all duration-200 hover:bg-helius-orange'
+                        >
+                            {newCount} new {newCount === 1 ? 'entry' : 'entries'}, click to show
+                        </button>
+                    }
                     <div>
                         <div className='mt-6'>
                             {
-                                studentIntros.map((studentIntro: StudentIntroReference, index: number) => (
+                                displayedIntros.map((studentIntro: StudentIntroReference, index: number) => (
                                     (studentIntro.name && studentIntro.message) &&
                                     <div
                                         key={`${studentIntro.name}-${index}`}
@@ -210,7 +326,7 @@ const Finished: FC = () => {
                             </div>
                             <div>
                                 {
-                                    StudentIntroCoordinatorReference.accounts.length > page * 5 &&
+                                    hasNextPage &&
                                     <button
                                         onClick={() => setPage(page + 1)}
                                         className='bg-helius-orange rounded-lg w-24 py-1 font-semibold transition-all duration-200 hover:bg-transparent border-2 border-transparent hover:border-helius-orange'
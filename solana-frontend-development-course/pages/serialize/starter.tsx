@@ -5,11 +5,13 @@ import { toast } from 'react-toastify';
 
 import { StudentIntroReference } from '../../models/serialize/StudentIntroReference';
 import { StudentIntroCoordinatorReference } from '../../scripts/serialize/StudentIntroCoordinatorReference';
+import { useExplorer } from '../../hooks/useExplorer';
 
 // The main UI component for the Student Intros application.
 // This component provides a form for users to introduce themselves and
 // displays a paginated list of all introductions stored on the Solana blockchain.
 const Starter: FC = () => {
+    const explorer = useExplorer();
     // Solana wallet connection and public key hooks
     const { connection } = useConnection();
     const { publicKey, sendTransaction } = useWallet();
@@ -33,12 +35,9 @@ const Starter: FC = () => {
     useEffect(() => {
         // Set loading state to true to provide user feedback
         setIsLoading(true);
-        StudentIntroCoordinatorReference.fetchPage(
-            connection,
+        StudentIntroCoordinatorReference.forConnection(connection, search).fetchPage(
             page,
             5, // 5 items per page
-            search,
-            search !== '' // Force reload if search is active
         ).then(intros => {
             setStudentIntros(intros);
         }).finally(() => {
@@ -124,17 +123,18 @@ const Starter: FC = () => {
         try {
             const txSignature = await sendTransaction(transaction, connection);
             toast.success(
-                <a href={`https://explorer.solana.com/tx/${txSignature}?cluster=devnet`} target="_blank" rel="noopener noreferrer">
+                <a href={explorer.tx(txSignature)} target="_blank" rel="noopener noreferrer">
                     Transaction successful! Click to view on explorer.
                 </a>
             );
             // After a successful transaction, we should refresh the list.
-            // We can do this by triggering the useEffect again, for example by resetting the page.
+            // Invalidating the cached pages makes the next fetch pick up our new intro.
+            StudentIntroCoordinatorReference.invalidate(connection);
             if (page !== 1) {
                 setPage(1);
             } else {
                 // If already on page 1, manually refetch.
-                StudentIntroCoordinatorReference.fetchPage(connection, 1, 5, '', true).then(setStudentIntros);
+                StudentIntroCoordinatorReference.forConnection(connection, '').fetchPage(1, 5).then(setStudentIntros);
             }
         } catch (error) {
             toast.error('Transaction failed!');
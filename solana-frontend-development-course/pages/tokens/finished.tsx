@@ -1,22 +1,222 @@
 import * as React from "react";
 import * as web3 from "@solana/web3.js";
-import * as token from '@solana/spl-token';
 import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { useRouter } from "next/router";
 
 import { toast } from "react-toastify";
-import { ExternalLinkIcon } from '@heroicons/react/outline';
 
-const Finished = () => {
-    // Token Mint
-    const [mintTx, setMintTx] = React.useState<string>("");
-    const [mintAddr, setMintAddr] = React.useState<web3.PublicKey | undefined>(undefined);
+import StepWizard from '../../components/StepWizard';
+import CreateMultisig from '../../components/tokens/CreateMultisig';
+import CreateMint from '../../components/tokens/CreateMint';
+import CreateMetadata from '../../components/tokens/CreateMetadata';
+import CreateAccount from '../../components/tokens/CreateAccount';
+import MintTo from '../../components/tokens/MintTo';
+import Transfer from '../../components/tokens/Transfer';
+import Burn from '../../components/tokens/Burn';
+import MultisigTransaction from '../../components/tokens/MultisigTransaction';
+import ManageAuthorities from '../../components/tokens/ManageAuthorities';
+import { useStepWizard } from '../../hooks/useStepWizard';
+import { useTokenBalances } from '../../hooks/useTokenBalances';
+import { MockConnection } from '../../mock/MockConnection';
+import { DEFAULT_MINT_SETTINGS, MintSettings } from '../../models/tokens/MintSettings';
+import { DEFAULT_TOKEN_PROGRAM, TOKEN_PROGRAMS, TokenProgram } from '../../models/tokens/TokenProgram';
+import { OutputSchema, StepDefinition } from '../../models/wizard/StepWizard';
+
+/*
+    The whole life of a token, one card per step:
+
+    optionally, create a multisig to be the mint or freeze authority
+    1. create a Token Mint, the account that describes the token, with its
+       decimals, mint authority and freeze authority
+       optionally, give the token a name, symbol and image wallets can show
+    2. create a Token Account that holds tokens of that mint, by default the
+       associated token account of the wallet
+    3. mint new tokens into the token account
+    4. transfer tokens to another wallet or token account
+    5. burn tokens from the token account
+       when a multisig is the authority, mint and transfer with the signatures
+       of its members instead
+    6. manage the authorities: hand them on or remove them, freeze and thaw
+       token accounts, and close empty ones
+
+    New mints are created with the token program chosen at the top, either the
+    original token program or Token-2022 with its extensions. The later steps
+    use whichever program owns the mint.
+
+    The steps are declared below with what each one depends on and produces, and
+    a step stays locked until the steps it depends on are done. A new mint starts
+    the steps built on it over. What the steps produced is saved in the browser,
+    per cluster, so a half finished setup carries on after a reload. The supply
+    of the mint and the balance of the token account are watched live, so each
+    card shows the effect of the last step.
+
+    The `mint` and `account` query parameters start the page on an existing mint
+    and token account, which is how the portfolio page links to its Send and Burn
+    actions.
+*/
+
+// a query parameter as a public key, or `undefined` if it's missing or not an address
+const queryAddress = (value: string | string[] | undefined) => {
+    if (typeof value !== 'string') { return undefined; }
+    try {
+        return new web3.PublicKey(value);
+    } catch (err) {
+        return undefined;
+    }
+};
+
+type TokenSetupOutput =
+    | 'multisigAddr' | 'multisigTx'
+    | 'mintAddr' | 'mintTx'
+    | 'metadataTx'
+    | 'accAddr' | 'accTx'
+    | 'mintToTx' | 'transferTx' | 'burnTx' | 'multisigSendTx'
+    | 'authorityTx';
+
+const TOKEN_SETUP_OUTPUTS: OutputSchema<TokenSetupOutput> = {
+    multisigAddr: 'address',
+    multisigTx: 'text',
+    mintAddr: 'address',
+    mintTx: 'text',
+    metadataTx: 'text',
+    accAddr: 'address',
+    accTx: 'text',
+    mintToTx: 'text',
+    transferTx: 'text',
+    burnTx: 'text',
+    multisigSendTx: 'text',
+    authorityTx: 'text',
+};
+
+// the user fills in each step's inputs on its card
+const TOKEN_SETUP_STEPS: StepDefinition<TokenSetupOutput>[] = [
+    {
+        id: 'multisig',
+        title: 'Create Multisig',
+        inputs: ['signers', 'required signatures'],
+        dependsOn: [],
+        produces: ['multisigAddr', 'multisigTx'],
+        optional: true,
+    },
+    {
+        id: 'mint',
+        title: 'Create Token Mint',
+        inputs: ['decimals', 'mint authority', 'freeze authority', 'extensions'],
+        dependsOn: [],
+        produces: ['mintAddr', 'mintTx'],
+    },
+    {
+        id: 'metadata',
+        title: 'Token Metadata',
+        inputs: ['name', 'symbol', 'uri'],
+        dependsOn: ['mintAddr'],
+        produces: ['metadataTx'],
+        optional: true,
+    },
+    {
+        id: 'account',
+        title: 'Create Token Account',
+        inputs: ['owner'],
+        dependsOn: ['mintAddr'],
+        produces: ['accAddr', 'accTx'],
+    },
+    {
+        id: 'mint-to',
+        title: 'Mint Tokens',
+        inputs: ['amount'],
+        dependsOn: ['mintAddr', 'accAddr'],
+        produces: ['mintToTx'],
+    },
+    {
+        id: 'transfer',
+        title: 'Transfer Tokens',
+        inputs: ['recipient', 'amount'],
+        dependsOn: ['mintAddr', 'accAddr'],
+        produces: ['transferTx'],
+    },
+    {
+        id: 'burn',
+        title: 'Burn Tokens',
+        inputs: ['amount'],
+        dependsOn: ['mintAddr', 'accAddr'],
+        produces: ['burnTx'],
+    },
+    {
+        id: 'multisig-transaction',
+        title: 'Multisig Transaction',
+        inputs: ['multisig', 'token account', 'recipient', 'amount', 'signing members'],
+        dependsOn: ['mintAddr'],
+        produces: ['multisigSendTx'],
+        optional: true,
+    },
+    {
+        id: 'authorities',
+        title: 'Manage Authorities',
+        inputs: ['action', 'token account', 'new authority'],
+        dependsOn: ['mintAddr'],
+        produces: ['authorityTx'],
+        optional: true,
+    },
+];
+
+type ProgramSelectorProps = {
+    tokenProgram: TokenProgram;
+    setTokenProgram: (program: TokenProgram) => void;
+};
+
+const ProgramSelector: React.FC<ProgramSelectorProps> = ({ tokenProgram, setTokenProgram }) => {
+    return (
+        <div className='rounded-lg bg-[#2a302f] p-4 sm:col-span-6 lg:col-start-2 lg:col-end-6 flex justify-between items-center'>
+            <h2 className='text-lg sm:text-2xl font-semibold'>
+                Token Program ⚙️
+            </h2>
+            <div className='flex gap-4 text-sm'>
+                {TOKEN_PROGRAMS.map(program => (
+                    <label key={program.name} className='flex items-center'>
+                        <input
+                            type='radio'
+                            className='mr-2 accent-helius-orange'
+                            onChange={() => setTokenProgram(program)}
+                            checked={program.programId.equals(tokenProgram.programId)}
+                        />
+                        {program.name}
+                    </label>
+                ))}
+            </div>
+        </div>
+    );
+};
 
-    // Token Account
-    const [accTx, setAccTx] = React.useState<string>("");
-    const [accAddr, setAccAddr] = React.useState<web3.PublicKey | undefined>(undefined);
+const Finished = () => {
+    // Token Mint inputs; the accounts and transactions the steps produce are kept by the wizard
+    const [mintSettings, setMintSettings] = React.useState<MintSettings>(DEFAULT_MINT_SETTINGS);
+    const [tokenProgram, setTokenProgram] = React.useState<TokenProgram>(DEFAULT_TOKEN_PROGRAM);
 
     const { connection } = useConnection();
-    const { publicKey, sendTransaction } = useWallet();
+    const { publicKey, sendTransaction, signTransaction } = useWallet();
+
+    // the mock cluster forgets its accounts on reload, so there's nothing to resume there
+    const storageKey = connection instanceof MockConnection ? null : `token-setup:${connection.rpcEndpoint}`;
+
+    const { outputs, states, produce, reset } = useStepWizard(TOKEN_SETUP_STEPS, TOKEN_SETUP_OUTPUTS, storageKey);
+    const address = (name: TokenSetupOutput) => outputs[name] as web3.PublicKey | undefined;
+    const signature = (name: TokenSetupOutput) => (outputs[name] as string | undefined) ?? "";
+
+    const mintAddr = address('mintAddr');
+    const accAddr = address('accAddr');
+    const multisigAddr = address('multisigAddr');
+
+    const { supply, balance, refresh } = useTokenBalances(mintAddr, accAddr);
+
+    // the query is only known once the router is ready
+    const router = useRouter();
+    React.useEffect(() => {
+        if (!router.isReady) { return; }
+        const mint = queryAddress(router.query.mint);
+        if (mint) {
+            produce({ mintAddr: mint, accAddr: queryAddress(router.query.account) });
+        }
+    }, [router.isReady, router.query.mint, router.query.account, produce]);
 
     // error handling; is wallet connected?
     const connectionErr = () => {
@@ -26,188 +226,103 @@ const Finished = () => {
         } else { return false; }
     };
 
-    // create transaction to create a token mint on the blockchain
-    const createMint = async (event: { preventDefault: () => void; }) => {
-        // prevents page from refreshing
-        event.preventDefault();
-
-        // checks if wallet is connected
-        if (connectionErr()) { return; }
-
-        try {
-            // Token Mints are accounts which hold data ABOUT a specific token.
-            // Token Mints DO NOT hold tokens themselves.
-            const tokenMint = web3.Keypair.generate();
-            // amount of SOL required for the account to not be deallocated
-            const lamports = await token.getMinimumBalanceForRentExemptMint(connection);
-            // `token.createMint` function creates a transaction with the following two instruction: `createAccount` and `createInitializeMintInstruction`.
-            const transaction = new web3.Transaction().add(
-                // creates a new account
-                web3.SystemProgram.createAccount({
-                    fromPubkey: publicKey!,
-                    newAccountPubkey: tokenMint.publicKey,
-                    space: token.MINT_SIZE,
-                    lamports,
-                    programId: token.TOKEN_PROGRAM_ID
-                }),
-                // initializes the new account as a Token Mint account
-                token.createInitializeMintInstruction(
-                    tokenMint.publicKey,
-                    0,
-                    publicKey!,
-                    token.TOKEN_PROGRAM_ID
-                )
-            );
-
-            // prompts the user to sign the transaction and submit it to the network
-            const signature = await sendTransaction(transaction, connection, { signers: [tokenMint] });
-            setMintTx(signature);
-            setMintAddr(tokenMint.publicKey);
-        } catch (err) {
-            toast.error('Error creating Token Mint');
-            console.log('error', err);
-        }
+    // shared by every card after the token account exists
+    const lifecycleProps = {
+        mintAddr,
+        accAddr,
+        supply,
+        balance,
+        refreshBalances: refresh,
+        connection,
+        publicKey,
+        connectionErr,
     };
 
-    // create transaction to create a token account fo the mint we created on the blockchain
-    const createAccount = async (event: { preventDefault: () => void }) => {
-        event.preventDefault();
-
-        if (connectionErr()) { return; }
-
-        try {
-            // Token Accounts are accounts which hold tokens of a given mint.
-            const tokenAccount = web3.Keypair.generate();
-            const space = token.ACCOUNT_SIZE;
-            // amount of SOL required for the account to not be deallocated
-            const lamports = await connection.getMinimumBalanceForRentExemption(space);
-            const programId = token.TOKEN_PROGRAM_ID;
-
-            const transaction = new web3.Transaction().add(
-                // creates a new account
-                web3.SystemProgram.createAccount({
-                    fromPubkey: publicKey!,
-                    newAccountPubkey: tokenAccount.publicKey,
-                    space,
-                    lamports,
-                    programId
-                }),
-                // initializes the new account as a Token Account account
-                token.createInitializeAccountInstruction(
-                    tokenAccount.publicKey, // account to initialize
-                    mintAddr!, // token mint address
-                    publicKey!, // owner of new account
-                    token.TOKEN_PROGRAM_ID // spl token program account
-                )   
-            );
-
-            // prompts the user to sign the transaction and submit it to the network
-            const signature = await sendTransaction(transaction, connection, { signers: [tokenAccount] });
-            setAccTx(signature);
-            setAccAddr(tokenAccount.publicKey);
-        } catch (err) {
-            toast.error("Error creating Token Account");
-            console.log('error', err);
-        }
+    // each step's card, by the step's id
+    const cards = {
+        multisig: (
+            <CreateMultisig
+                multisigTx={signature('multisigTx')}
+                multisigAddr={multisigAddr}
+                tokenProgram={tokenProgram}
+                mintSettings={mintSettings}
+                connection={connection}
+                publicKey={publicKey}
+                setMultisigTx={multisigTx => produce({ multisigTx })}
+                setMultisigAddr={multisigAddr => produce({ multisigAddr })}
+                setMintSettings={setMintSettings}
+                connectionErr={connectionErr}
+            />
+        ),
+        mint: (
+            <CreateMint
+                mintTx={signature('mintTx')}
+                mintAddr={mintAddr}
+                mintSettings={mintSettings}
+                tokenProgram={tokenProgram}
+                connection={connection}
+                publicKey={publicKey}
+                setMintTx={mintTx => produce({ mintTx })}
+                setMintAddr={mintAddr => produce({ mintAddr })}
+                setMintSettings={setMintSettings}
+                connectionErr={connectionErr}
+            />
+        ),
+        metadata: (
+            <CreateMetadata
+                metadataTx={signature('metadataTx')}
+                mintAddr={mintAddr}
+                connection={connection}
+                publicKey={publicKey}
+                setMetadataTx={metadataTx => produce({ metadataTx })}
+                connectionErr={connectionErr}
+            />
+        ),
+        account: (
+            <CreateAccount
+                accTx={signature('accTx')}
+                accAddr={accAddr}
+                mintAddr={mintAddr}
+                connection={connection}
+                publicKey={publicKey}
+                setAccTx={accTx => produce({ accTx })}
+                setAccAddr={accAddr => produce({ accAddr })}
+                connectionErr={connectionErr}
+            />
+        ),
+        'mint-to': (
+            <MintTo {...lifecycleProps} mintToTx={signature('mintToTx')} setMintToTx={mintToTx => produce({ mintToTx })} />
+        ),
+        transfer: (
+            <Transfer {...lifecycleProps} transferTx={signature('transferTx')} setTransferTx={transferTx => produce({ transferTx })} />
+        ),
+        burn: (
+            <Burn {...lifecycleProps} burnTx={signature('burnTx')} setBurnTx={burnTx => produce({ burnTx })} />
+        ),
+        'multisig-transaction': (
+            <MultisigTransaction
+                {...lifecycleProps}
+                multisigAddr={multisigAddr}
+                multisigSendTx={signature('multisigSendTx')}
+                setMultisigSendTx={multisigSendTx => produce({ multisigSendTx })}
+                sendTransaction={sendTransaction}
+                signTransaction={signTransaction}
+            />
+        ),
+        authorities: (
+            <ManageAuthorities
+                {...lifecycleProps}
+                authorityTx={signature('authorityTx')}
+                setAuthorityTx={authorityTx => produce({ authorityTx })}
+                forgetAccount={() => produce({ accAddr: undefined })}
+            />
+        ),
     };
 
-    const createAccountOutputs = [
-        {
-            title: "Token Account Address...",
-            dependency: accAddr!,
-            href: `https://explorer.solana.com/address/${accAddr}?cluster=devnet`,
-        },
-        {
-            title: "Transaction Signature...",
-            dependency: accTx,
-            href: `https://explorer.solana.com/tx/${accTx}?cluster=devnet`,
-        }
-    ];
-
-    const createMintOutputs = [
-        {
-            title: 'Token Mint Address...',
-            dependency: mintAddr!,
-            href: `https://explorer.solana.com/address/${mintAddr}?cluster=devnet`,
-        },
-        {
-            title: 'Transaction Signature...',
-            dependency: mintTx,
-            href: `https://explorer.solana.com/tx/${mintTx}?cluster=devnet`,
-        }
-    ];
-
     return (
         <main className="max-w-7xl grid grid-cols-1 sm:grid-cols-6 gap-4 p-4 text-white">
-            <form onSubmit={event => createMint(event)} className='rounded-lg min-h-content bg-[#2a302f] p-4 sm:col-span-6 lg:col-start-2 lg:col-end-6'>
-                <div className='flex justify-between items-center'>
-                    <h2 className='text-lg sm:text-2xl font-semibold'>
-                        Create Mint 🦄
-                    </h2>
-                    <button
-                        type='submit'
-                        className='bg-helius-orange rounded-lg py-1 sm:py-2 px-4 font-semibold transition-all duration-200 border-2 border-transparent hover:border-helius-orange disabled:opacity-50 disabled:hover:bg-helius-orange hover:bg-transparent disabled:cursor-not-allowed'
-                    >
-                        Submit
-                    </button>
-                </div>
-                <div className='text-sm font-semibold mt-8 bg-[#222524] border-2 border-gray-500 rounded-lg p-2'>
-                    <ul className='p-2'>
-                        {createMintOutputs.map(({ title, dependency, href }, index) => (
-                            <li key={title} className={`flex justify-between items-center ${index !== 0 && 'mt-4'}`}>
-                                <p className='tracking-wider'>{title}</p>
-                                {
-                                    dependency &&
-                                    <a
-                                        href={href}
-                                        target='_blank'
-                                        rel='noopener noreferrer'
-                                        className='flex text-[#80ebff] italic hover:text-white transition-all duration-200'
-                                    >
-                                        {dependency.toString().slice(0, 25)}...
-                                        <ExternalLinkIcon className='w-5 ml-1' />
-                                    </a>
-                                }
-                            </li>
-                        ))}
-                    </ul>
-                </div>
-            </form>
-
-            <form onSubmit={event => createAccount(event)} className='rounded-lg min-h-content bg-[#2a302f] p-4 sm:col-span-6 lg:col-start-2 lg:col-end-6'>
-                <div className='flex justify-between items-center'>
-                    <h2 className='text-lg sm:text-2xl font-semibold'>
-                        Create Account ✨
-                    </h2>
-                    <button
-                        type='submit'
-                        className='bg-helius-orange rounded-lg py-1 sm:py-2 px-4 font-semibold transition-all duration-200 border-2 border-transparent hover:border-helius-orange disabled:opacity-50 disabled:hover:bg-helius-orange hover:bg-transparent disabled:cursor-not-allowed'
-                    >
-                        Submit
-                    </button>
-                </div>
-                <div className='text-sm font-semibold mt-8 bg-[#222524] border-2 border-gray-500 rounded-lg p-2'>
-                    <ul className='p-2'>
-                        {createAccountOutputs.map(({ title, dependency, href }, index) => (
-                            <li key={title} className={`flex justify-between items-center ${index !== 0 && 'mt-4'}`}>
-                                <p className='tracking-wider'>{title}</p>
-                                {
-                                    dependency &&
-                                    <a
-                                        href={href}
-                                        target='_blank'
-                                        rel='noopener noreferrer'
-                                        className='flex text-[#80ebff] italic hover:text-white transition-all duration-200'
-                                    >
-                                        {dependency.toString().slice(0, 25)}...
-                                        <ExternalLinkIcon className='w-5 ml-1' />
-                                    </a>
-                                }
-                            </li>
-                        ))}
-                    </ul>
-                </div>
-            </form>
+            <ProgramSelector tokenProgram={tokenProgram} setTokenProgram={setTokenProgram} />
+            <StepWizard title="Token Setup 🧭" steps={TOKEN_SETUP_STEPS} states={states} cards={cards} reset={reset} />
         </main>
     );
 };
@@ -26,7 +26,6 @@ const Starter = () => {
         new walletAdapterWallets.SolflareWalletAdapter(),
         new walletAdapterWallets.LedgerWalletAdapter(),
         new walletAdapterWallets.MathWalletAdapter(),
-        new walletAdapterWallets.SolletWalletAdapter(),
     ]
 
     const endpoint = web3.clusterApiUrl("devnet");
@@ -50,6 +50,30 @@ export const projects: Project[] = [
             starter: '/tokens/starter',
         }
     },
+    {
+        title: 'portfolio',
+        description: 'You will list every SPL token account of your wallet, with balances and token names, and keep it up to date.',
+        href: {
+            finished: '/portfolio/finished',
+            starter: '/portfolio/starter',
+        }
+    },
+    {
+        title: 'airdrop',
+        description: 'You will send SPL tokens to a CSV list of wallets, packing the transfers into as few transactions as possible.',
+        href: {
+            finished: '/airdrop/finished',
+            starter: '/airdrop/starter',
+        }
+    },
+    {
+        title: 'lookup tables',
+        description: 'You will create and extend address lookup tables, which let v0 transactions reach many more accounts.',
+        href: {
+            finished: '/lookuptables/finished',
+            starter: '/lookuptables/starter',
+        }
+    },
     {
         title: 'nft minter',
         description: 'Create an compressed NFT minting machine using Helius APIs.',
@@ -0,0 +1,188 @@
+import * as web3 from '@solana/web3.js'
+
+import { StudentIntroReference } from '../../models/serialize/StudentIntroReference'
+import { MovieReview } from '../../models/movies/MovieReview'
+import { StudentIntroCoordinatorReference, findIntroAddress } from '../serialize/StudentIntroCoordinatorReference'
+import { MovieReviewCoordinator, MovieReviewSort, findReviewAddress } from '../movies/MovieReviewCoordinator'
+
+/**
+ * Exports every intro or review matching a search to CSV or JSON, without holding the whole dump
+ * in memory at once.
+ *
+ * 1.  `exportRecords`: Asks the source's coordinator for the address of every account matching the
+ *     search, then downloads them in batches with `getMultipleAccountsInfo` and decodes each batch
+ *     into flat records.
+ *
+ * 2.  `formatRecords`: Turns the batches into chunks of CSV or JSON text as they arrive. The pages
+ *     collect the chunks into a download, the `export` script writes them to a file or stdout.
+ *
+ * Every record starts with the same columns: the account's `pubkey`, the `author` whose PDA it is,
+ * the `seed` the PDA is derived from besides the author (the title for reviews, nothing for intros)
+ * and the `dataLength` of the raw account data. The account data doesn't store the author, so it's
+ * only filled in when the address matches the PDA of one of the `authors` given to the source.
+ */
+
+// `getMultipleAccountsInfo` accepts at most 100 addresses per request
+export const MAX_BATCH_SIZE = 100
+
+export type ExportFormat = 'csv' | 'json'
+
+export interface ExportRecord {
+    [column: string]: string | number | null;
+};
+
+// where the accounts of an export come from, and how each one becomes a record
+export interface ExportSource {
+    // used to name the exported file
+    name: string;
+    columns: string[];
+    listAccounts(): Promise<web3.PublicKey[]>;
+    toRecord(pubkey: web3.PublicKey, account: web3.AccountInfo<Buffer>): ExportRecord | null;
+};
+
+const COMMON_COLUMNS = ['pubkey', 'author', 'seed', 'dataLength']
+
+/**
+ * `studentIntroExportSource` exports the intros matching a coordinator's search, in page order.
+ * @param coordinator - The coordinator holding the search, e.g. the one the page is showing.
+ * @param authors - Wallets to recognize as authors, e.g. the connected wallet.
+ */
+export const studentIntroExportSource = (
+    coordinator: StudentIntroCoordinatorReference,
+    authors: web3.PublicKey[] = []
+): ExportSource => {
+    // each wallet has exactly one intro address, so the known ones can be looked up directly
+    const authorsByAddress = new Map(authors.map(author => [findIntroAddress(author).toBase58(), author.toBase58()]))
+
+    return {
+        name: 'student-intros',
+        columns: [...COMMON_COLUMNS, 'name', 'message'],
+        listAccounts: () => coordinator.listAccounts(),
+        toRecord: (pubkey, account) => {
+            const intro = StudentIntroReference.deserialize(account.data)
+            if (!intro) {
+                return null
+            }
+            return {
+                pubkey: pubkey.toBase58(),
+                author: authorsByAddress.get(pubkey.toBase58()) ?? null,
+                seed: '',
+                dataLength: account.data.length,
+                name: intro.name,
+                message: intro.message,
+            }
+        },
+    }
+};
+
+/**
+ * `movieReviewExportSource` exports the reviews matching a coordinator's search.
+ * @param coordinator - The coordinator holding the search, e.g. the one the page is showing.
+ * @param sort - The order to export the reviews in.
+ * @param authors - Wallets to recognize as authors, e.g. the connected wallet.
+ */
+export const movieReviewExportSource = (
+    coordinator: MovieReviewCoordinator,
+    sort: MovieReviewSort = 'title',
+    authors: web3.PublicKey[] = []
+): ExportSource => ({
+    name: 'movie-reviews',
+    columns: [...COMMON_COLUMNS, 'title', 'rating', 'description'],
+    listAccounts: () => coordinator.listAccounts(sort),
+    toRecord: (pubkey, account) => {
+        const review = MovieReview.deserialize(account.data)
+        if (!review) {
+            return null
+        }
+        // the review's address also depends on its title, so the known authors are tried one by one
+        const author = authors.find(author => {
+            try {
+                return findReviewAddress(author, review.title).equals(pubkey)
+            } catch (error) {
+                // titles too long to be a seed can't have been derived from any author
+                return false
+            }
+        })
+        return {
+            pubkey: pubkey.toBase58(),
+            author: author?.toBase58() ?? null,
+            seed: review.title,
+            dataLength: account.data.length,
+            title: review.title,
+            rating: review.rating,
+            description: review.description,
+        }
+    },
+});
+
+/**
+ * `exportRecords` downloads and decodes every account of a source, one batch at a time.
+ * Accounts that were closed since they were listed, or don't decode, are skipped.
+ * @param connection - An active connection to the Solana network.
+ * @param source - What to export.
+ * @param batchSize - How many accounts to download per request, at most `MAX_BATCH_SIZE`.
+ */
+export async function* exportRecords(
+    connection: web3.Connection,
+    source: ExportSource,
+    batchSize: number = MAX_BATCH_SIZE
+): AsyncGenerator<ExportRecord[]> {
+    const size = Math.max(1, Math.min(batchSize, MAX_BATCH_SIZE))
+    const pubkeys = await source.listAccounts()
+
+    for (let start = 0; start < pubkeys.length; start += size) {
+        const batch = pubkeys.slice(start, start + size)
+        const accounts = await connection.getMultipleAccountsInfo(batch)
+
+        yield accounts.reduce((accum: ExportRecord[], account, index) => {
+            const record = account ? source.toRecord(batch[index], account) : null
+            if (record) {
+                accum.push(record)
+            }
+            return accum
+        }, [])
+    }
+};
+
+// quotes a CSV cell when it holds a separator, a quote or a line break
+const csvCell = (value: string | number | null): string => {
+    const text = value === null ? '' : String(value)
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+};
+
+/**
+ * `formatRecords` turns batches of records into chunks of CSV or JSON text, in order.
+ * Joined together, the chunks make up the whole file.
+ * @param batches - The batches to format, usually from `exportRecords`.
+ * @param columns - The columns to write, in order.
+ * @param format - `csv` for a header row plus one row per record, `json` for an array of objects.
+ */
+export async function* formatRecords(
+    batches: AsyncIterable<ExportRecord[]>,
+    columns: string[],
+    format: ExportFormat
+): AsyncGenerator<string> {
+    let first = true
+    yield format === 'csv' ? columns.map(csvCell).join(',') + '\n' : '['
+
+    for await (const records of batches) {
+        if (records.length === 0) {
+            continue
+        }
+
+        if (format === 'csv') {
+            yield records.map(record => columns.map(column => csvCell(record[column] ?? null)).join(',') + '\n').join('')
+        } else {
+            const objects = records.map(record => columns.reduce((accum: ExportRecord, column) => {
+                accum[column] = record[column] ?? null
+                return accum
+            }, {}))
+            yield (first ? '\n' : ',\n') + objects.map(object => '  ' + JSON.stringify(object)).join(',\n')
+        }
+        first = false
+    }
+
+    if (format === 'json') {
+        yield first ? ']\n' : '\n]\n'
+    }
+};
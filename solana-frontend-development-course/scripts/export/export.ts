@@ -0,0 +1,135 @@
+import 'dotenv/config'
+import * as fs from 'fs'
+import * as web3 from '@solana/web3.js'
+
+import { ExportFormat, ExportSource, exportRecords, formatRecords, movieReviewExportSource, studentIntroExportSource } from './AccountExport'
+import { StudentIntroCoordinatorReference } from '../serialize/StudentIntroCoordinatorReference'
+import { MovieReviewCoordinator, MovieReviewSort } from '../movies/MovieReviewCoordinator'
+
+/*
+    Exports every student intro or movie review to CSV or JSON from the command line:
+
+        yarn export intros --search Ada --format csv --out intros.csv
+        yarn export reviews --sort rating --format json --author <wallet>
+
+    Options:
+        --format csv|json     output format (default csv)
+        --search <text>       only export accounts matching the search, like the search box on the page
+        --full-text           (intros) search names and messages, ignoring case
+        --sort title|rating   (reviews) export order (default title)
+        --author <pubkey>     fill in the author column for this wallet's accounts; may be repeated
+        --batch <n>           accounts per `getMultipleAccountsInfo` request (default and max 100)
+        --out <file>          write to a file instead of stdout
+
+    The RPC endpoint comes from `NEXT_PUBLIC_RPC_ENDPOINT`, like the app, and defaults to devnet.
+*/
+
+const USAGE = 'usage: yarn export <intros|reviews> [--format csv|json] [--search text] [--full-text] [--sort title|rating] [--author pubkey] [--batch n] [--out file]'
+
+interface ExportOptions {
+    kind: string;
+    format: ExportFormat;
+    search: string;
+    fullText: boolean;
+    sort: MovieReviewSort;
+    authors: web3.PublicKey[];
+    batch: number | undefined;
+    out: string | undefined;
+};
+
+const parseArgs = (args: string[]): ExportOptions => {
+    const options: ExportOptions = {
+        kind: '',
+        format: 'csv',
+        search: '',
+        fullText: false,
+        sort: 'title',
+        authors: [],
+        batch: undefined,
+        out: undefined,
+    };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        // every option except `--full-text` takes a value
+        const value = () => {
+            const next = args[++i];
+            if (next === undefined) {
+                throw new Error(`${arg} needs a value`);
+            }
+            return next;
+        };
+
+        switch (arg) {
+            case '--format': {
+                const format = value();
+                if (format !== 'csv' && format !== 'json') {
+                    throw new Error(`Unknown format '${format}'`);
+                }
+                options.format = format;
+                break;
+            }
+            case '--search': options.search = value(); break;
+            case '--full-text': options.fullText = true; break;
+            case '--sort': {
+                const sort = value();
+                if (sort !== 'title' && sort !== 'rating') {
+                    throw new Error(`Unknown sort '${sort}'`);
+                }
+                options.sort = sort;
+                break;
+            }
+            case '--author': options.authors.push(new web3.PublicKey(value())); break;
+            case '--batch': {
+                const batch = parseInt(value());
+                if (!(batch > 0)) {
+                    throw new Error('--batch must be a positive number');
+                }
+                options.batch = batch;
+                break;
+            }
+            case '--out': options.out = value(); break;
+            default:
+                if (arg.startsWith('--') || options.kind) {
+                    throw new Error(`Unexpected argument '${arg}'`);
+                }
+                options.kind = arg;
+        }
+    }
+
+    return options;
+};
+
+const main = async () => {
+    const options = parseArgs(process.argv.slice(2));
+    const connection = new web3.Connection(process.env.NEXT_PUBLIC_RPC_ENDPOINT || web3.clusterApiUrl('devnet'));
+
+    let source: ExportSource;
+    if (options.kind === 'intros') {
+        const coordinator = StudentIntroCoordinatorReference.forConnection(connection, options.search, options.fullText);
+        source = studentIntroExportSource(coordinator, options.authors);
+    } else if (options.kind === 'reviews') {
+        const coordinator = MovieReviewCoordinator.forConnection(connection, options.search);
+        source = movieReviewExportSource(coordinator, options.sort, options.authors);
+    } else {
+        throw new Error(USAGE);
+    }
+
+    const output: NodeJS.WritableStream = options.out ? fs.createWriteStream(options.out) : process.stdout;
+    for await (const chunk of formatRecords(exportRecords(connection, source, options.batch), source.columns, options.format)) {
+        // wait for the stream to drain before downloading the next batch
+        if (!output.write(chunk)) {
+            await new Promise(resolve => output.once('drain', resolve));
+        }
+    }
+
+    if (options.out) {
+        await new Promise<void>(resolve => output.end(() => resolve()));
+        console.error(`Exported ${source.name} to ${options.out}`);
+    }
+};
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+});
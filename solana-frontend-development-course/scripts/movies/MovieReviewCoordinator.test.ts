@@ -0,0 +1,76 @@
+import * as fc from 'fast-check'
+import * as web3 from '@solana/web3.js'
+
+import { MockConnection } from '../../mock/MockConnection'
+import { MovieReview, MovieReviewCodec } from '../../models/movies/MovieReview'
+import { MOVIE_REVIEW_PROGRAM_ID, MovieReviewCoordinator } from './MovieReviewCoordinator'
+
+interface Review {
+    title: string;
+    rating: number;
+};
+
+// a small alphabet, so random searches often match; titles stay within the bytes the coordinator sorts by
+const letters = fc.constantFrom('a', 'b', 'c')
+const reviews = fc.uniqueArray(
+    fc.record({ title: fc.string({ unit: letters, maxLength: 8 }), rating: fc.integer({ min: 1, max: 5 }) }),
+    { maxLength: 10, selector: review => review.title }
+)
+const search = fc.string({ unit: letters, maxLength: 2 })
+
+// a mock cluster holding one account per review, laid out the way the program writes them
+const clusterWith = (reviews: Review[]): MockConnection => {
+    const connection = new MockConnection()
+    reviews.forEach(({ title, rating }, index) => connection.ledger.setAccount(new web3.PublicKey(index + 1), {
+        executable: false,
+        owner: new web3.PublicKey(MOVIE_REVIEW_PROGRAM_ID),
+        lamports: 1,
+        // the description uses the same letters, so a filter or slice off by a few bytes picks the wrong reviews
+        data: MovieReviewCodec.encodeAccount({ initialized: true, rating, title, description: title.split('').reverse().join('') }, 1000),
+    }))
+    return connection
+}
+
+const byTitle = (a: Review, b: Review) => a.title < b.title ? -1 : a.title > b.title ? 1 : 0
+
+describe('MovieReviewCoordinator', () => {
+    it('filters and sorts by the title where the account layout stores it', async () => {
+        await fc.assert(fc.asyncProperty(reviews, search, async (reviews, search) => {
+            const coordinator = new MovieReviewCoordinator(clusterWith(reviews), search)
+
+            const page = await coordinator.fetchPage(1, reviews.length + 1, 'title')
+            const expected = reviews.filter(review => review.title.startsWith(search)).sort(byTitle)
+            expect(page.map(({ title, rating }) => ({ title, rating }))).toEqual(expected)
+        }), { numRuns: 50 })
+    })
+
+    it('matches new reviews the way the search lists them', async () => {
+        await fc.assert(fc.asyncProperty(reviews, search, async (reviews, search) => {
+            const coordinator = new MovieReviewCoordinator(clusterWith(reviews), search)
+
+            const listed = (await coordinator.fetchPage(1, reviews.length + 1, 'title')).map(review => review.title)
+            const matched = reviews.filter(({ title, rating }) => coordinator.matches(new MovieReview(title, rating, '')))
+            expect(matched.map(review => review.title).sort()).toEqual(listed)
+        }), { numRuns: 50 })
+    })
+
+    it('sorts by the rating where the account layout stores it', async () => {
+        await fc.assert(fc.asyncProperty(reviews, async reviews => {
+            const coordinator = new MovieReviewCoordinator(clusterWith(reviews), '')
+
+            const page = await coordinator.fetchPage(1, reviews.length + 1, 'rating')
+            const expected = reviews.slice().sort((a, b) => b.rating - a.rating || byTitle(a, b))
+            expect(page.map(({ title, rating }) => ({ title, rating }))).toEqual(expected)
+        }), { numRuns: 50 })
+    })
+
+    it('reads the rating and the title length at the offsets the layout gives', () => {
+        fc.assert(fc.property(fc.integer({ min: 0, max: 255 }), fc.string({ unit: 'grapheme' }), fc.string({ unit: 'grapheme' }), (rating, title, description) => {
+            const data = MovieReviewCodec.encodeAccount({ initialized: true, rating, title, description })
+            const offset = MovieReviewCodec.accountOffset('title')
+            const length = data.readUInt32LE(offset)
+            expect(data[MovieReviewCodec.accountOffset('rating')]).toBe(rating)
+            expect(data.slice(offset + 4, offset + 4 + length).toString('utf8')).toBe(title)
+        }))
+    })
+})
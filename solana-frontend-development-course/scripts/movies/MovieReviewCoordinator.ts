@@ -0,0 +1,321 @@
+import bs58 from 'bs58'
+import * as web3 from '@solana/web3.js'
+
+import { MAX_TITLE_BYTES, MovieReview, MovieReviewCodec } from '../../models/movies/MovieReview'
+
+/**
+ * The `MovieReviewCoordinator` class fetches and pages through the movie reviews stored by the
+ * movie review program. It works like `StudentIntroCoordinatorReference`: each instance caches one
+ * title search on one RPC endpoint, and `MovieReviewCoordinator.forConnection` hands out the shared
+ * instance for that endpoint and search.
+ *
+ * 1.  `prefetchAccounts`: Lists every review account (optionally filtered by title prefix with `memcmp`),
+ *     downloading only the rating and the start of the title through `dataSlice`. That is all we need
+ *     to sort the reviews by title or by rating.
+ *
+ * 2.  `fetchPage`: Sorts the cached accounts, then downloads and deserializes the full data of the
+ *     reviews on the requested page with `getMultipleAccountsInfo`.
+ *
+ * Reviews live at a PDA seeded with the author's public key and the title, so `findReviewAddress`
+ * always finds the same account for the same review and `fetchReviewsBy` can tell which reviews
+ * a wallet wrote, even though the account data doesn't store the author.
+ *
+ * Review accounts are laid out as `initialized` (1 byte), `rating` (1 byte), then the title and the
+ * description as borsh strings (a 4-byte length followed by the bytes).
+ */
+
+// The movie review program. Every review account is owned by it.
+export const MOVIE_REVIEW_PROGRAM_ID = 'GWenWxNqXEEM4Cue4jRoYrGuyGb3FTAGu4fZGSwpMU5P'
+
+// offsets into the review account data; the title is a 4-byte length followed by its bytes
+const RATING_OFFSET = MovieReviewCodec.accountOffset('rating')
+const TITLE_LENGTH_OFFSET = MovieReviewCodec.accountOffset('title')
+const TITLE_OFFSET = TITLE_LENGTH_OFFSET + 4
+
+// How many bytes of the title are downloaded for sorting. Titles sharing a longer prefix may sort in any order.
+const TITLE_SORT_BYTES = 20
+
+// How long a cached list of accounts is trusted before it's fetched again.
+const DEFAULT_TTL_MS = 60 * 1000
+
+// How many searches keep their coordinator; typing a search creates one per keystroke, so older ones are dropped.
+const MAX_COORDINATORS = 32
+
+export type MovieReviewSort = 'title' | 'rating'
+
+// a review together with the account it's stored in
+export interface MovieReviewEntry {
+    pubkey: web3.PublicKey;
+    review: MovieReview;
+};
+
+/**
+ * `findReviewAddress` derives the account a review is stored in.
+ * @param author - The wallet that wrote the review.
+ * @param title - The title of the reviewed movie, exactly as stored on-chain.
+ */
+export const findReviewAddress = (author: web3.PublicKey, title: string): web3.PublicKey => {
+    const [pda] = web3.PublicKey.findProgramAddressSync(
+        [author.toBuffer(), Buffer.from(title)],
+        new web3.PublicKey(MOVIE_REVIEW_PROGRAM_ID)
+    );
+    return pda;
+};
+
+interface ReviewSummary {
+    pubkey: web3.PublicKey;
+    rating: number;
+    title: Buffer;
+};
+
+// lexicographic byte comparison, done manually to avoid type issues with Buffer definitions
+const compareBytes = (a: Buffer, b: Buffer): number => {
+    const len = Math.min(a.length, b.length);
+    for (let i = 0; i < len; i++) {
+        if (a[i] !== b[i]) {
+            return a[i] - b[i];
+        }
+    }
+    return a.length - b.length;
+};
+
+export class MovieReviewCoordinator {
+    // One coordinator per RPC endpoint and title search, least recently used first.
+    private static coordinators = new Map<string, MovieReviewCoordinator>()
+
+    readonly connection: web3.Connection
+    readonly search: string
+    readonly ttl: number
+
+    private summaries: ReviewSummary[] = []
+    // When the cache was last filled; `null` means it has never been filled or was invalidated.
+    private fetchedAt: number | null = null
+    // Bumped by `invalidate`, so a prefetch that was already in flight doesn't mark the cache as fresh.
+    private generation: number = 0
+    // The prefetch currently in flight, so concurrent page loads share one request.
+    private prefetching: Promise<void> | null = null
+
+    constructor(connection: web3.Connection, search: string, ttl: number = DEFAULT_TTL_MS) {
+        this.connection = connection
+        this.search = search
+        this.ttl = ttl
+    };
+
+    /**
+     * `forConnection` returns the shared coordinator for a title search on the connection's RPC endpoint.
+     * @param connection - An active connection to the Solana network.
+     * @param search - The start of the titles to look for. If empty, every review is listed.
+     */
+    static forConnection(connection: web3.Connection, search: string): MovieReviewCoordinator {
+        const key = [connection.rpcEndpoint, search].join('|')
+
+        let coordinator = this.coordinators.get(key)
+        if (!coordinator || coordinator.connection !== connection) {
+            coordinator = new MovieReviewCoordinator(connection, search)
+        }
+        // re-inserting moves the key to the end, so the first key is always the least recently used
+        this.coordinators.delete(key)
+        this.coordinators.set(key, coordinator)
+        if (this.coordinators.size > MAX_COORDINATORS) {
+            this.coordinators.delete(this.coordinators.keys().next().value)
+        }
+        return coordinator
+    };
+
+    /**
+     * `invalidate` drops every cached search for the connection's RPC endpoint.
+     * Call it after submitting a review so the next page load includes it.
+     * @param connection - The connection whose endpoint should be refetched.
+     */
+    static invalidate(connection: web3.Connection) {
+        this.coordinators.forEach(coordinator => {
+            if (coordinator.connection.rpcEndpoint === connection.rpcEndpoint) {
+                coordinator.invalidate()
+            }
+        })
+    };
+
+    /**
+     * `fetchReviewsBy` lists every review written by `author`, sorted by title.
+     * The account data doesn't record the author, so this downloads every review and keeps the ones
+     * whose address matches the PDA derived from `author` and the review's title.
+     * @param connection - An active connection to the Solana network.
+     * @param author - The wallet whose reviews to list.
+     */
+    static async fetchReviewsBy(connection: web3.Connection, author: web3.PublicKey): Promise<MovieReviewEntry[]> {
+        const accounts = await connection.getProgramAccounts(new web3.PublicKey(MOVIE_REVIEW_PROGRAM_ID));
+
+        const authored = accounts.reduce((accum: MovieReviewEntry[], { pubkey, account }) => {
+            const review = MovieReview.deserialize(account.data);
+            // titles longer than a seed can't have been derived from one
+            if (!review || Buffer.byteLength(review.title) > MAX_TITLE_BYTES) {
+                return accum
+            }
+            if (findReviewAddress(author, review.title).equals(pubkey)) {
+                accum.push({ pubkey, review })
+            }
+            return accum
+        }, []);
+
+        authored.sort((a, b) => a.review.title.localeCompare(b.review.title));
+        return authored;
+    };
+
+    // The number of reviews matching this coordinator's search, as of the last prefetch.
+    get totalCount(): number {
+        return this.summaries.length
+    };
+
+    // Whether the cache is missing or older than the TTL.
+    get isStale(): boolean {
+        return this.fetchedAt === null || Date.now() - this.fetchedAt > this.ttl
+    };
+
+    /**
+     * `hasNextPage` tells whether there are more reviews after the given page.
+     * @param page - The current page number (1-indexed).
+     * @param perPage - The number of reviews per page.
+     */
+    hasNextPage(page: number, perPage: number): boolean {
+        return this.totalCount > page * perPage
+    };
+
+    // Whether the account was part of the last prefetch.
+    includes(pubkey: web3.PublicKey): boolean {
+        return this.summaries.some(summary => summary.pubkey.equals(pubkey))
+    };
+
+    // Whether the review's title matches this coordinator's search, e.g. one that was created after the last prefetch.
+    matches(review: MovieReview): boolean {
+        return review.title.startsWith(this.search)
+    };
+
+    // Forget the cached accounts so the next `fetchPage` fetches them again.
+    invalidate() {
+        this.fetchedAt = null
+        this.generation++
+    };
+
+    /**
+     * `prefetchAccounts` lists the review accounts matching this coordinator's search, keeping
+     * only their public key, rating and the start of their title.
+     */
+    async prefetchAccounts() {
+        if (!this.prefetching) {
+            const generation = this.generation
+            this.prefetching = this.prefetchSummaries()
+                .then(() => {
+                    if (generation === this.generation) {
+                        this.fetchedAt = Date.now()
+                    }
+                })
+                .finally(() => { this.prefetching = null })
+        }
+        await this.prefetching
+    };
+
+    private async prefetchSummaries() {
+        const accounts = await this.connection.getProgramAccounts(
+            new web3.PublicKey(MOVIE_REVIEW_PROGRAM_ID),
+            {
+                // the rating, the title length and the first bytes of the title
+                dataSlice: { offset: RATING_OFFSET, length: 1 + 4 + TITLE_SORT_BYTES },
+                // titles start right after their 4-byte length, so a prefix search compares from there
+                filters: this.search === '' ? [] : [
+                    {
+                        memcmp: {
+                            offset: TITLE_OFFSET,
+                            bytes: bs58.encode(new TextEncoder().encode(this.search))
+                        }
+                    }
+                ]
+            }
+        );
+
+        this.summaries = accounts.reduce((accum: ReviewSummary[], { pubkey, account }) => {
+            // closed or uninitialized accounts don't hold a full slice
+            if (account.data.length < 1 + 4) {
+                return accum
+            }
+
+            const titleLength = account.data.readUInt32LE(TITLE_LENGTH_OFFSET - RATING_OFFSET)
+            const titleStart = TITLE_OFFSET - RATING_OFFSET
+
+            accum.push({
+                pubkey,
+                rating: account.data[0],
+                title: account.data.slice(titleStart, titleStart + Math.min(titleLength, TITLE_SORT_BYTES)),
+            })
+            return accum
+        }, []);
+    };
+
+    // Sorts the cached summaries in place. Ratings sort highest first, with ties broken by title.
+    private sortSummaries(sort: MovieReviewSort) {
+        this.summaries.sort((a, b) => {
+            if (sort === 'rating' && a.rating !== b.rating) {
+                return b.rating - a.rating
+            }
+            return compareBytes(a.title, b.title)
+        });
+    };
+
+    /**
+     * `listAccounts` returns the address of every review matching this coordinator's search, in the
+     * same order `fetchPage` pages through them.
+     * @param sort - Whether to order the reviews by title or by rating.
+     */
+    async listAccounts(sort: MovieReviewSort = 'title'): Promise<web3.PublicKey[]> {
+        if (this.isStale) {
+            await this.prefetchAccounts()
+        }
+        this.sortSummaries(sort)
+        return this.summaries.map(summary => summary.pubkey)
+    };
+
+    /**
+     * `fetchPage` retrieves a specific "page" of movie reviews.
+     * @param page - The page number to fetch (1-indexed).
+     * @param perPage - The number of reviews to fetch per page.
+     * @param sort - Whether to order the reviews by title or by rating.
+     * @returns A promise that resolves to the reviews on the requested page.
+     */
+    async fetchPage(page: number, perPage: number, sort: MovieReviewSort = 'title'): Promise<MovieReview[]> {
+        const entries = await this.fetchEntries(page, perPage, sort);
+        return entries.map(entry => entry.review);
+    };
+
+    /**
+     * `fetchEntries` works like `fetchPage`, but keeps the address of each review's account.
+     * @param page - The page number to fetch (1-indexed).
+     * @param perPage - The number of reviews to fetch per page.
+     * @param sort - Whether to order the reviews by title or by rating.
+     * @returns A promise that resolves to the reviews on the requested page and their accounts.
+     */
+    async fetchEntries(page: number, perPage: number, sort: MovieReviewSort = 'title'): Promise<MovieReviewEntry[]> {
+        if (this.isStale) {
+            await this.prefetchAccounts()
+        }
+
+        this.sortSummaries(sort)
+
+        const paginatedPublicKeys = this.summaries
+            .slice((page - 1) * perPage, page * perPage)
+            .map(summary => summary.pubkey);
+
+        if (paginatedPublicKeys.length === 0) {
+            return []
+        }
+
+        const accounts = await this.connection.getMultipleAccountsInfo(paginatedPublicKeys);
+
+        // skip accounts that were closed since the prefetch or that don't hold a valid review
+        return accounts.reduce((accum: MovieReviewEntry[], account, index) => {
+            const review = MovieReview.deserialize(account?.data);
+            if (!review) {
+                return accum
+            }
+            return [...accum, { pubkey: paginatedPublicKeys[index], review }];
+        }, []);
+    };
+};
@@ -0,0 +1,59 @@
+import * as fc from 'fast-check'
+import * as web3 from '@solana/web3.js'
+
+import { MockConnection } from '../../mock/MockConnection'
+import { StudentIntroCodec, StudentIntroReference } from '../../models/serialize/StudentIntroReference'
+import { STUDENT_INTRO_PROGRAM_ID, StudentIntroCoordinatorReference } from './StudentIntroCoordinatorReference'
+
+// a small alphabet, so random searches often match; names stay within the bytes the coordinator sorts by
+const letters = fc.constantFrom('a', 'b', 'c')
+const names = fc.uniqueArray(fc.string({ unit: letters, maxLength: 8 }), { maxLength: 10 })
+const search = fc.string({ unit: letters, maxLength: 2 })
+
+// a mock cluster holding one intro account per name, laid out the way the program writes them
+const clusterWith = (intros: { name: string, message: string }[]): MockConnection => {
+    const connection = new MockConnection()
+    intros.forEach(({ name, message }, index) => connection.ledger.setAccount(new web3.PublicKey(index + 1), {
+        executable: false,
+        owner: new web3.PublicKey(STUDENT_INTRO_PROGRAM_ID),
+        lamports: 1,
+        data: StudentIntroCodec.encodeAccount({ initialized: 1, name, message }, 1000),
+    }))
+    return connection
+}
+
+describe('StudentIntroCoordinatorReference', () => {
+    it('filters and sorts by the name where the account layout stores it', async () => {
+        // the messages use the same letters, so a filter or slice off by a few bytes picks the wrong intros
+        await fc.assert(fc.asyncProperty(names, search, async (names, search) => {
+            const connection = clusterWith(names.map(name => ({ name, message: name.split('').reverse().join('') })))
+            const coordinator = new StudentIntroCoordinatorReference(connection, search)
+
+            const intros = await coordinator.fetchPage(1, names.length + 1)
+            expect(intros.map(intro => intro.name)).toEqual(names.filter(name => name.startsWith(search)).sort())
+        }), { numRuns: 50 })
+    })
+
+    it.each([false, true])('matches new intros the way the search lists them (full text: %s)', async fullText => {
+        await fc.assert(fc.asyncProperty(names, search, async (names, search) => {
+            const intros = names.map(name => ({ name, message: name.split('').reverse().join('') }))
+            const connection = clusterWith(intros)
+            // every mock cluster has the same endpoint, so the full-text index of an earlier run is dropped
+            StudentIntroCoordinatorReference.invalidate(connection)
+            const coordinator = new StudentIntroCoordinatorReference(connection, search, fullText)
+
+            const listed = (await coordinator.fetchPage(1, names.length + 1)).map(intro => intro.name)
+            const matched = intros.filter(intro => coordinator.matches(new StudentIntroReference(intro.name, intro.message)))
+            expect(matched.map(intro => intro.name).sort()).toEqual(listed.slice().sort())
+        }), { numRuns: 50 })
+    })
+
+    it('reads the name length at the offset the layout gives', () => {
+        fc.assert(fc.property(fc.string({ unit: 'grapheme' }), fc.string({ unit: 'grapheme' }), (name, message) => {
+            const data = StudentIntroCodec.encodeAccount({ initialized: 1, name, message })
+            const offset = StudentIntroCodec.accountOffset('name')
+            const length = data.readUInt32LE(offset)
+            expect(data.slice(offset + 4, offset + 4 + length).toString('utf8')).toBe(name)
+        }))
+    })
+})
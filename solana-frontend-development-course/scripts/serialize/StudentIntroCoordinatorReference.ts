@@ -1,17 +1,20 @@
 import bs58 from 'bs58'
 import * as web3 from '@solana/web3.js'
 
-import { StudentIntroReference } from '../../models/serialize/StudentIntroReference'
+import { StudentIntroCodec, StudentIntroReference } from '../../models/serialize/StudentIntroReference'
+import { StudentIntroEntry, StudentIntroSearchIndex } from './StudentIntroSearchIndex'
 
 /**
  * The `StudentIntroCoordinator` class serves as a manager for fetching and handling
- * student introduction data from the Solana blockchain. It is designed with static methods,
- * meaning you can call its methods directly on the class itself without needing to create an instance.
- * This class is responsible for two main asynchronous operations:
+ * student introduction data from the Solana blockchain. Each instance caches the results of one
+ * search on one RPC endpoint, so switching clusters or search terms never shows another query's pages.
+ * Instances are shared through `StudentIntroCoordinatorReference.forConnection`, which hands out the
+ * same coordinator for the same endpoint and search until its cache expires or is invalidated.
+ * Each instance is responsible for two main asynchronous operations:
  *
  * 1.  `prefetchAccounts`: This method scans the blockchain for all accounts associated with the
  *     student introductions program. It can filter these accounts based on a search string.
- *     The public keys of these accounts are then stored in a static `accounts` array,
+ *     The public keys of these accounts are then stored in the instance's `accounts` array,
  *     acting as a cache. This prefetching mechanism is an optimization to avoid repeatedly
  *     querying all program accounts, which can be slow.
  *
@@ -19,46 +22,189 @@ import { StudentIntroReference } from '../../models/serialize/StudentIntroRefere
  *     introductions. It uses the cached list of public keys from `prefetchAccounts` and fetches
  *     the detailed account information for a specific page. It then deserializes this data
  *     into structured `StudentIntro` objects that are easy to work with in the application.
+ *
+ * Both methods also have an opt-in full-text mode. Instead of a `memcmp` name-prefix filter, it
+ * downloads every intro once into a `StudentIntroSearchIndex` and serves pages straight from it,
+ * so searches ignore case and also look inside messages. The index is shared by every full-text
+ * coordinator on the same endpoint.
  */
 
 // This is the unique identifier (public key) of the Solana program that stores all the student introductions.
 // All the data we want to fetch is owned by this program.
-const STUDENT_INTRO_PROGRAM_ID = 'HdE95RSVsdb315jfJtaykXhXY478h53X6okDupVfY9yf'
+export const STUDENT_INTRO_PROGRAM_ID = 'HdE95RSVsdb315jfJtaykXhXY478h53X6okDupVfY9yf'
+
+/**
+ * `findIntroAddress` derives the account a wallet's intro is stored in. Each wallet has one intro,
+ * at the PDA seeded with its public key.
+ * @param author - The wallet that wrote the intro.
+ */
+export const findIntroAddress = (author: web3.PublicKey): web3.PublicKey => {
+    const [pda] = web3.PublicKey.findProgramAddressSync(
+        [author.toBuffer()],
+        new web3.PublicKey(STUDENT_INTRO_PROGRAM_ID)
+    );
+    return pda;
+};
+
+// The name is the first variable-length field: a 4-byte length followed by the bytes of the name.
+const NAME_LENGTH_OFFSET = StudentIntroCodec.accountOffset('name')
+const NAME_OFFSET = NAME_LENGTH_OFFSET + 4
+
+// How long a cached list of accounts (or a full-text index) is trusted before it's fetched again.
+const DEFAULT_TTL_MS = 60 * 1000
+
+// How many searches keep their coordinator; typing a search creates one per keystroke, so older ones are dropped.
+const MAX_COORDINATORS = 32
+
+interface CachedSearchIndex {
+    index: Promise<StudentIntroSearchIndex>;
+    builtAt: number;
+};
 
 export class StudentIntroCoordinatorReference {
-    // This static array holds the public keys of all student introduction accounts that match the last search criteria.
+    // One coordinator per RPC endpoint, search mode and search term, least recently used first.
+    private static coordinators = new Map<string, StudentIntroCoordinatorReference>()
+    // One full-text index per RPC endpoint, shared by every full-text search on it.
+    private static searchIndexes = new Map<string, CachedSearchIndex>()
+
+    readonly connection: web3.Connection
+    readonly search: string
+    readonly fullText: boolean
+    readonly ttl: number
+
+    // This array holds the public keys of all student introduction accounts that match this coordinator's search.
     // It acts as a cache to avoid re-fetching the same list of accounts from the network repeatedly.
-    static accounts: web3.PublicKey[] = []
+    private accounts: web3.PublicKey[] = []
+    // In full-text mode, the decoded intros matching the search, in ranked order.
+    private searchResults: StudentIntroEntry[] = []
+    // When the cache was last filled; `null` means it has never been filled or was invalidated.
+    private fetchedAt: number | null = null
+    // Bumped by `invalidate`, so a prefetch that was already in flight doesn't mark the cache as fresh.
+    private generation: number = 0
+    // The prefetch currently in flight, so concurrent page loads share one request.
+    private prefetching: Promise<void> | null = null
+
+    constructor(connection: web3.Connection, search: string, fullText: boolean = false, ttl: number = DEFAULT_TTL_MS) {
+        this.connection = connection
+        this.search = search
+        this.fullText = fullText
+        this.ttl = ttl
+    };
 
     /**
-     * `prefetchAccounts` is responsible for retrieving and caching a list of account public keys
-     * from the student introductions program. It allows for filtering accounts based on a search term.
+     * `forConnection` returns the shared coordinator for a search on the connection's RPC endpoint,
+     * creating it the first time that endpoint and search are used.
      * @param connection - An active connection to the Solana network.
      * @param search - A string to filter the accounts by. If empty, all accounts for the program are fetched.
+     * @param fullText - If true, search the full-text index instead of filtering names with `memcmp`.
+     */
+    static forConnection(connection: web3.Connection, search: string, fullText: boolean = false): StudentIntroCoordinatorReference {
+        const key = [connection.rpcEndpoint, fullText ? 'full-text' : 'name', search].join('|')
+
+        let coordinator = this.coordinators.get(key)
+        if (!coordinator || coordinator.connection !== connection) {
+            coordinator = new StudentIntroCoordinatorReference(connection, search, fullText)
+        }
+        // re-inserting moves the key to the end, so the first key is always the least recently used
+        this.coordinators.delete(key)
+        this.coordinators.set(key, coordinator)
+        if (this.coordinators.size > MAX_COORDINATORS) {
+            this.coordinators.delete(this.coordinators.keys().next().value)
+        }
+        return coordinator
+    };
+
+    /**
+     * `invalidate` drops every cached search and full-text index for the connection's RPC endpoint.
+     * Call it after submitting an intro so the next page load includes our own changes.
+     * @param connection - The connection whose endpoint should be refetched.
+     */
+    static invalidate(connection: web3.Connection) {
+        this.searchIndexes.delete(connection.rpcEndpoint)
+        this.coordinators.forEach(coordinator => {
+            if (coordinator.connection.rpcEndpoint === connection.rpcEndpoint) {
+                coordinator.invalidate()
+            }
+        })
+    };
+
+    // The number of intros matching this coordinator's search, as of the last prefetch.
+    get totalCount(): number {
+        return this.accounts.length
+    };
+
+    // Whether the cache is missing or older than the TTL.
+    get isStale(): boolean {
+        return this.fetchedAt === null || Date.now() - this.fetchedAt > this.ttl
+    };
+
+    /**
+     * `hasNextPage` tells whether there are more intros after the given page.
+     * @param page - The current page number (1-indexed).
+     * @param perPage - The number of introductions per page.
+     */
+    hasNextPage(page: number, perPage: number): boolean {
+        return this.totalCount > page * perPage
+    };
+
+    // Whether the account was part of the last prefetch.
+    includes(pubkey: web3.PublicKey): boolean {
+        return this.accounts.some(account => account.equals(pubkey))
+    };
+
+    // Whether the intro matches this coordinator's search, e.g. one that was created after the last prefetch.
+    matches(intro: StudentIntroReference): boolean {
+        return this.fullText ? StudentIntroSearchIndex.matches(intro, this.search) : intro.name.startsWith(this.search)
+    };
+
+    // Forget the cached accounts so the next `fetchPage` fetches them again.
+    invalidate() {
+        this.fetchedAt = null
+        this.generation++
+    };
+
+    /**
+     * `prefetchAccounts` is responsible for retrieving and caching a list of account public keys
+     * from the student introductions program, filtered by this coordinator's search term.
      */
-    static async prefetchAccounts(connection: web3.Connection, search: string) {
+    async prefetchAccounts() {
+        if (!this.prefetching) {
+            const generation = this.generation
+            this.prefetching = (this.fullText ? this.prefetchFromIndex() : this.prefetchByName())
+                .then(() => {
+                    if (generation === this.generation) {
+                        this.fetchedAt = Date.now()
+                    }
+                })
+                .finally(() => { this.prefetching = null })
+        }
+        await this.prefetching
+    };
+
+    private async prefetchByName() {
         // We use `getProgramAccounts` to query the Solana RPC node for all accounts owned by our program.
-        const accounts = await connection.getProgramAccounts(
+        const accounts = await this.connection.getProgramAccounts(
             new web3.PublicKey(STUDENT_INTRO_PROGRAM_ID),
             {
                 // `dataSlice` is an optimization. Instead of downloading the entire data for each account (which can be large),
-                // we're only asking for a small chunk of it. Here, we're fetching 12 bytes starting from the 2nd byte (offset 1).
+                // we're only asking for a small chunk of it. Here, we're fetching 12 bytes starting from the name's length,
+                // wherever `StudentIntroCodec` places it in the account layout.
                 // This small slice contains just enough information to sort the accounts.
-                dataSlice: { offset: 1, length: 12 },
+                dataSlice: { offset: NAME_LENGTH_OFFSET, length: 12 },
                 // `filters` allow us to ask the RPC node to filter the accounts for us on the server-side,
                 // which is much more efficient than fetching all accounts and filtering them on the client-side.
-                filters: search === '' ? [] : [
+                filters: this.search === '' ? [] : [
                     {
                         // `memcmp` (memory comparison) is a filter that compares a slice of the account's data with a given set of bytes.
                         memcmp:
                         {
-                            // We start the comparison at an offset of 5 bytes into the account data.
-                            // This is because the account data is structured with some metadata before the actual student name.
-                            offset: 5,
+                            // We start the comparison at the first byte of the name, right after its 4-byte length.
+                            // Both offsets come from the account layout, so they follow any field added before the name.
+                            offset: NAME_OFFSET,
                             // The `bytes` to compare against are derived from the `search` string.
                             // We first convert the string to a `Buffer` (a representation of binary data),
                             // and then we encode it into a Base58 string, which is the format `memcmp` expects.
-                            bytes: bs58.encode(new TextEncoder().encode(search))
+                            bytes: bs58.encode(new TextEncoder().encode(this.search))
                         }
                     }
                 ]
@@ -67,7 +213,8 @@ export class StudentIntroCoordinatorReference {
 
         // After fetching the accounts, we sort them. The sorting is based on the student's name,
         // which is part of the account data. This ensures a consistent and predictable order for pagination.
-        accounts.sort((a, b) => {
+        // The response is read-only, so we sort a copy of it.
+        const sorted = accounts.slice().sort((a, b) => {
             // The first 4 bytes of the data slice contain the length of the student's name (as a 32-bit unsigned integer).
             // We read this length to know how many bytes represent the name.
             const lengthA = a.account.data.readUInt32LE(0)
@@ -94,26 +241,72 @@ export class StudentIntroCoordinatorReference {
             return dataA.length - dataB.length;
         });
 
-        // Once the accounts are sorted, we extract just their public keys and store them in our static `accounts` cache.
+        // Once the accounts are sorted, we extract just their public keys and store them in our `accounts` cache.
         // We don't need to keep the sliced data in memory anymore.
-        this.accounts = accounts.map(account => account.pubkey);
+        this.accounts = sorted.map(account => account.pubkey);
+    };
+
+    // Runs the search against the endpoint's full-text index, building the index first if it's missing or expired.
+    // Since the index already holds the decoded intros, `fetchPage` doesn't need to hit the network again.
+    private async prefetchFromIndex() {
+        const endpoint = this.connection.rpcEndpoint
+        let cached = StudentIntroCoordinatorReference.searchIndexes.get(endpoint)
+
+        if (!cached || Date.now() - cached.builtAt > this.ttl) {
+            const searchIndex = new StudentIntroSearchIndex()
+            cached = {
+                index: searchIndex.build(this.connection, new web3.PublicKey(STUDENT_INTRO_PROGRAM_ID)).then(() => searchIndex),
+                builtAt: Date.now(),
+            }
+            StudentIntroCoordinatorReference.searchIndexes.set(endpoint, cached)
+            // a failed build shouldn't be cached, otherwise every later search would fail too
+            cached.index.catch(() => StudentIntroCoordinatorReference.searchIndexes.delete(endpoint))
+        }
+
+        const searchIndex = await cached.index
+        this.searchResults = searchIndex.search(this.search);
+        this.accounts = this.searchResults.map(result => result.pubkey);
+    };
+
+    /**
+     * `listAccounts` returns the address of every intro matching this coordinator's search, in the
+     * same order `fetchPage` pages through them. Used to export the whole search in batches.
+     */
+    async listAccounts(): Promise<web3.PublicKey[]> {
+        if (this.isStale) {
+            await this.prefetchAccounts()
+        }
+        return this.accounts.slice()
     };
 
     /**
      * `fetchPage` retrieves a specific "page" of student introductions.
-     * It uses the cached public keys from `prefetchAccounts` and fetches the full data for that page.
-     * @param connection - An active connection to the Solana network.
+     * It uses the cached public keys from `prefetchAccounts`, refreshing them first if they are
+     * missing, expired or invalidated, and fetches the full data for that page.
      * @param page - The page number to fetch (1-indexed).
      * @param perPage - The number of introductions to fetch per page.
-     * @param search - The search string to filter by. This is passed to `prefetchAccounts` if a refetch is needed.
-     * @param reload - A boolean flag. If true, it forces a refetch of the accounts list, ignoring the cache.
      * @returns A promise that resolves to an array of `StudentIntro` objects for the requested page.
      */
-    static async fetchPage(connection: web3.Connection, page: number, perPage: number, search: string, reload: boolean = false): Promise<StudentIntroReference[]> {
-        // First, we check if our accounts cache is empty or if a reload is being forced.
-        // If either is true, we need to call `prefetchAccounts` to populate/update the cache.
-        if (this.accounts.length === 0 || reload) {
-            await this.prefetchAccounts(connection, search)
+    async fetchPage(page: number, perPage: number): Promise<StudentIntroReference[]> {
+        const entries = await this.fetchEntries(page, perPage);
+        return entries.map(entry => entry.intro);
+    };
+
+    /**
+     * `fetchEntries` works like `fetchPage`, but keeps the address of each intro's account.
+     * @param page - The page number to fetch (1-indexed).
+     * @param perPage - The number of introductions to fetch per page.
+     * @returns A promise that resolves to the intros on the requested page and their accounts.
+     */
+    async fetchEntries(page: number, perPage: number): Promise<StudentIntroEntry[]> {
+        // First, we check if our accounts cache is stale. If it is, we call `prefetchAccounts` to populate/update it.
+        if (this.isStale) {
+            await this.prefetchAccounts()
+        }
+
+        // In full-text mode the index already holds the decoded intros, so we can slice them directly.
+        if (this.fullText) {
+            return this.searchResults.slice((page - 1) * perPage, page * perPage);
         }
 
         // We calculate which slice of the `accounts` array corresponds to the requested page.
@@ -131,11 +324,11 @@ export class StudentIntroCoordinatorReference {
 
         // Now, we use `getMultipleAccountsInfo` to fetch the full account data for the public keys on the current page.
         // This is much more efficient than fetching them one by one in a loop, as it batches the request to the RPC node.
-        const accounts = await connection.getMultipleAccountsInfo(paginatedPublicKeys);
+        const accounts = await this.connection.getMultipleAccountsInfo(paginatedPublicKeys);
 
         // We process the array of account infos we received from the network.
-        // We use `reduce` to build up an array of `StudentIntro` objects.
-        const studentIntros = accounts.reduce((accum: StudentIntroReference[], account) => {
+        // We use `reduce` to build up an array of `StudentIntro` objects, each paired with its account's public key.
+        const studentIntros = accounts.reduce((accum: StudentIntroEntry[], account, index) => {
             // For each account info, we deserialize its data from the binary format into a structured `StudentIntroReference` object.
             // The `deserialize` method handles the logic of parsing the raw buffer.
             const studentIntro = StudentIntroReference.deserialize(account?.data);
@@ -147,10 +340,10 @@ export class StudentIntroCoordinatorReference {
             }
 
             // If deserialization is successful, we add the new `StudentIntro` object to our accumulator array.
-            return [...accum, studentIntro];
+            return [...accum, { pubkey: paginatedPublicKeys[index], intro: studentIntro }];
         }, []);
 
         // Finally, we return the array of populated `StudentIntro` objects.
         return studentIntros;
     };
-};
\ No newline at end of file
+};
@@ -0,0 +1,139 @@
+import * as web3 from '@solana/web3.js'
+
+import { StudentIntroReference } from '../../models/serialize/StudentIntroReference'
+
+/**
+ * The `StudentIntroSearchIndex` class is an in-memory full-text index over every student
+ * introduction. The `memcmp` filter used by `StudentIntroCoordinatorReference` can only match
+ * the exact bytes at the start of a name, so it can't ignore case or look inside messages.
+ * This index trades one larger download for much more useful searching:
+ *
+ * 1.  `build`: Downloads and deserializes every intro account once, then records the lowercased
+ *     name and message of each intro and maps every word to the intros that contain it.
+ *
+ * 2.  `search`: Matches a query against the index. Every word of the query has to appear in the
+ *     intro, either as a whole word (found through the word map) or as a substring of the name or
+ *     message. Intros are ranked so whole-word matches in the name come first.
+ */
+
+interface IndexedIntro {
+    pubkey: web3.PublicKey;
+    intro: StudentIntroReference;
+    name: string;
+    message: string;
+    nameTokens: string[];
+};
+
+// an intro together with the account it's stored in
+export interface StudentIntroEntry {
+    pubkey: web3.PublicKey;
+    intro: StudentIntroReference;
+};
+
+// splits text into lowercased words, dropping punctuation
+const tokenize = (text: string): string[] =>
+    text.toLowerCase().split(/[^a-z0-9\u00c0-\uffff]+/).filter(token => token.length > 0);
+
+export class StudentIntroSearchIndex {
+    private entries: IndexedIntro[] = [];
+    // maps each word to the positions in `entries` of the intros that contain it
+    private tokens = new Map<string, Set<number>>();
+
+    get size(): number {
+        return this.entries.length;
+    };
+
+    /**
+     * `build` fetches the full data of every account owned by the program and indexes it.
+     * Accounts that fail to deserialize or that hold an empty intro are skipped.
+     * @param connection - An active connection to the Solana network.
+     * @param programId - The program that owns the student introduction accounts.
+     */
+    async build(connection: web3.Connection, programId: web3.PublicKey) {
+        const accounts = await connection.getProgramAccounts(programId);
+
+        this.entries = [];
+        this.tokens = new Map();
+
+        accounts.forEach(({ pubkey, account }) => {
+            const intro = StudentIntroReference.deserialize(account.data);
+            if (!intro || !intro.name) {
+                return;
+            }
+
+            const position = this.entries.length;
+            const nameTokens = tokenize(intro.name);
+            this.entries.push({
+                pubkey,
+                intro,
+                name: intro.name.toLowerCase(),
+                message: intro.message.toLowerCase(),
+                nameTokens,
+            });
+
+            [...nameTokens, ...tokenize(intro.message)].forEach(token => {
+                const positions = this.tokens.get(token) ?? new Set<number>();
+                positions.add(position);
+                this.tokens.set(token, positions);
+            });
+        });
+    };
+
+    /**
+     * `search` returns every indexed intro that matches all words in `query`, best matches first.
+     * An empty query returns every intro sorted by name.
+     * @param query - The text to search for. Matching ignores case.
+     */
+    search(query: string): StudentIntroEntry[] {
+        const terms = tokenize(query);
+
+        const scored = this.entries.reduce((accum: { entry: IndexedIntro, score: number }[], entry, position) => {
+            let score = 0;
+
+            for (const term of terms) {
+                const termScore = this.scoreTerm(term, entry, position);
+                // every term has to match somewhere for the intro to be a result
+                if (termScore === 0) {
+                    return accum;
+                }
+                score += termScore;
+            }
+
+            accum.push({ entry, score });
+            return accum;
+        }, []);
+
+        scored.sort((a, b) => b.score - a.score || a.entry.name.localeCompare(b.entry.name));
+
+        return scored.map(({ entry }) => ({ pubkey: entry.pubkey, intro: entry.intro }));
+    };
+
+    /**
+     * `matches` tells whether `search` would return an intro once it's indexed, e.g. one created after `build`.
+     * Every word of a match is a substring of the lowercased name or message, so that's all it checks.
+     * @param intro - The intro to check.
+     * @param query - The text to search for. Matching ignores case.
+     */
+    static matches(intro: StudentIntroReference, query: string): boolean {
+        if (!intro.name) {
+            return false;
+        }
+        const name = intro.name.toLowerCase();
+        const message = intro.message.toLowerCase();
+        return tokenize(query).every(term => name.includes(term) || message.includes(term));
+    };
+
+    // whole words outrank substrings, and matches in the name outrank matches in the message
+    private scoreTerm(term: string, entry: IndexedIntro, position: number): number {
+        if (this.tokens.get(term)?.has(position)) {
+            return entry.nameTokens.includes(term) ? 4 : 3;
+        }
+        if (entry.name.includes(term)) {
+            return 2;
+        }
+        if (entry.message.includes(term)) {
+            return 1;
+        }
+        return 0;
+    };
+};